@@ -0,0 +1,378 @@
+// 프로젝트 저장 서버 - 같은 네트워크에서 여러 사람이 하나의 프로젝트 DB를 공유할 때 사용
+// 실행: PROJECT_TOKEN=<공유 토큰> npm run server
+//   (환경 변수 PORT, HOST, DATA_DIR, ALLOWED_ORIGIN으로 설정 변경)
+import { createServer } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, writeFile, rename, unlink } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+// 기본은 이 컴퓨터에서만 접속 가능 - 팀이 함께 쓸 때는 HOST=0.0.0.0으로 연다
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_DIR = resolve(process.env.DATA_DIR || 'server-data');
+const DB_PATH = join(DATA_DIR, 'db.json');
+const IMAGE_DIR = join(DATA_DIR, 'images');
+const THUMBNAIL_DIR = join(DATA_DIR, 'thumbnails');
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const ID_PATTERN = /^[\w-]+$/;
+const MAX_REFERENCE_IMAGES = 8;
+// 앱 주소 (쉼표로 여러 개) - 이 주소의 페이지만 브라우저에서 호출할 수 있다
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:5173')
+  .split(',')
+  .map((origin) => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+// 모든 요청에 X-Project-Token 헤더로 같은 값을 보내야 한다 (앱 설정에서 입력)
+const PROJECT_TOKEN = process.env.PROJECT_TOKEN || '';
+const TOKEN_HEADER = 'x-project-token';
+
+if (!PROJECT_TOKEN) {
+  console.error('PROJECT_TOKEN 환경 변수로 공유 토큰을 지정해주세요. 예) PROJECT_TOKEN=$(openssl rand -hex 16) npm run server');
+  process.exit(1);
+}
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ===== 데이터 =====
+
+let db = { scripts: {}, characters: {}, scenes: {}, images: {} };
+
+async function loadDb() {
+  await mkdir(IMAGE_DIR, { recursive: true });
+  await mkdir(THUMBNAIL_DIR, { recursive: true });
+  try {
+    db = { ...db, ...JSON.parse(await readFile(DB_PATH, 'utf8')) };
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+}
+
+// 쓰기는 순서대로 하나씩, 임시 파일에 쓴 뒤 교체 (중간에 죽어도 db.json이 깨지지 않도록)
+let writeQueue = Promise.resolve();
+
+function saveDb() {
+  const snapshot = JSON.stringify(db);
+  const write = writeQueue.then(async () => {
+    await writeFile(`${DB_PATH}.tmp`, snapshot);
+    await rename(`${DB_PATH}.tmp`, DB_PATH);
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+}
+
+const now = () => new Date().toISOString();
+const byScript = (table, scriptId) => Object.values(db[table]).filter((r) => r.scriptId === scriptId);
+
+function update(table, id, updates) {
+  const existing = db[table][id];
+  if (!existing) throw new HttpError(404, '찾을 수 없습니다.');
+  db[table][id] = { ...existing, ...updates, id, updatedAt: now() };
+  return db[table][id];
+}
+
+// 장면의 샷 하나만 변경 (updater: 기존 샷 -> 변경 값)
+function updateShot(sceneId, shotId, updater) {
+  const scene = db.scenes[sceneId];
+  if (!scene) throw new HttpError(404, '장면을 찾을 수 없습니다.');
+  if (!(scene.shots ?? []).some((shot) => shot.id === shotId)) throw new HttpError(404, '샷을 찾을 수 없습니다.');
+  return update('scenes', sceneId, {
+    shots: scene.shots.map((shot) => (shot.id === shotId ? { ...shot, ...updater(shot) } : shot)),
+  });
+}
+
+async function deleteImages(match) {
+  for (const [id, image] of Object.entries(db.images)) {
+    if (!match(image)) continue;
+    delete db.images[id];
+    await unlink(join(IMAGE_DIR, id)).catch(() => undefined);
+    await unlink(join(THUMBNAIL_DIR, id)).catch(() => undefined);
+  }
+}
+
+// ===== HTTP =====
+
+function readBody(req) {
+  return new Promise((resolvePromise, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, '요청이 너무 큽니다.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function readJson(req) {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, '잘못된 JSON입니다.');
+  }
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+}
+
+function isValidToken(value) {
+  if (typeof value !== 'string') return false;
+  const given = Buffer.from(value);
+  const expected = Buffer.from(PROJECT_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function checkId(id) {
+  if (!ID_PATTERN.test(id)) throw new HttpError(400, '잘못된 ID입니다.');
+  return id;
+}
+
+async function sendFile(res, path, mimeType) {
+  try {
+    const data = await readFile(path);
+    res.writeHead(200, { 'Content-Type': mimeType, 'Cache-Control': 'private, max-age=31536000, immutable' });
+    res.end(data);
+  } catch (err) {
+    if (err.code === 'ENOENT') return sendJson(res, 404, { error: '이미지를 찾을 수 없습니다.' });
+    throw err;
+  }
+}
+
+// [메서드, 경로 패턴, 핸들러]
+const routes = [
+  ['GET', /^\/api\/scripts$/, (_req, res) =>
+    sendJson(res, 200, Object.values(db.scripts).sort((a, b) => a.createdAt.localeCompare(b.createdAt)))],
+  ['GET', /^\/api\/scripts\/([^/]+)$/, (_req, res, [id]) =>
+    db.scripts[id] ? sendJson(res, 200, db.scripts[id]) : sendJson(res, 404, { error: '대본을 찾을 수 없습니다.' })],
+  ['PUT', /^\/api\/scripts\/([^/]+)$/, async (req, res, [id]) => {
+    db.scripts[checkId(id)] = { ...(await readJson(req)), id };
+    await saveDb();
+    sendJson(res, 200, db.scripts[id]);
+  }],
+  ['PATCH', /^\/api\/scripts\/([^/]+)$/, async (req, res, [id]) => {
+    const script = update('scripts', id, await readJson(req));
+    await saveDb();
+    sendJson(res, 200, script);
+  }],
+  ['DELETE', /^\/api\/scripts\/([^/]+)$/, async (_req, res, [id]) => {
+    delete db.scripts[id];
+    for (const table of ['characters', 'scenes']) {
+      byScript(table, id).forEach((r) => delete db[table][r.id]);
+    }
+    await deleteImages((image) => image.scriptId === id);
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['GET', /^\/api\/scripts\/([^/]+)\/characters$/, (_req, res, [id]) =>
+    sendJson(res, 200, byScript('characters', id).sort((a, b) => a.createdAt.localeCompare(b.createdAt)))],
+  ['GET', /^\/api\/scripts\/([^/]+)\/scenes$/, (_req, res, [id]) =>
+    sendJson(res, 200, byScript('scenes', id).sort((a, b) => a.sceneNumber - b.sceneNumber))],
+  // 분석 결과로 캐릭터/장면 교체 (새 결과에 남는 ID는 유지)
+  ['POST', /^\/api\/scripts\/([^/]+)\/analysis$/, async (req, res, [id]) => {
+    const { characters = [], scenes = [], scriptUpdates } = await readJson(req);
+    const keep = new Set([...characters, ...scenes].map((r) => r.id));
+    const removed = new Set();
+    for (const table of ['characters', 'scenes']) {
+      for (const record of byScript(table, id)) {
+        if (!keep.has(record.id)) {
+          delete db[table][record.id];
+          removed.add(record.id);
+        }
+      }
+    }
+    characters.forEach((c) => (db.characters[checkId(c.id)] = { ...c, scriptId: id }));
+    scenes.forEach((s) => (db.scenes[checkId(s.id)] = { ...s, scriptId: id }));
+    if (scriptUpdates && db.scripts[id]) update('scripts', id, scriptUpdates);
+    await deleteImages((image) => removed.has(image.ownerId));
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['GET', /^\/api\/characters\/([^/]+)$/, (_req, res, [id]) =>
+    db.characters[id] ? sendJson(res, 200, db.characters[id]) : sendJson(res, 404, { error: '캐릭터를 찾을 수 없습니다.' })],
+  ['PATCH', /^\/api\/characters\/([^/]+)$/, async (req, res, [id]) => {
+    const character = update('characters', id, await readJson(req));
+    await saveDb();
+    sendJson(res, 200, character);
+  }],
+  // 참조 이미지 추가 - 서버에서 최신 목록에 붙여서 동시 추가가 서로 덮어쓰지 않도록 한다
+  ['POST', /^\/api\/characters\/([^/]+)\/images$/, async (req, res, [id]) => {
+    const { imageIds = [] } = await readJson(req);
+    const existing = db.characters[id];
+    if (!existing) throw new HttpError(404, '캐릭터를 찾을 수 없습니다.');
+    const character = update('characters', id, {
+      referenceImages: [...existing.referenceImages, ...imageIds].slice(0, MAX_REFERENCE_IMAGES),
+      selectedImage: existing.selectedImage || imageIds[0],
+    });
+    await saveDb();
+    sendJson(res, 200, character);
+  }],
+  // 참조 이미지 제거 - 최신 목록에서 ID로 뺀다 (원본은 남겨 두고 저장공간 정리에서 삭제)
+  ['DELETE', /^\/api\/characters\/([^/]+)\/images\/([^/]+)$/, async (_req, res, [id, imageId]) => {
+    const existing = db.characters[id];
+    if (!existing) throw new HttpError(404, '캐릭터를 찾을 수 없습니다.');
+    const referenceImages = existing.referenceImages.filter((ref) => ref !== imageId);
+    const character = update('characters', id, {
+      referenceImages,
+      selectedImage: existing.selectedImage === imageId ? referenceImages[0] : existing.selectedImage,
+    });
+    await saveDb();
+    sendJson(res, 200, character);
+  }],
+  ['DELETE', /^\/api\/characters\/([^/]+)$/, async (_req, res, [id]) => {
+    const character = db.characters[id];
+    delete db.characters[id];
+    if (character) {
+      // 장면의 등장인물 목록에서도 제거
+      for (const scene of byScript('scenes', character.scriptId)) {
+        if (scene.characterIds.includes(id)) {
+          update('scenes', scene.id, { characterIds: scene.characterIds.filter((c) => c !== id) });
+        }
+      }
+    }
+    await deleteImages((image) => image.ownerId === id);
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['GET', /^\/api\/scenes\/([^/]+)$/, (_req, res, [id]) =>
+    db.scenes[id] ? sendJson(res, 200, db.scenes[id]) : sendJson(res, 404, { error: '장면을 찾을 수 없습니다.' })],
+  ['PATCH', /^\/api\/scenes\/([^/]+)$/, async (req, res, [id]) => {
+    const scene = update('scenes', id, await readJson(req));
+    await saveDb();
+    sendJson(res, 200, scene);
+  }],
+  ['POST', /^\/api\/scenes\/([^/]+)\/images$/, async (req, res, [id]) => {
+    const { imageIds = [], updates = {} } = await readJson(req);
+    const existing = db.scenes[id];
+    if (!existing) throw new HttpError(404, '장면을 찾을 수 없습니다.');
+    const scene = update('scenes', id, { ...updates, generatedImages: [...existing.generatedImages, ...imageIds] });
+    await saveDb();
+    sendJson(res, 200, scene);
+  }],
+  ['PATCH', /^\/api\/scenes\/([^/]+)\/shots\/([^/]+)$/, async (req, res, [id, shotId]) => {
+    const updates = await readJson(req);
+    const scene = updateShot(id, shotId, () => updates);
+    await saveDb();
+    sendJson(res, 200, scene);
+  }],
+  // 샷 목록 교체 (추가/삭제) - 클라이언트가 읽은 뒤 장면이 바뀌었으면 409로 거절해서 최신 값으로 다시 적용하게 한다
+  ['PUT', /^\/api\/scenes\/([^/]+)\/shots$/, async (req, res, [id]) => {
+    const { shots, expectedUpdatedAt } = await readJson(req);
+    const existing = db.scenes[id];
+    if (!existing) throw new HttpError(404, '장면을 찾을 수 없습니다.');
+    if (!Array.isArray(shots)) throw new HttpError(400, '샷 목록이 없습니다.');
+    if (existing.updatedAt !== expectedUpdatedAt) throw new HttpError(409, '그 사이 장면이 바뀌었습니다.');
+    const scene = update('scenes', id, { shots });
+    await saveDb();
+    sendJson(res, 200, scene);
+  }],
+  ['POST', /^\/api\/scenes\/([^/]+)\/shots\/([^/]+)\/images$/, async (req, res, [id, shotId]) => {
+    const { imageIds = [], updates = {} } = await readJson(req);
+    const scene = updateShot(id, shotId, (shot) => ({ ...updates, generatedImages: [...shot.generatedImages, ...imageIds] }));
+    await saveDb();
+    sendJson(res, 200, scene);
+  }],
+  ['DELETE', /^\/api\/scenes\/([^/]+)$/, async (_req, res, [id]) => {
+    delete db.scenes[id];
+    await deleteImages((image) => image.ownerId === id);
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['PUT', /^\/api\/images\/(scene|character)\/([^/]+)$/, async (req, res, [kind, id], query) => {
+    const data = await readBody(req);
+    await writeFile(join(IMAGE_DIR, checkId(id)), data);
+    db.images[id] = {
+      kind,
+      scriptId: query.get('scriptId') || '',
+      ownerId: query.get('ownerId') || '',
+      imageIndex: Number(query.get('index')) || 0,
+      mimeType: req.headers['content-type'] || 'image/png',
+      size: data.length,
+      createdAt: now(),
+    };
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['GET', /^\/api\/images\/(scene|character)\/([^/]+)$/, async (_req, res, [kind, id]) => {
+    const image = db.images[checkId(id)];
+    if (!image || image.kind !== kind) return sendJson(res, 404, { error: '이미지를 찾을 수 없습니다.' });
+    await sendFile(res, join(IMAGE_DIR, id), image.mimeType);
+  }],
+  // 썸네일 형식은 브라우저마다 다르므로 (WebP를 못 만들면 PNG) 올린 형식을 기록해 두고 그대로 보낸다
+  ['PUT', /^\/api\/thumbnails\/([^/]+)$/, async (req, res, [id]) => {
+    const image = db.images[checkId(id)];
+    if (!image) throw new HttpError(404, '원본 이미지가 없습니다.');
+    await writeFile(join(THUMBNAIL_DIR, id), await readBody(req));
+    image.thumbnailMimeType = req.headers['content-type'] || 'image/webp';
+    await saveDb();
+    res.writeHead(204).end();
+  }],
+  ['GET', /^\/api\/thumbnails\/([^/]+)$/, async (_req, res, [id]) => {
+    const image = db.images[checkId(id)];
+    if (!image) return sendJson(res, 404, { error: '이미지를 찾을 수 없습니다.' });
+    // 형식을 기록하기 전에 올린 썸네일은 WebP
+    await sendFile(res, join(THUMBNAIL_DIR, id), image.thumbnailMimeType || 'image/webp');
+  }],
+];
+
+const server = createServer(async (req, res) => {
+  // 앱과 포트가 다르므로 설정한 앱 주소에만 CORS 허용 (Origin이 없는 요청은 브라우저 밖의 도구)
+  const { origin } = req.headers;
+  res.setHeader('Vary', 'Origin');
+  if (origin) {
+    if (!ALLOWED_ORIGINS.includes(origin)) {
+      sendJson(res, 403, { error: '허용되지 않은 주소에서 보낸 요청입니다.' });
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, PATCH, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${TOKEN_HEADER}`);
+  }
+  // 사전 요청(preflight)에는 브라우저가 토큰 헤더를 싣지 않는다
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (!isValidToken(req.headers[TOKEN_HEADER])) {
+    sendJson(res, 401, { error: '토큰이 올바르지 않습니다. 설정의 서버 토큰을 확인해주세요.' });
+    return;
+  }
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = method === req.method && url.pathname.match(pattern);
+      if (match) {
+        await handler(req, res, match.slice(1).map(decodeURIComponent), url.searchParams);
+        return;
+      }
+    }
+    sendJson(res, 404, { error: '알 수 없는 경로입니다.' });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message });
+    } else if (err.code === 'ENOSPC') {
+      sendJson(res, 507, { error: '서버 디스크 공간이 부족합니다.' });
+    } else {
+      console.error(`${req.method} ${url.pathname} 처리 실패:`, err);
+      sendJson(res, 500, { error: '서버 오류가 발생했습니다.' });
+    }
+  }
+});
+
+await loadDb();
+server.listen(PORT, HOST, () => {
+  console.log(`프로젝트 저장 서버: http://${HOST}:${PORT} (데이터: ${DATA_DIR})`);
+  console.log(`허용한 앱 주소: ${ALLOWED_ORIGINS.join(', ')}`);
+});
@@ -3,6 +3,7 @@ import Layout from './components/Layout';
 import Home from './pages/Home';
 import ScriptNew from './pages/ScriptNew';
 import ScriptDetail from './pages/ScriptDetail';
+import Settings from './pages/Settings';
 
 function App() {
   return (
@@ -12,6 +13,7 @@ function App() {
           <Route index element={<Home />} />
           <Route path="scripts/new" element={<ScriptNew />} />
           <Route path="scripts/:id/*" element={<ScriptDetail />} />
+          <Route path="settings" element={<Settings />} />
         </Route>
       </Routes>
     </BrowserRouter>
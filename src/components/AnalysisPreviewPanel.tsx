@@ -0,0 +1,68 @@
+import type { AnalysisPreview, AnalysisProgress } from '../lib/analysisChunks';
+import AnalysisProgressBar from './AnalysisProgressBar';
+
+// 분석 중 화면 - 응답을 받는 대로 찾은 캐릭터/장면을 보여주고 취소할 수 있다
+export default function AnalysisPreviewPanel({
+  progress,
+  preview,
+  isCancelling,
+  onCancel,
+}: {
+  progress: AnalysisProgress;
+  preview: AnalysisPreview | null;
+  isCancelling: boolean;
+  onCancel: () => void;
+}) {
+  const characters = preview?.characters ?? [];
+  const scenes = preview?.scenes ?? [];
+
+  return (
+    <div className="p-4 bg-blue-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-blue-700">
+          {isCancelling
+            ? '분석을 취소하는 중...'
+            : scenes.length > 0
+              ? `AI가 대본을 분석하고 있습니다. 장면 ${scenes.length}개, 캐릭터 ${characters.length}명을 찾았습니다.`
+              : 'AI가 대본을 분석하고 있습니다...'}
+        </p>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isCancelling}
+          className="px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50 transition"
+        >
+          분석 취소
+        </button>
+      </div>
+      <AnalysisProgressBar progress={progress} />
+
+      {characters.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {characters.map((name) => (
+            <span key={name} className="px-2 py-0.5 bg-white text-blue-700 rounded text-xs">
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {scenes.length > 0 && (
+        <ul className="bg-white rounded-lg divide-y max-h-72 overflow-y-auto">
+          {scenes.map((scene) => (
+            <li key={scene.sceneNumber} className="px-3 py-2">
+              <p className="text-sm font-medium text-gray-800">
+                장면 {scene.sceneNumber}
+                {scene.title && `: ${scene.title}`}
+                {scene.location && <span className="ml-2 font-normal text-gray-500">{scene.location}</span>}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {scene.visualDescription ?? '시각 묘사를 만드는 중...'}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { AnalysisProgress } from '../lib/analysisChunks';
+
+// 긴 대본을 나눠서 분석할 때 조각별 진행 상황 (한 번에 분석하면 표시하지 않음)
+export default function AnalysisProgressBar({ progress }: { progress: AnalysisProgress }) {
+  if (progress.total <= 1) return null;
+
+  return (
+    <div className="mt-2">
+      <p className="text-sm text-blue-600 mb-1">
+        대본이 길어서 {progress.total}개로 나눠 분석합니다 ({progress.current}/{progress.total})
+      </p>
+      <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-500 transition-all"
+          style={{ width: `${((progress.current - 1) / progress.total) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
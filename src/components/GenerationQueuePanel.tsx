@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import type { GenerationJob, GenerationJobStatus } from '../lib/generationQueue';
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  pending: '대기',
+  running: '생성 중',
+  done: '완료',
+  failed: '실패',
+  cancelled: '중지됨',
+};
+
+const STATUS_COLORS: Record<GenerationJobStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  running: 'bg-yellow-100 text-yellow-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-orange-100 text-orange-700',
+};
+
+// 이미지 생성 큐 - 페이지를 옮기거나 새로고침해도 계속 생성되는 작업 목록
+export default function GenerationQueuePanel({
+  jobs,
+  isPaused,
+  onTogglePause,
+  onMove,
+  onRetry,
+  onCancel,
+  onCancelAll,
+  onRemove,
+  onClearFinished,
+}: {
+  jobs: GenerationJob[];
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onMove: (job: GenerationJob, direction: -1 | 1) => void;
+  onRetry: (job: GenerationJob) => void;
+  onCancel: (job: GenerationJob) => void;
+  onCancelAll: () => void;
+  onRemove: (job: GenerationJob) => void;
+  onClearFinished: () => void;
+}) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (jobs.length === 0) return null;
+
+  const count = (status: GenerationJobStatus) => jobs.filter((job) => job.status === status).length;
+  const activeCount = count('pending') + count('running');
+  const pendingJobs = jobs.filter((job) => job.status === 'pending');
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow p-4">
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-left">
+          <h3 className="font-medium text-gray-800">
+            생성 큐 {isOpen ? '▾' : '▸'}
+            {isPaused && activeCount > 0 && <span className="ml-2 text-sm font-normal text-orange-600">일시 정지됨</span>}
+          </h3>
+          <p className="text-sm text-gray-500">
+            대기 {count('pending')} · 생성 중 {count('running')} · 완료 {count('done')} · 실패 {count('failed')}
+            {count('cancelled') > 0 && ` · 중지 ${count('cancelled')}`}
+          </p>
+        </button>
+        <div className="flex gap-2">
+          {activeCount > 0 && (
+            <button
+              onClick={onTogglePause}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              {isPaused ? '다시 시작' : '일시 정지'}
+            </button>
+          )}
+          {activeCount > 0 && (
+            <button
+              onClick={onCancelAll}
+              className="px-3 py-1 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition"
+            >
+              모두 중지
+            </button>
+          )}
+          {activeCount < jobs.length && (
+            <button
+              onClick={onClearFinished}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              끝난 작업 지우기
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <ul className="mt-3 divide-y max-h-72 overflow-y-auto">
+          {jobs.map((job) => {
+            const pendingIndex = pendingJobs.indexOf(job);
+            return (
+              <li key={job.id} className="py-2 flex items-center gap-3">
+                <span className={`px-2 py-0.5 rounded text-xs shrink-0 ${STATUS_COLORS[job.status]}`}>
+                  {job.cancelRequested && job.status === 'running' ? '중지 중' : STATUS_LABELS[job.status]}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-800 truncate">
+                    {job.label}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {job.imageIds.length}/{job.imageCount}장
+                    </span>
+                  </p>
+                  {job.error && <p className="text-xs text-red-600 truncate">{job.error}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {job.status === 'pending' && (
+                    <>
+                      <button
+                        onClick={() => onMove(job, -1)}
+                        disabled={pendingIndex === 0}
+                        title="앞으로"
+                        className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-30 transition"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onMove(job, 1)}
+                        disabled={pendingIndex === pendingJobs.length - 1}
+                        title="뒤로"
+                        className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-30 transition"
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button
+                      onClick={() => onRetry(job)}
+                      className="px-2 py-1 text-xs border border-blue-300 text-blue-600 rounded hover:bg-blue-50 transition"
+                    >
+                      다시 시도
+                    </button>
+                  )}
+                  {job.status === 'pending' || job.status === 'running' ? (
+                    <button
+                      onClick={() => onCancel(job)}
+                      disabled={job.cancelRequested}
+                      className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded disabled:opacity-30 transition"
+                    >
+                      {job.status === 'pending' ? '취소' : '중지'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onRemove(job)}
+                      className="px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded transition"
+                    >
+                      지우기
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { SCRIPT_FILE_FORMAT_NAMES, type ImportedScript } from '../lib/scriptImport';
+
+const PREVIEW_MAX_CHARS = 3000;
+
+// 불러온 파일에서 꺼낸 텍스트 미리보기 - 확인한 뒤 대본 내용에 넣는다
+export default function ImportPreview({
+  fileName,
+  imported,
+  onApply,
+  onCancel,
+}: {
+  fileName: string;
+  imported: ImportedScript;
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const lineCount = imported.rawContent.split('\n').length;
+  const details = [
+    SCRIPT_FILE_FORMAT_NAMES[imported.format],
+    imported.encoding,
+    imported.pageCount !== undefined && `${imported.pageCount}쪽`,
+    imported.sceneCount !== undefined && `장면 ${imported.sceneCount}개`,
+    imported.characterCount !== undefined && `등장인물 ${imported.characterCount}명`,
+    `${imported.rawContent.length.toLocaleString()}자`,
+    `${lineCount.toLocaleString()}줄`,
+  ].filter(Boolean);
+
+  return (
+    <div className="mb-2 p-3 border-2 border-blue-200 rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-800 truncate">{fileName}</p>
+          <p className="text-xs text-gray-500">
+            {details.join(' · ')}
+            {imported.title && ` · 제목: ${imported.title}`}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={onApply}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            대본에 넣기
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            취소
+          </button>
+        </div>
+      </div>
+      <pre className="text-sm text-gray-600 whitespace-pre-wrap bg-gray-50 p-3 rounded-lg max-h-64 overflow-auto">
+        {imported.rawContent.slice(0, PREVIEW_MAX_CHARS)}
+        {imported.rawContent.length > PREVIEW_MAX_CHARS && '\n...'}
+      </pre>
+    </div>
+  );
+}
@@ -22,6 +22,12 @@ export default function Layout() {
             >
               새 대본
             </Link>
+            <Link
+              to="/settings"
+              className="text-gray-600 hover:text-gray-900 transition"
+            >
+              설정
+            </Link>
           </nav>
         </div>
       </header>
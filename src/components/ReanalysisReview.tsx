@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import {
+  countChanges,
+  getDefaultRemovals,
+  type AnalysisMergePlan,
+  type CharacterChangeKind,
+  type SceneChangeKind,
+} from '../lib/analysisMerge';
+import { collectUnresolvedNames } from '../lib/characterNames';
+import { getSceneImageIds } from '../lib/shots';
+
+const CHARACTER_LABELS: Record<CharacterChangeKind, { text: string; className: string }> = {
+  kept: { text: '유지', className: 'bg-gray-100 text-gray-600' },
+  added: { text: '신규', className: 'bg-green-100 text-green-700' },
+  removed: { text: '삭제 후보', className: 'bg-red-100 text-red-700' },
+};
+
+const SCENE_LABELS: Record<SceneChangeKind, { text: string; className: string }> = {
+  unchanged: { text: '변경 없음', className: 'bg-gray-100 text-gray-600' },
+  changed: { text: '변경', className: 'bg-yellow-100 text-yellow-700' },
+  added: { text: '신규', className: 'bg-green-100 text-green-700' },
+  removed: { text: '삭제 후보', className: 'bg-red-100 text-red-700' },
+};
+
+// 재분석 결과 검토 - 무엇이 유지/변경/추가/삭제되는지 보여주고 삭제 후보는 남길지 고르게 한다
+export default function ReanalysisReview({
+  plan,
+  isApplying,
+  onApply,
+  onCancel,
+}: {
+  plan: AnalysisMergePlan;
+  isApplying: boolean;
+  onApply: (removeIds: Set<string>) => void;
+  onCancel: () => void;
+}) {
+  const [removeIds, setRemoveIds] = useState(() => getDefaultRemovals(plan));
+  const characterCounts = countChanges(plan.characters);
+  const sceneCounts = countChanges(plan.scenes);
+  const unresolved = collectUnresolvedNames(plan.scenes.filter((c) => c.kind !== 'removed').map((c) => c.scene));
+
+  const toggleRemove = (id: string) => {
+    setRemoveIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const removeToggle = (id: string, imageCount: number) => (
+    <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+      <input type="checkbox" checked={removeIds.has(id)} onChange={() => toggleRemove(id)} />
+      삭제{imageCount > 0 && <span className="text-red-500"> (이미지 {imageCount}개)</span>}
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-4 border-2 border-blue-200">
+      <div>
+        <h3 className="font-semibold text-gray-800">재분석 결과 검토</h3>
+        <p className="text-sm text-gray-500">
+          캐릭터 유지 {characterCounts.kept ?? 0} · 신규 {characterCounts.added ?? 0} · 삭제 후보{' '}
+          {characterCounts.removed ?? 0} / 장면 변경 없음 {sceneCounts.unchanged ?? 0} · 변경{' '}
+          {sceneCounts.changed ?? 0} · 신규 {sceneCounts.added ?? 0} · 삭제 후보 {sceneCounts.removed ?? 0}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          변경/신규 장면만 '대기' 상태가 되고, 나머지 장면의 이미지와 수정한 프롬프트는 그대로 유지됩니다.
+          삭제 후보 중 체크하지 않은 항목은 남겨둡니다.
+        </p>
+        {unresolved.length > 0 && (
+          <p className="text-xs text-yellow-700 mt-1">
+            캐릭터에 연결하지 못한 이름: {unresolved.map((u) => u.name).join(', ')} (적용 후 정보 탭에서 연결할 수 있습니다)
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">캐릭터</h4>
+        <ul className="divide-y border rounded">
+          {plan.characters.map(({ kind, character }) => (
+            <li key={character.id} className="px-3 py-2 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className={`text-xs px-2 py-0.5 rounded ${CHARACTER_LABELS[kind].className}`}>
+                  {CHARACTER_LABELS[kind].text}
+                </span>
+                <span className="text-sm text-gray-800">{character.name}</span>
+                {kind === 'kept' && character.referenceImages.length > 0 && (
+                  <span className="text-xs text-gray-400">참조 이미지 {character.referenceImages.length}개 유지</span>
+                )}
+              </div>
+              {kind === 'removed' && removeToggle(character.id, character.referenceImages.length)}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">장면</h4>
+        <ul className="divide-y border rounded max-h-96 overflow-auto">
+          {plan.scenes.map(({ kind, scene, previous }) => (
+            <li key={scene.id} className="px-3 py-2 flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs px-2 py-0.5 rounded ${SCENE_LABELS[kind].className}`}>
+                    {SCENE_LABELS[kind].text}
+                  </span>
+                  <span className="text-sm text-gray-800">
+                    {kind === 'removed' ? '' : `장면 ${scene.sceneNumber}`}
+                    {scene.title ? ` ${scene.title}` : ''}
+                  </span>
+                  {previous && previous.sceneNumber !== scene.sceneNumber && (
+                    <span className="text-xs text-gray-400">(이전 장면 {previous.sceneNumber})</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate mt-1">{scene.originalText}</p>
+                {kind === 'changed' && previous && (
+                  <p className="text-xs text-gray-400 truncate line-through">{previous.originalText}</p>
+                )}
+              </div>
+              {kind === 'removed' && removeToggle(scene.id, getSceneImageIds(scene).length)}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          취소
+        </button>
+        <button
+          onClick={() => onApply(removeIds)}
+          disabled={isApplying}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition disabled:bg-blue-300"
+        >
+          {isApplying ? '적용 중...' : '적용'}
+        </button>
+      </div>
+    </div>
+  );
+}
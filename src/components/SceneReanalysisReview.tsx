@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { SceneField, SceneFieldChange } from '../lib/analysisMerge';
+
+// 장면 재분석 검토 - 바뀐 필드를 현재/제안 값으로 나란히 보여주고 고른 필드만 적용
+export default function SceneReanalysisReview({
+  changes,
+  isApplying,
+  onApply,
+  onCancel,
+}: {
+  changes: SceneFieldChange[];
+  isApplying: boolean;
+  onApply: (accepted: Set<SceneField>) => void;
+  onCancel: () => void;
+}) {
+  const [accepted, setAccepted] = useState<Set<SceneField>>(() => new Set(changes.map((c) => c.field)));
+
+  const toggle = (field: SceneField) => {
+    const next = new Set(accepted);
+    if (next.has(field)) {
+      next.delete(field);
+    } else {
+      next.add(field);
+    }
+    setAccepted(next);
+  };
+
+  return (
+    <div className="p-3 border-2 border-blue-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-700">장면 재분석 결과</h4>
+        <span className="text-xs text-gray-500">적용할 항목을 고르세요</span>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">현재 장면과 달라진 내용이 없습니다.</p>
+      ) : (
+        <ul className="space-y-3">
+          {changes.map((change) => (
+            <li key={change.field}>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  checked={accepted.has(change.field)}
+                  onChange={() => toggle(change.field)}
+                />
+                {change.label}
+              </label>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="p-2 bg-red-50 rounded">
+                  <p className="text-xs text-red-600 mb-1">현재</p>
+                  <p className="text-gray-700 whitespace-pre-wrap break-words">{change.before || '(없음)'}</p>
+                </div>
+                <div className={`p-2 rounded ${accepted.has(change.field) ? 'bg-green-50' : 'bg-gray-50'}`}>
+                  <p className="text-xs text-green-600 mb-1">제안</p>
+                  <p className="text-gray-700 whitespace-pre-wrap break-words">{change.after}</p>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+        >
+          닫기
+        </button>
+        {changes.length > 0 && (
+          <button
+            onClick={() => onApply(accepted)}
+            disabled={isApplying || accepted.size === 0}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition disabled:bg-blue-300"
+          >
+            {isApplying ? '적용 중...' : `선택한 ${accepted.size}개 적용`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
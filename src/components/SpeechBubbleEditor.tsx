@@ -0,0 +1,344 @@
+import { useEffect, useRef, useState } from 'react';
+import { downloadBlob } from '../lib/imageData';
+import {
+  BUBBLE_KINDS,
+  bubbleFromDialogue,
+  createBubble,
+  drawComposite,
+  loadBubbleFonts,
+  renderBubbles,
+  type BubbleBounds,
+} from '../lib/speechBubbles';
+import type { Character, DialogueLine, SpeechBubble } from '../types';
+
+const DIALOGUE_KIND_LABELS: Record<DialogueLine['kind'], string> = {
+  speech: '대사',
+  thought: '생각',
+  narration: '내레이션',
+};
+
+// 끌고 있는 대상 - 말풍선 몸통(누른 위치와 중심의 차이 유지) 또는 꼬리 끝
+type Drag = { id: string; part: 'body'; offsetX: number; offsetY: number } | { id: string; part: 'tail' };
+
+// 선택 이미지 위에 말풍선/캡션을 배치하고 합성 이미지로 내보내기
+export default function SpeechBubbleEditor({
+  imageId,
+  imageSrc,
+  fileName,
+  dialogue,
+  characters,
+  initialBubbles,
+  isSaving,
+  onSave,
+  onClose,
+}: {
+  imageId: string;
+  imageSrc: string;
+  fileName: string;
+  dialogue: DialogueLine[];
+  characters: Character[];
+  initialBubbles: SpeechBubble[];
+  isSaving: boolean;
+  onSave: (bubbles: SpeechBubble[]) => void;
+  onClose: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const boundsRef = useRef<BubbleBounds[]>([]);
+  const dragRef = useRef<Drag | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [fontsReady, setFontsReady] = useState(false);
+  const [bubbles, setBubbles] = useState<SpeechBubble[]>(initialBubbles);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const selected = bubbles.find((b) => b.id === selectedId);
+  const isDirty = JSON.stringify(bubbles) !== JSON.stringify(initialBubbles);
+
+  useEffect(() => {
+    loadBubbleFonts().then(() => setFontsReady(true));
+  }, []);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setError('이미지를 불러올 수 없습니다.');
+    img.src = imageSrc;
+  }, [imageSrc]);
+
+  // 미리보기는 원본 해상도로 그리고 CSS로 줄여서 보여준다
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !image) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    boundsRef.current = drawComposite(context, image, canvas.width, canvas.height, bubbles, selectedId ?? undefined);
+  }, [image, bubbles, selectedId, fontsReady]);
+
+  const updateBubble = (id: string, updates: Partial<SpeechBubble>) => {
+    setBubbles((prev) => prev.map((b) => (b.id === id ? { ...b, ...updates } : b)));
+  };
+
+  const addBubble = (bubble: SpeechBubble) => {
+    setBubbles((prev) => [...prev, bubble]);
+    setSelectedId(bubble.id);
+  };
+
+  const removeBubble = (id: string) => {
+    setBubbles((prev) => prev.filter((b) => b.id !== id));
+    setSelectedId(null);
+  };
+
+  const changeKind = (bubble: SpeechBubble, kind: SpeechBubble['kind']) => {
+    // 캡션에서 바꾸면 꼬리가 없으므로 아래쪽에 새로 붙인다
+    const needsTail = kind !== 'caption' && (bubble.tailX === undefined || bubble.tailY === undefined);
+    updateBubble(bubble.id, {
+      kind,
+      ...(needsTail ? { tailX: bubble.x, tailY: Math.min(0.95, bubble.y + 0.15) } : {}),
+    });
+  };
+
+  // 화면 좌표 -> 캔버스 픽셀 좌표
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const { x, y, scale } = toCanvasPoint(e);
+    // 선택한 말풍선의 꼬리 끝이 먼저
+    const selectedBounds = boundsRef.current.find((b) => b.id === selectedId);
+    if (selectedBounds?.tail && Math.hypot(selectedBounds.tail.x - x, selectedBounds.tail.y - y) <= 12 * scale) {
+      dragRef.current = { id: selectedBounds.id, part: 'tail' };
+      canvas.setPointerCapture(e.pointerId);
+      return;
+    }
+    // 나중에 그린(위에 있는) 말풍선부터
+    const hit = [...boundsRef.current].reverse().find((b) => x >= b.left && x <= b.right && y >= b.top && y <= b.bottom);
+    const bubble = bubbles.find((b) => b.id === hit?.id);
+    setSelectedId(bubble?.id ?? null);
+    if (bubble) {
+      dragRef.current = {
+        id: bubble.id,
+        part: 'body',
+        offsetX: x / canvas.width - bubble.x,
+        offsetY: y / canvas.height - bubble.y,
+      };
+      canvas.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const canvas = e.currentTarget;
+    const { x, y } = toCanvasPoint(e);
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    if (drag.part === 'tail') {
+      updateBubble(drag.id, { tailX: clamp(x / canvas.width), tailY: clamp(y / canvas.height) });
+      return;
+    }
+    const bubble = bubbles.find((b) => b.id === drag.id);
+    if (!bubble) return;
+    const nextX = clamp(x / canvas.width - drag.offsetX);
+    const nextY = clamp(y / canvas.height - drag.offsetY);
+    // 꼬리도 함께 옮긴다
+    updateBubble(drag.id, {
+      x: nextX,
+      y: nextY,
+      ...(bubble.tailX !== undefined && bubble.tailY !== undefined
+        ? { tailX: clamp(bubble.tailX + nextX - bubble.x), tailY: clamp(bubble.tailY + nextY - bubble.y) }
+        : {}),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleExport = async () => {
+    if (!image) return;
+    setIsExporting(true);
+    setError('');
+    try {
+      const blob = await renderBubbles(image, bubbles);
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      console.error('이미지 내보내기 실패:', err);
+      setError(err instanceof Error ? err.message : '이미지 내보내기 중 오류가 발생했습니다.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('저장하지 않은 말풍선 변경 사항이 있습니다. 닫으시겠습니까?')) return;
+    onClose();
+  };
+
+  const getSpeakerName = (line: DialogueLine) =>
+    characters.find((c) => c.id === line.characterId)?.name ?? line.speaker ?? DIALOGUE_KIND_LABELS[line.kind];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-6xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="font-semibold text-gray-800">말풍선 편집</h3>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={!image || isExporting}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {isExporting ? '내보내는 중...' : '이미지로 내보내기'}
+            </button>
+            <button
+              onClick={() => onSave(bubbles)}
+              disabled={isSaving || !isDirty}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition disabled:bg-blue-300"
+            >
+              {isSaving ? '저장 중...' : '저장'}
+            </button>
+            <button
+              onClick={handleClose}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              닫기
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="mx-4 mt-4 p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>}
+
+        <div className="flex-1 min-h-0 flex gap-4 p-4 overflow-hidden">
+          {/* 미리보기 - 말풍선을 끌어서 옮기고, 선택한 말풍선의 파란 점을 끌어 꼬리 방향을 바꾼다 */}
+          <div className="flex-1 min-w-0 overflow-auto">
+            {image ? (
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="w-full h-auto rounded-lg touch-none cursor-move"
+              />
+            ) : (
+              !error && <p className="text-sm text-gray-500">이미지를 불러오는 중...</p>
+            )}
+          </div>
+
+          <div className="w-72 shrink-0 overflow-y-auto space-y-4">
+            {/* 장면 대사 */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">장면 대사</h4>
+              {dialogue.length === 0 ? (
+                <p className="text-xs text-gray-500">추출된 대사가 없습니다.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {dialogue.map((line, index) => {
+                    const isPlaced = bubbles.some((b) => b.dialogueId === line.id);
+                    return (
+                      <li key={line.id} className="flex items-start gap-2 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <span className="text-xs text-gray-500">
+                            {getSpeakerName(line)}
+                            {line.tone && ` (${line.tone})`}
+                          </span>
+                          <p className="text-gray-800 break-words">{line.text}</p>
+                        </div>
+                        <button
+                          onClick={() => addBubble(bubbleFromDialogue(imageId, line, index))}
+                          className={`px-2 py-0.5 text-xs rounded border transition ${
+                            isPlaced ? 'border-gray-200 text-gray-400' : 'border-blue-300 text-blue-600 hover:bg-blue-50'
+                          }`}
+                        >
+                          추가
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => addBubble(createBubble(imageId, { text: '대사' }))}
+                  className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 transition"
+                >
+                  빈 말풍선
+                </button>
+                <button
+                  onClick={() => addBubble(createBubble(imageId, { kind: 'caption', text: '캡션', y: 0.08, width: 0.6 }))}
+                  className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 transition"
+                >
+                  캡션
+                </button>
+              </div>
+            </div>
+
+            {/* 선택한 말풍선 */}
+            {selected ? (
+              <div className="space-y-3 border-t pt-4">
+                <h4 className="text-sm font-medium text-gray-700">선택한 말풍선</h4>
+                <textarea
+                  value={selected.text}
+                  onChange={(e) => updateBubble(selected.id, { text: e.target.value })}
+                  rows={3}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                />
+                <select
+                  value={selected.kind}
+                  onChange={(e) => changeKind(selected, e.target.value as SpeechBubble['kind'])}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                >
+                  {BUBBLE_KINDS.map((kind) => (
+                    <option key={kind.id} value={kind.id}>
+                      {kind.name}
+                    </option>
+                  ))}
+                </select>
+                <label className="block text-xs text-gray-600">
+                  너비
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={0.9}
+                    step={0.01}
+                    value={selected.width}
+                    onChange={(e) => updateBubble(selected.id, { width: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <label className="block text-xs text-gray-600">
+                  글자 크기
+                  <input
+                    type="range"
+                    min={0.015}
+                    max={0.08}
+                    step={0.001}
+                    value={selected.fontSize}
+                    onChange={(e) => updateBubble(selected.id, { fontSize: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <button
+                  onClick={() => removeBubble(selected.id)}
+                  className="w-full px-2 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition"
+                >
+                  삭제
+                </button>
+              </div>
+            ) : (
+              bubbles.length > 0 && (
+                <p className="text-xs text-gray-500 border-t pt-4">미리보기에서 말풍선을 눌러 선택하세요.</p>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
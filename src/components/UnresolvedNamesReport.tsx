@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { collectUnresolvedNames } from '../lib/characterNames';
+import type { Character, Scene } from '../types';
+
+// 분석 후 캐릭터에 연결하지 못한 이름 - 기존 캐릭터의 별칭으로 연결하거나 새 캐릭터로 추가
+export default function UnresolvedNamesReport({
+  characters,
+  scenes,
+  isSaving,
+  onLink,
+}: {
+  characters: Character[];
+  scenes: Scene[];
+  isSaving: boolean;
+  onLink: (name: string, characterId: string | null) => void;
+}) {
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const unresolved = collectUnresolvedNames(scenes);
+  if (unresolved.length === 0) return null;
+
+  const sceneNumbers = new Map(scenes.map((s) => [s.id, s.sceneNumber]));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 border-2 border-yellow-200">
+      <h3 className="font-semibold text-gray-800">연결되지 않은 이름 ({unresolved.length})</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        아래 이름은 캐릭터에 연결되지 않아 해당 장면의 이미지 생성에 참조 이미지가 쓰이지 않습니다.
+        기존 캐릭터에 연결하면 그 캐릭터의 다른 이름으로 저장되어 다음 분석부터 자동으로 연결됩니다.
+      </p>
+      <ul className="divide-y border rounded">
+        {unresolved.map(({ name, sceneIds }) => (
+          <li key={name} className="px-3 py-2 flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm text-gray-800">{name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                장면 {sceneIds.map((id) => sceneNumbers.get(id)).join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={targets[name] ?? ''}
+                onChange={(e) => setTargets({ ...targets, [name]: e.target.value })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+              >
+                <option value="">캐릭터 선택</option>
+                {characters.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onLink(name, targets[name])}
+                disabled={isSaving || !targets[name]}
+                className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition disabled:bg-blue-300"
+              >
+                연결
+              </button>
+              <button
+                onClick={() => onLink(name, null)}
+                disabled={isSaving}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+              >
+                새 캐릭터로 추가
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
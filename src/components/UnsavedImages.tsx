@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { downloadBlob } from '../lib/imageData';
+
+// 저장공간 부족으로 IndexedDB에 저장하지 못한 이미지 (메모리에만 있음)
+export interface UnsavedImage {
+  id: string;
+  fileName: string;
+  blob: Blob;
+}
+
+// 저장하지 못한 이미지를 잃어버리지 않도록 미리보기 + 다운로드 제공
+export default function UnsavedImages({
+  images,
+  onDismiss,
+}: {
+  images: UnsavedImage[];
+  onDismiss: (id: string) => void;
+}) {
+  const { urls, addImages } = useObjectUrls();
+
+  useEffect(() => {
+    addImages(Object.fromEntries(images.map((img) => [img.id, img.blob])));
+  }, [images, addImages]);
+
+  if (images.length === 0) return null;
+
+  const handleDownloadAll = () => {
+    images.forEach((img) => downloadBlob(img.blob, img.fileName));
+  };
+
+  return (
+    <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-orange-800">저장하지 못한 이미지 ({images.length})</h3>
+        <button
+          onClick={handleDownloadAll}
+          className="px-3 py-1 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition"
+        >
+          모두 다운로드
+        </button>
+      </div>
+      <p className="text-sm text-orange-700 mb-3">
+        저장공간이 부족해서 브라우저에 저장하지 못했습니다. 페이지를 벗어나면 사라지므로 다운로드해주세요.
+      </p>
+      <div className="flex flex-wrap gap-3">
+        {images.map((img) => (
+          <div key={img.id} className="w-32 space-y-1">
+            {urls[img.id] && (
+              <img src={urls[img.id]} alt={img.fileName} className="w-32 h-32 object-cover rounded-lg" />
+            )}
+            <div className="flex gap-1">
+              <button
+                onClick={() => downloadBlob(img.blob, img.fileName)}
+                className="flex-1 px-2 py-1 text-xs border border-orange-300 rounded hover:bg-orange-100 transition"
+              >
+                다운로드
+              </button>
+              <button
+                onClick={() => onDismiss(img.id)}
+                className="px-2 py-1 text-xs text-gray-500 hover:bg-orange-100 rounded transition"
+              >
+                닫기
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
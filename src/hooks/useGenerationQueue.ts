@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import {
+  getGenerationJobs,
+  getUnsavedQueueImages,
+  isQueuePaused,
+  subscribeGenerationQueue,
+  type GenerationJob,
+  type UnsavedQueueImage,
+} from '../lib/generationQueue';
+
+interface GenerationQueueView {
+  jobs: GenerationJob[];
+  isPaused: boolean;
+  unsavedImages: UnsavedQueueImage[];
+}
+
+function readQueue(scriptId: string): GenerationQueueView {
+  return {
+    jobs: getGenerationJobs(scriptId),
+    isPaused: isQueuePaused(scriptId),
+    unsavedImages: getUnsavedQueueImages(scriptId),
+  };
+}
+
+// 대본의 생성 큐 상태 (다른 탭에서 바꾼 것 포함) - 바뀔 때마다 다시 렌더링
+export function useGenerationQueue(scriptId: string): GenerationQueueView {
+  const [queue, setQueue] = useState(() => readQueue(scriptId));
+
+  useEffect(() => {
+    setQueue(readQueue(scriptId));
+    return subscribeGenerationQueue(() => setQueue(readQueue(scriptId)));
+  }, [scriptId]);
+
+  return queue;
+}
+
+// 작업이 시작되거나 끝날 때만 바뀌는 값 - 페이지가 이 값이 바뀌면 데이터를 다시 불러온다
+export function getQueueStatusKey(jobs: GenerationJob[]): string {
+  return jobs.map((job) => `${job.id}:${job.status}`).join(',');
+}
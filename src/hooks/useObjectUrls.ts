@@ -0,0 +1,33 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+// 이미지 ID -> object URL 캐시. 언마운트 시 만든 URL을 모두 해제한다.
+// 예전 데이터처럼 data URL 문자열을 받으면 그대로 사용한다.
+export function useObjectUrls() {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const urlsRef = useRef<Record<string, string>>({});
+
+  const addImages = useCallback((images: Record<string, Blob | string>) => {
+    const added: Record<string, string> = {};
+    for (const [id, image] of Object.entries(images)) {
+      if (urlsRef.current[id]) continue;
+      added[id] = typeof image === 'string' ? image : URL.createObjectURL(image);
+    }
+    if (Object.keys(added).length === 0) return;
+
+    urlsRef.current = { ...urlsRef.current, ...added };
+    setUrls(urlsRef.current);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      for (const url of Object.values(urlsRef.current)) {
+        if (url.startsWith('blob:')) {
+          URL.revokeObjectURL(url);
+        }
+      }
+      urlsRef.current = {};
+    };
+  }, []);
+
+  return { urls, addImages };
+}
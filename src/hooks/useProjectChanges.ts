@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { subscribeChanges, type ChangeTopic } from '../lib/changeEvents';
+
+// 짧은 시간에 여러 알림이 오면 (예: 이미지 생성 중 상태 변경) 한 번만 다시 불러온다
+const REFRESH_DELAY_MS = 200;
+
+// 다른 탭에서 관심 있는 데이터가 바뀌면 onChange 호출
+// scriptId를 주면 그 대본(또는 대본을 알 수 없는 변경)만 받는다
+export function useProjectChanges(topics: ChangeTopic[], scriptId: string | undefined, onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const topicKey = topics.join(',');
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeChanges((change) => {
+      if (!change.topics.some((topic) => topicKey.split(',').includes(topic))) return;
+      if (scriptId && change.scriptId && change.scriptId !== scriptId) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => onChangeRef.current(), REFRESH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [topicKey, scriptId]);
+}
@@ -0,0 +1,141 @@
+// 긴 대본 분석 - 장면 경계로 나눠서 순서대로 분석한 뒤 결과를 합친다
+import type { AnalysisResult, Appearance } from '../types';
+import { createNameResolver } from './characterNames';
+import { isSceneHeading } from './scriptParser';
+
+// 한 번에 보낼 대본 길이 (글자 수) - 응답 JSON이 잘리지 않을 정도
+export const MAX_CHUNK_CHARS = 12000;
+
+export interface AnalysisProgress {
+  current: number; // 분석 중인 조각 (1부터)
+  total: number;
+}
+
+// 분석 중 미리보기 - 응답을 끝까지 받기 전에 완성된 캐릭터/장면부터 보여준다
+export interface AnalysisPreview {
+  characters: string[];
+  scenes: { sceneNumber: number; title?: string; location?: string; visualDescription?: string }[];
+}
+
+// 줄 단위로 최대 길이 안에서 자르기 (장면 하나가 너무 길 때)
+function splitLongBlock(block: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const paragraph of block.split(/\n(?=\s*\n)/)) {
+    if (current && current.length + paragraph.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    if (paragraph.length > maxChars) {
+      // 빈 줄 없는 긴 문단은 줄 단위로
+      for (const line of paragraph.split('\n')) {
+        if (current && current.length + line.length + 1 > maxChars) {
+          pieces.push(current);
+          current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+      }
+    } else {
+      current = current ? `${current}\n${paragraph}` : paragraph;
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+}
+
+// 장면 제목 줄을 기준으로 나누고, 최대 길이 안에서 연속된 장면끼리 묶는다
+// 장면 제목이 없는 대본은 빈 줄(문단) 기준으로 나눈다
+export function splitScriptIntoChunks(content: string, maxChars = MAX_CHUNK_CHARS): string[] {
+  const text = content.replace(/\r\n?/g, '\n').trim();
+  if (text.length <= maxChars) return [text];
+
+  const blocks: string[] = [];
+  let current: string[] = [];
+  for (const line of text.split('\n')) {
+    if (isSceneHeading(line) && current.some((l) => l.trim())) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  blocks.push(current.join('\n'));
+
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const block of blocks.flatMap((b) => (b.length > maxChars ? splitLongBlock(b, maxChars) : [b]))) {
+    if (chunk && chunk.length + block.length + 1 > maxChars) {
+      chunks.push(chunk.trim());
+      chunk = '';
+    }
+    chunk = chunk ? `${chunk}\n${block}` : block;
+  }
+  if (chunk.trim()) chunks.push(chunk.trim());
+  return chunks;
+}
+
+function mergeAppearance(base: Appearance, extra: Appearance): Appearance {
+  const merged: Appearance = { ...base };
+  (['age', 'gender', 'height', 'hair', 'face', 'skinTone'] as const).forEach((key) => {
+    if (!merged[key] && extra[key]) merged[key] = extra[key];
+  });
+  const features = [...(base.features ?? []), ...(extra.features ?? [])];
+  if (features.length > 0) merged.features = [...new Set(features)];
+  return merged;
+}
+
+// 조각별 분석 결과 합치기
+// - 같은 인물로 보이는 이름("민준", "민준이")의 캐릭터는 하나로, 먼저 나온 이름과 정보 우선
+// - 장면 번호는 조각 순서대로 1부터 다시 매긴다
+export function mergeChunkResults(results: AnalysisResult[]): AnalysisResult {
+  const characters: AnalysisResult['characters'] = [];
+  // 캐릭터 이름을 ID로 사용
+  const resolveName = (name: string) =>
+    createNameResolver(characters.map((c) => ({ id: c.name, name: c.name })))(name)?.characterId;
+
+  for (const result of results) {
+    for (const character of result.characters ?? []) {
+      const canonical = resolveName(character.name);
+      const existing = characters.find((c) => c.name === canonical);
+      if (existing) {
+        existing.appearance = mergeAppearance(existing.appearance ?? {}, character.appearance ?? {});
+        existing.defaultOutfit = existing.defaultOutfit || character.defaultOutfit;
+      } else {
+        characters.push({ ...character, appearance: { ...character.appearance } });
+      }
+    }
+  }
+
+  const scenes = results
+    .flatMap((result) => [...(result.scenes ?? [])].sort((a, b) => a.sceneNumber - b.sceneNumber))
+    .map((scene, index) => ({
+      ...scene,
+      sceneNumber: index + 1,
+      characterNames: [
+        ...new Set((scene.characterNames ?? []).map((name) => resolveName(name) ?? name)),
+      ],
+      shots: scene.shots?.map((shot) => ({
+        ...shot,
+        characterNames: [...new Set(shot.characterNames.map((name) => resolveName(name) ?? name))],
+      })),
+      dialogue: scene.dialogue?.map((line) => ({
+        ...line,
+        speaker: line.speaker && (resolveName(line.speaker) ?? line.speaker),
+      })),
+    }));
+
+  return {
+    characters,
+    scenes,
+    styleGuide: results.find((r) => r.styleGuide)?.styleGuide,
+  };
+}
+
+// 다음 조각 분석 때 넘겨줄 지금까지의 등장인물 목록
+export function describeRoster(characters: AnalysisResult['characters']): string {
+  return characters
+    .map((c) => {
+      const details = [c.appearance?.age, c.appearance?.gender, c.appearance?.hair].filter(Boolean).join(', ');
+      return `- ${c.name}${details ? ` (${details})` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,404 @@
+// 분석 결과 -> 캐릭터/장면 변환, 재분석 시 기존 작업(ID, 이미지, 수정한 프롬프트)을 유지하는 병합
+import { v4 as uuidv4 } from 'uuid';
+import type { AnalysisResult, AnalyzedDialogue, AnalyzedShot, Character, DialogueLine, Scene, Shot } from '../types';
+import { createNameResolver } from './characterNames';
+import { createShot, getCameraAngleName, getSceneImageIds, getShotSizeName } from './shots';
+import type { SceneAnalysisResult } from './analysisSchema';
+
+// 이 값 이상 비슷하면 같은 장면이 수정된 것으로 본다 (0~1)
+const SCENE_SIMILARITY_THRESHOLD = 0.6;
+
+export type CharacterChangeKind = 'kept' | 'added' | 'removed';
+export type SceneChangeKind = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface CharacterChange {
+  kind: CharacterChangeKind;
+  character: Character; // 적용 후 값 (삭제면 기존 값)
+}
+
+export interface SceneChange {
+  kind: SceneChangeKind;
+  scene: Scene; // 적용 후 값 (삭제면 기존 값)
+  previous?: Scene; // 변경된 장면의 기존 값
+  similarity?: number;
+}
+
+export interface AnalysisMergePlan {
+  characters: CharacterChange[];
+  scenes: SceneChange[];
+  styleGuide?: string;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const compact = text.replace(/\s+/g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    result.set(gram, (result.get(gram) ?? 0) + 1);
+  }
+  return result;
+}
+
+// 글자 2-gram 다이스 계수 (0~1)
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let total = 0;
+  let overlap = 0;
+  gramsA.forEach((count) => (total += count));
+  gramsB.forEach((count, gram) => {
+    total += count;
+    overlap += Math.min(count, gramsA.get(gram) ?? 0);
+  });
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+// 장면의 등장인물 이름 -> 캐릭터 ID (별칭, 호칭/조사, 비슷한 이름까지) + 연결하지 못한 이름
+function resolveCharacterIds(
+  names: string[],
+  resolve: ReturnType<typeof createNameResolver>
+): { ids: string[]; unresolved: string[] } {
+  const ids: string[] = [];
+  const unresolved: string[] = [];
+  names.forEach((name) => {
+    const match = resolve(name);
+    if (match) {
+      if (!ids.includes(match.characterId)) ids.push(match.characterId);
+    } else if (name.trim() && !unresolved.includes(name)) {
+      unresolved.push(name);
+    }
+  });
+  return { ids, unresolved };
+}
+
+// 제안된 샷 -> 샷 (같은 순서의 기존 샷이 있으면 ID와 이미지를 참고용으로 유지)
+function buildShots(
+  analyzedShots: AnalyzedShot[] | undefined,
+  resolve: ReturnType<typeof createNameResolver>,
+  previousShots: Shot[] = []
+): Shot[] | undefined {
+  if (!analyzedShots || analyzedShots.length === 0) return undefined;
+  return analyzedShots.map((analyzed, index) => {
+    const fields = {
+      shotNumber: index + 1,
+      size: analyzed.size,
+      angle: analyzed.angle,
+      characterIds: resolveCharacterIds(analyzed.characterNames, resolve).ids,
+      action: analyzed.action,
+    };
+    const previous = previousShots[index];
+    return previous
+      ? { ...previous, ...fields, status: 'pending' }
+      : createShot(index + 1, fields);
+  });
+}
+
+// 추출된 대사 -> 대사 (같은 순서의 기존 대사 ID를 유지해서 말풍선 연결이 끊기지 않게)
+function buildDialogue(
+  analyzedLines: AnalyzedDialogue[] | undefined,
+  resolve: ReturnType<typeof createNameResolver>,
+  previousLines: DialogueLine[] = []
+): DialogueLine[] | undefined {
+  if (!analyzedLines || analyzedLines.length === 0) return undefined;
+  return analyzedLines.map((analyzed, index) => ({
+    id: previousLines[index]?.id ?? uuidv4(),
+    kind: analyzed.kind,
+    speaker: analyzed.speaker,
+    characterId: analyzed.speaker ? resolve(analyzed.speaker)?.characterId : undefined,
+    text: analyzed.text,
+    tone: analyzed.tone,
+  }));
+}
+
+// 처음 분석할 때: 분석 결과를 그대로 캐릭터/장면으로 변환
+export function buildAnalysisEntities(
+  scriptId: string,
+  result: AnalysisResult
+): { characters: Character[]; scenes: Scene[] } {
+  const plan = planAnalysisMerge(scriptId, [], [], result);
+  return applyMergePlan(plan, new Set());
+}
+
+// 재분석 결과와 기존 캐릭터/장면 비교
+// - 이름(별칭, 호칭을 뗀 이름 포함)이 같은 캐릭터: ID, 외모, 참조 이미지를 그대로 유지
+// - 원문이 같은 장면: 이미지, 수정한 프롬프트, 상태를 그대로 유지 (장면 번호만 갱신)
+// - 원문이 비슷한 장면: ID와 이미지를 유지하고 내용은 새 분석으로 바꾼 뒤 '대기'로
+// - 나머지는 새로 추가하거나 삭제 후보로 표시
+export function planAnalysisMerge(
+  scriptId: string,
+  existingCharacters: Character[],
+  existingScenes: Scene[],
+  result: AnalysisResult
+): AnalysisMergePlan {
+  const now = new Date().toISOString();
+
+  // 캐릭터
+  const resolveExisting = createNameResolver(existingCharacters);
+  const matchedCharacterIds = new Set<string>();
+  const characters: CharacterChange[] = [];
+  for (const analyzed of result.characters) {
+    const match = resolveExisting(analyzed.name);
+    const existing = match && existingCharacters.find((c) => c.id === match.characterId);
+    if (existing && !matchedCharacterIds.has(existing.id)) {
+      matchedCharacterIds.add(existing.id);
+      characters.push({ kind: 'kept', character: existing });
+    } else if (!existing && !createNameResolver(characters.map((c) => c.character))(analyzed.name)) {
+      characters.push({
+        kind: 'added',
+        character: {
+          id: uuidv4(),
+          scriptId,
+          name: analyzed.name,
+          appearance: analyzed.appearance,
+          defaultOutfit: analyzed.defaultOutfit,
+          referenceImages: [],
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+    }
+  }
+  existingCharacters
+    .filter((c) => !matchedCharacterIds.has(c.id))
+    .forEach((character) => characters.push({ kind: 'removed', character }));
+
+  // 삭제 후보도 일단 포함해서 이름 -> ID 연결 (삭제하면 적용할 때 빠진다)
+  const resolveCharacter = createNameResolver(characters.map((c) => c.character));
+
+  // 장면 - 원문이 똑같은 장면 먼저, 그 다음 가장 비슷한 장면끼리 짝짓기
+  const analyzedScenes = result.scenes.map((s) => ({ ...s, text: normalizeText(s.originalText) }));
+  const candidates = existingScenes.map((scene) => ({ scene, text: normalizeText(scene.originalText) }));
+  const matches = new Map<number, { scene: Scene; similarity: number }>(); // 분석 결과 index -> 기존 장면
+  const usedSceneIds = new Set<string>();
+
+  analyzedScenes.forEach((analyzed, index) => {
+    const same = candidates.find((c) => !usedSceneIds.has(c.scene.id) && c.text === analyzed.text);
+    if (same) {
+      matches.set(index, { scene: same.scene, similarity: 1 });
+      usedSceneIds.add(same.scene.id);
+    }
+  });
+
+  const pairs: { index: number; scene: Scene; similarity: number }[] = [];
+  analyzedScenes.forEach((analyzed, index) => {
+    if (matches.has(index)) return;
+    candidates
+      .filter((c) => !usedSceneIds.has(c.scene.id))
+      .forEach((c) => {
+        const similarity = textSimilarity(analyzed.text, c.text);
+        if (similarity >= SCENE_SIMILARITY_THRESHOLD) {
+          pairs.push({ index, scene: c.scene, similarity });
+        }
+      });
+  });
+  pairs
+    .sort((a, b) => b.similarity - a.similarity)
+    .forEach((pair) => {
+      if (matches.has(pair.index) || usedSceneIds.has(pair.scene.id)) return;
+      matches.set(pair.index, { scene: pair.scene, similarity: pair.similarity });
+      usedSceneIds.add(pair.scene.id);
+    });
+
+  const scenes: SceneChange[] = analyzedScenes.map((analyzed, index) => {
+    const { ids: characterIds, unresolved } = resolveCharacterIds(analyzed.characterNames ?? [], resolveCharacter);
+    const match = matches.get(index);
+    if (match && match.similarity === 1) {
+      // 샷이 없던 장면은 새로 제안된 샷만 받는다
+      const shots = match.scene.shots?.length ? match.scene.shots : buildShots(analyzed.shots, resolveCharacter);
+      const dialogue = match.scene.dialogue?.length
+        ? match.scene.dialogue
+        : buildDialogue(analyzed.dialogue, resolveCharacter);
+      return {
+        kind: 'unchanged',
+        scene: { ...match.scene, sceneNumber: analyzed.sceneNumber, shots, dialogue },
+        similarity: 1,
+      };
+    }
+    const analyzedFields = {
+      sceneNumber: analyzed.sceneNumber,
+      title: analyzed.title,
+      location: analyzed.location,
+      timeOfDay: analyzed.timeOfDay,
+      originalText: analyzed.originalText,
+      visualDescription: analyzed.visualDescription,
+      characterIds,
+      unresolvedCharacterNames: unresolved.length > 0 ? unresolved : undefined,
+    };
+    if (match) {
+      // 이전 이미지는 참고용으로 남기고, 예전 원문 기준 프롬프트는 버린다
+      return {
+        kind: 'changed',
+        scene: {
+          ...match.scene,
+          ...analyzedFields,
+          shots: buildShots(analyzed.shots, resolveCharacter, match.scene.shots),
+          dialogue: buildDialogue(analyzed.dialogue, resolveCharacter, match.scene.dialogue),
+          generatedPrompt: undefined,
+          userEditedPrompt: undefined,
+          status: 'pending',
+          updatedAt: now,
+        },
+        previous: match.scene,
+        similarity: match.similarity,
+      };
+    }
+    return {
+      kind: 'added',
+      scene: {
+        id: uuidv4(),
+        scriptId,
+        ...analyzedFields,
+        shots: buildShots(analyzed.shots, resolveCharacter),
+        dialogue: buildDialogue(analyzed.dialogue, resolveCharacter),
+        generatedImages: [],
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+  });
+  existingScenes
+    .filter((scene) => !usedSceneIds.has(scene.id))
+    .forEach((scene) => scenes.push({ kind: 'removed', scene }));
+
+  return { characters, scenes, styleGuide: result.styleGuide };
+}
+
+// 검토 화면에서 기본으로 삭제할 항목 - 작업한 이미지가 있는 캐릭터/장면은 기본적으로 남긴다
+export function getDefaultRemovals(plan: AnalysisMergePlan): Set<string> {
+  const ids = new Set<string>();
+  plan.characters.forEach(({ kind, character }) => {
+    if (kind === 'removed' && character.referenceImages.length === 0) ids.add(character.id);
+  });
+  plan.scenes.forEach(({ kind, scene }) => {
+    if (kind === 'removed' && getSceneImageIds(scene).length === 0) ids.add(scene.id);
+  });
+  return ids;
+}
+
+// 검토 결과 적용 - removeIds에 있는 삭제 후보만 지우고 나머지 삭제 후보는 그대로 남긴다
+export function applyMergePlan(
+  plan: AnalysisMergePlan,
+  removeIds: Set<string>
+): { characters: Character[]; scenes: Scene[] } {
+  const characters = plan.characters
+    .filter(({ kind, character }) => !(kind === 'removed' && removeIds.has(character.id)))
+    .map(({ character }) => character);
+  const characterIds = new Set(characters.map((c) => c.id));
+
+  const keptScenes = plan.scenes.filter(({ kind, scene }) => !(kind === 'removed' && removeIds.has(scene.id)));
+  // 남겨 둔 삭제 후보 장면은 새 장면들 뒤로 번호를 붙인다
+  let nextNumber = Math.max(0, ...keptScenes.filter((c) => c.kind !== 'removed').map((c) => c.scene.sceneNumber)) + 1;
+  const scenes = keptScenes.map(({ kind, scene }) => ({
+    ...scene,
+    sceneNumber: kind === 'removed' ? nextNumber++ : scene.sceneNumber,
+    characterIds: scene.characterIds.filter((id) => characterIds.has(id)),
+    shots: scene.shots?.map((shot) => ({ ...shot, characterIds: shot.characterIds.filter((id) => characterIds.has(id)) })),
+    dialogue: scene.dialogue?.map((line) =>
+      line.characterId && !characterIds.has(line.characterId) ? { ...line, characterId: undefined } : line
+    ),
+  }));
+
+  return { characters, scenes };
+}
+
+// 검토 화면 요약용
+export function countChanges<K extends string>(changes: { kind: K }[]): Partial<Record<K, number>> {
+  const counts: Partial<Record<K, number>> = {};
+  changes.forEach(({ kind }) => (counts[kind] = (counts[kind] ?? 0) + 1));
+  return counts;
+}
+
+// ===== 장면 하나 재분석 =====
+
+export type SceneField = 'title' | 'location' | 'timeOfDay' | 'visualDescription' | 'characterIds' | 'shots' | 'dialogue';
+
+// 바뀐 필드 하나 - 검토 화면에서 필드별로 적용 여부를 고른다
+export interface SceneFieldChange {
+  field: SceneField;
+  label: string;
+  before: string; // 비교 표시용 텍스트
+  after: string;
+  updates: Partial<Scene>;
+}
+
+function describeCharacters(ids: string[], unresolved: string[] | undefined, characters: Character[]): string {
+  const names = ids.map((id) => characters.find((c) => c.id === id)?.name).filter(Boolean);
+  return [names.join(', '), unresolved?.length ? `(연결 안 됨: ${unresolved.join(', ')})` : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
+function describeShots(shots: Shot[] | undefined): string {
+  return (shots ?? [])
+    .map((shot) => `${shot.shotNumber}. ${getShotSizeName(shot.size)} · ${getCameraAngleName(shot.angle)} - ${shot.action}`)
+    .join('\n');
+}
+
+function describeDialogue(lines: DialogueLine[] | undefined): string {
+  return (lines ?? []).map((line) => (line.speaker ? `${line.speaker}: ${line.text}` : line.text)).join('\n');
+}
+
+// 재분석 결과와 현재 장면 비교 - 값이 달라진 필드만
+export function planSceneUpdate(scene: Scene, characters: Character[], result: SceneAnalysisResult): SceneFieldChange[] {
+  const resolve = createNameResolver(characters);
+  const { ids: characterIds, unresolved } = resolveCharacterIds(result.characterNames, resolve);
+  const shots = buildShots(result.shots, resolve, scene.shots);
+  const dialogue = buildDialogue(result.dialogue, resolve, scene.dialogue);
+
+  const candidates: SceneFieldChange[] = [
+    { field: 'title', label: '제목', before: scene.title ?? '', after: result.title ?? '', updates: { title: result.title } },
+    {
+      field: 'location',
+      label: '장소',
+      before: scene.location ?? '',
+      after: result.location ?? '',
+      updates: { location: result.location },
+    },
+    {
+      field: 'timeOfDay',
+      label: '시간대',
+      before: scene.timeOfDay ?? '',
+      after: result.timeOfDay ?? '',
+      updates: { timeOfDay: result.timeOfDay },
+    },
+    {
+      field: 'visualDescription',
+      label: '시각적 묘사',
+      before: scene.visualDescription ?? '',
+      after: result.visualDescription,
+      // 예전 묘사로 만든 프롬프트는 버린다 (직접 수정한 프롬프트는 유지)
+      // 부분 수정은 저장 서버로 JSON 전송되므로 undefined 대신 빈 값으로 지운다
+      updates: { visualDescription: result.visualDescription, generatedPrompt: '' },
+    },
+    {
+      field: 'characterIds',
+      label: '등장 캐릭터',
+      before: describeCharacters(scene.characterIds, scene.unresolvedCharacterNames, characters),
+      after: describeCharacters(characterIds, unresolved, characters),
+      updates: { characterIds, unresolvedCharacterNames: unresolved },
+    },
+    { field: 'shots', label: '샷', before: describeShots(scene.shots), after: describeShots(shots), updates: { shots } },
+    {
+      field: 'dialogue',
+      label: '대사',
+      before: describeDialogue(scene.dialogue),
+      after: describeDialogue(dialogue),
+      updates: { dialogue },
+    },
+  ];
+  // 새 결과에 값이 없는 필드는 지우지 않는다
+  return candidates.filter((change) => change.after && change.after !== change.before);
+}
+
+// 고른 필드만 합친 변경 값
+export function applySceneChanges(changes: SceneFieldChange[], accepted: Set<SceneField>): Partial<Scene> {
+  return changes
+    .filter((change) => accepted.has(change.field))
+    .reduce<Partial<Scene>>((updates, change) => ({ ...updates, ...change.updates }), {});
+}
@@ -0,0 +1,445 @@
+// 대본 분석 응답 형식 - Gemini 구조화 출력(responseSchema)용 스키마와 런타임 검증
+import { Type, type Schema } from '@google/genai';
+import type { AnalysisResult, AnalyzedDialogue, AnalyzedShot, Appearance, DialogueKind } from '../types';
+import { CAMERA_ANGLE_IDS, SHOT_SIZE_IDS } from './shots';
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// 재시도해도 형식이 맞지 않을 때
+export class AnalysisValidationError extends Error {
+  errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+    this.errors = errors;
+  }
+}
+
+// ===== 스키마 =====
+
+const APPEARANCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    age: { type: Type.STRING },
+    gender: { type: Type.STRING },
+    height: { type: Type.STRING },
+    hair: { type: Type.STRING },
+    face: { type: Type.STRING },
+    skinTone: { type: Type.STRING },
+    features: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+};
+
+const SHOTS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      size: { type: Type.STRING, format: 'enum', enum: SHOT_SIZE_IDS },
+      angle: { type: Type.STRING, format: 'enum', enum: CAMERA_ANGLE_IDS },
+      characterNames: { type: Type.ARRAY, items: { type: Type.STRING } },
+      action: { type: Type.STRING },
+    },
+    required: ['size', 'angle', 'characterNames', 'action'],
+    propertyOrdering: ['size', 'angle', 'characterNames', 'action'],
+  },
+};
+
+const DIALOGUE_KINDS: DialogueKind[] = ['speech', 'thought', 'narration'];
+
+const DIALOGUE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, format: 'enum', enum: DIALOGUE_KINDS },
+      speaker: { type: Type.STRING },
+      text: { type: Type.STRING },
+      tone: { type: Type.STRING },
+    },
+    required: ['kind', 'text'],
+    propertyOrdering: ['kind', 'speaker', 'text', 'tone'],
+  },
+};
+
+export const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          appearance: APPEARANCE_SCHEMA,
+          defaultOutfit: { type: Type.STRING },
+        },
+        required: ['name', 'appearance'],
+        propertyOrdering: ['name', 'appearance', 'defaultOutfit'],
+      },
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneNumber: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+          location: { type: Type.STRING },
+          timeOfDay: { type: Type.STRING },
+          originalText: { type: Type.STRING },
+          visualDescription: { type: Type.STRING },
+          characterNames: { type: Type.ARRAY, items: { type: Type.STRING } },
+          shots: SHOTS_SCHEMA,
+          dialogue: DIALOGUE_SCHEMA,
+        },
+        required: ['sceneNumber', 'originalText', 'visualDescription', 'characterNames'],
+        propertyOrdering: [
+          'sceneNumber',
+          'title',
+          'location',
+          'timeOfDay',
+          'originalText',
+          'visualDescription',
+          'characterNames',
+          'shots',
+          'dialogue',
+        ],
+      },
+    },
+    styleGuide: { type: Type.STRING },
+  },
+  required: ['characters', 'scenes'],
+  propertyOrdering: ['characters', 'scenes', 'styleGuide'],
+};
+
+// 장면 하나 재분석 - 원문과 장면 번호는 보낸 그대로라 받지 않는다
+export type SceneAnalysisResult = Omit<AnalysisResult['scenes'][number], 'sceneNumber' | 'originalText'>;
+
+export const SCENE_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    location: { type: Type.STRING },
+    timeOfDay: { type: Type.STRING },
+    visualDescription: { type: Type.STRING },
+    characterNames: { type: Type.ARRAY, items: { type: Type.STRING } },
+    shots: SHOTS_SCHEMA,
+    dialogue: DIALOGUE_SCHEMA,
+  },
+  required: ['visualDescription', 'characterNames'],
+  propertyOrdering: ['title', 'location', 'timeOfDay', 'visualDescription', 'characterNames', 'shots', 'dialogue'],
+};
+
+export interface EnrichmentResult {
+  characters: { name: string; appearance?: Appearance; defaultOutfit?: string }[];
+  scenes: { sceneNumber: number; location?: string; visualDescription: string; shots?: AnalyzedShot[] }[];
+  styleGuide?: string;
+}
+
+export const ENRICHMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          appearance: APPEARANCE_SCHEMA,
+          defaultOutfit: { type: Type.STRING },
+        },
+        required: ['name', 'appearance'],
+      },
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneNumber: { type: Type.INTEGER },
+          location: { type: Type.STRING },
+          visualDescription: { type: Type.STRING },
+          shots: SHOTS_SCHEMA,
+        },
+        required: ['sceneNumber', 'visualDescription'],
+      },
+    },
+    styleGuide: { type: Type.STRING },
+  },
+  required: ['characters', 'scenes'],
+};
+
+// ===== 검증 =====
+// 오류 메시지는 영어 재시도 프롬프트에 그대로 넣으므로 영어로, "경로: 문제" 형식으로 짧게
+// 필수 값이 틀리면 오류(다시 요청), 선택 값(샷/대사/부가 설명)이 틀리면 그 항목만 버리고 경고로 남긴다
+// 검증 함수는 문제를 넘겨받은 목록(errors 또는 warnings)에 넣는다
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, path: string, warnings: string[]): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    warnings.push(`${path}: must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function requiredString(value: unknown, path: string, errors: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${path}: must be a non-empty string`);
+    return '';
+  }
+  return value;
+}
+
+function stringArray(value: unknown, path: string, errors: string[]): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    errors.push(`${path}: must be an array of strings`);
+    return [];
+  }
+  return value;
+}
+
+function sceneNumber(value: unknown, path: string, errors: string[]): number {
+  // 모델이 "3"처럼 문자열로 주는 경우는 숫자로 바꿔서 받는다
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    errors.push(`${path}: must be an integer of 1 or more`);
+    return 0;
+  }
+  return number;
+}
+
+// 외모는 모두 선택 값 - 틀린 필드만 뺀다
+function validateAppearance(value: unknown, path: string, warnings: string[]): Appearance {
+  if (value === undefined || value === null) return {};
+  if (!isObject(value)) {
+    warnings.push(`${path}: must be an object`);
+    return {};
+  }
+  const appearance: Appearance = {};
+  (['age', 'gender', 'height', 'hair', 'face', 'skinTone'] as const).forEach((key) => {
+    const field = optionalString(value[key], `${path}.${key}`, warnings);
+    if (field) appearance[key] = field;
+  });
+  if (value.features !== undefined && value.features !== null) {
+    const featureWarnings: string[] = [];
+    const features = stringArray(value.features, `${path}.features`, featureWarnings);
+    if (featureWarnings.length === 0) appearance.features = features;
+    warnings.push(...featureWarnings);
+  }
+  return appearance;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], path: string, errors: string[]): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    errors.push(`${path}: must be one of ${allowed.join(', ')}`);
+    return allowed[0];
+  }
+  return value as T;
+}
+
+// 선택 항목의 목록 검증 - 틀린 항목은 이유와 함께 경고로 남기고 뺀다 (목록이 아니면 통째로 뺀다)
+function validateOptionalList<T>(
+  value: unknown,
+  path: string,
+  warnings: string[],
+  validateItem: (item: Record<string, unknown>, itemPath: string, errors: string[], warnings: string[]) => T
+): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push(`${path}: must be an array (dropped)`);
+    return undefined;
+  }
+  return value.flatMap((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item)) {
+      warnings.push(`${itemPath}: must be an object (dropped)`);
+      return [];
+    }
+    const itemErrors: string[] = [];
+    const result = validateItem(item, itemPath, itemErrors, warnings);
+    if (itemErrors.length > 0) {
+      warnings.push(`${itemPath}: dropped (${itemErrors.join('; ')})`);
+      return [];
+    }
+    return [result];
+  });
+}
+
+// 샷 목록은 선택 항목 - 없으면 undefined
+function validateShots(value: unknown, path: string, warnings: string[]): AnalyzedShot[] | undefined {
+  return validateOptionalList(value, path, warnings, (item, shotPath, errors) => ({
+    size: oneOf(item.size, SHOT_SIZE_IDS, `${shotPath}.size`, errors),
+    angle: oneOf(item.angle, CAMERA_ANGLE_IDS, `${shotPath}.angle`, errors),
+    characterNames: stringArray(item.characterNames ?? [], `${shotPath}.characterNames`, errors),
+    action: requiredString(item.action, `${shotPath}.action`, errors),
+  }));
+}
+
+// 대사 목록도 선택 항목 - 내레이션이 아니면 화자가 있어야 한다
+function validateDialogue(value: unknown, path: string, warnings: string[]): AnalyzedDialogue[] | undefined {
+  return validateOptionalList(value, path, warnings, (item, linePath, errors, lineWarnings) => {
+    const kind = oneOf(item.kind, DIALOGUE_KINDS, `${linePath}.kind`, errors);
+    const speaker =
+      kind === 'narration'
+        ? optionalString(item.speaker, `${linePath}.speaker`, lineWarnings)
+        : requiredString(item.speaker, `${linePath}.speaker`, errors).trim();
+    return {
+      kind,
+      speaker: speaker || undefined,
+      text: requiredString(item.text, `${linePath}.text`, errors),
+      tone: optionalString(item.tone, `${linePath}.tone`, lineWarnings),
+    };
+  });
+}
+
+function validateArray(value: unknown, path: string, errors: string[]): unknown[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return [];
+  }
+  return value;
+}
+
+// 버린 선택 값은 기록만 남긴다
+function reportWarnings(warnings: string[]): void {
+  if (warnings.length > 0) {
+    console.warn(`분석 응답의 선택 항목 ${warnings.length}개를 고치거나 버렸습니다:`, warnings);
+  }
+}
+
+const NOT_AN_OBJECT = ['(root): must be an object'];
+
+// 분석 결과 검증 - 통과하면 알 수 없는 필드를 뺀 깨끗한 값을 돌려준다
+export function validateAnalysisResult(value: unknown): ValidationResult<AnalysisResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: NOT_AN_OBJECT };
+  }
+
+  const characters = validateArray(value.characters, 'characters', errors).map((item, i) => {
+    const path = `characters[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: must be an object`);
+      return { name: '', appearance: {} };
+    }
+    return {
+      name: requiredString(item.name, `${path}.name`, errors).trim(),
+      appearance: validateAppearance(item.appearance, `${path}.appearance`, warnings),
+      defaultOutfit: optionalString(item.defaultOutfit, `${path}.defaultOutfit`, warnings),
+    };
+  });
+
+  const scenes = validateArray(value.scenes, 'scenes', errors).map((item, i) => {
+    const path = `scenes[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: must be an object`);
+      return null;
+    }
+    return {
+      sceneNumber: sceneNumber(item.sceneNumber, `${path}.sceneNumber`, errors),
+      title: optionalString(item.title, `${path}.title`, warnings),
+      location: optionalString(item.location, `${path}.location`, warnings),
+      timeOfDay: optionalString(item.timeOfDay, `${path}.timeOfDay`, warnings),
+      originalText: requiredString(item.originalText, `${path}.originalText`, errors),
+      visualDescription: requiredString(item.visualDescription, `${path}.visualDescription`, errors),
+      characterNames: stringArray(item.characterNames, `${path}.characterNames`, errors),
+      shots: validateShots(item.shots, `${path}.shots`, warnings),
+      dialogue: validateDialogue(item.dialogue, `${path}.dialogue`, warnings),
+    };
+  });
+
+  const styleGuide = optionalString(value.styleGuide, 'styleGuide', warnings);
+
+  if (errors.length > 0) return { ok: false, errors };
+  reportWarnings(warnings);
+  return {
+    ok: true,
+    value: { characters, scenes: scenes.filter((s): s is NonNullable<typeof s> => !!s), styleGuide },
+  };
+}
+
+export function validateSceneAnalysis(value: unknown): ValidationResult<SceneAnalysisResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: NOT_AN_OBJECT };
+  }
+  const scene = {
+    title: optionalString(value.title, 'title', warnings),
+    location: optionalString(value.location, 'location', warnings),
+    timeOfDay: optionalString(value.timeOfDay, 'timeOfDay', warnings),
+    visualDescription: requiredString(value.visualDescription, 'visualDescription', errors),
+    characterNames: stringArray(value.characterNames, 'characterNames', errors),
+    shots: validateShots(value.shots, 'shots', warnings),
+    dialogue: validateDialogue(value.dialogue, 'dialogue', warnings),
+  };
+  if (errors.length > 0) return { ok: false, errors };
+  reportWarnings(warnings);
+  return { ok: true, value: scene };
+}
+
+// 보강 결과 검증 - 요청한 이름/장면 번호를 빠뜨리지 않았는지도 확인
+export function validateEnrichment(
+  value: unknown,
+  expected: { characterNames: string[]; sceneNumbers: number[] }
+): ValidationResult<EnrichmentResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: NOT_AN_OBJECT };
+  }
+
+  const characters = validateArray(value.characters, 'characters', errors).flatMap((item, i) => {
+    const path = `characters[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: must be an object`);
+      return [];
+    }
+    return [
+      {
+        name: requiredString(item.name, `${path}.name`, errors),
+        appearance: validateAppearance(item.appearance, `${path}.appearance`, warnings),
+        defaultOutfit: optionalString(item.defaultOutfit, `${path}.defaultOutfit`, warnings),
+      },
+    ];
+  });
+
+  const scenes = validateArray(value.scenes, 'scenes', errors).flatMap((item, i) => {
+    const path = `scenes[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path}: must be an object`);
+      return [];
+    }
+    return [
+      {
+        sceneNumber: sceneNumber(item.sceneNumber, `${path}.sceneNumber`, errors),
+        location: optionalString(item.location, `${path}.location`, warnings),
+        visualDescription: requiredString(item.visualDescription, `${path}.visualDescription`, errors),
+        shots: validateShots(item.shots, `${path}.shots`, warnings),
+      },
+    ];
+  });
+
+  const names = new Set(characters.map((c) => c.name));
+  expected.characterNames
+    .filter((name) => !names.has(name))
+    .forEach((name) => errors.push(`characters: character "${name}" is missing`));
+  const numbers = new Set(scenes.map((s) => s.sceneNumber));
+  expected.sceneNumbers
+    .filter((n) => !numbers.has(n))
+    .forEach((n) => errors.push(`scenes: scene with sceneNumber ${n} is missing`));
+
+  const styleGuide = optionalString(value.styleGuide, 'styleGuide', warnings);
+
+  if (errors.length > 0) return { ok: false, errors };
+  reportWarnings(warnings);
+  return { ok: true, value: { characters, scenes, styleGuide } };
+}
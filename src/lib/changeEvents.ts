@@ -0,0 +1,66 @@
+// 탭 간 변경 알림 - 다른 탭에서 저장한 내용을 열린 페이지가 다시 불러올 수 있게 한다
+import { v4 as uuidv4 } from 'uuid';
+
+export type ChangeTopic = 'scripts' | 'characters' | 'scenes';
+
+export interface ProjectChange {
+  topics: ChangeTopic[];
+  scriptId?: string; // 없으면 어느 대본인지 모름 (모든 대본에 해당하는 것으로 처리)
+  ids?: string[]; // 변경된 엔티티 ID
+}
+
+interface ChangeMessage extends ProjectChange {
+  source: string; // 보낸 탭
+  nonce: string;
+}
+
+const CHANNEL_NAME = 'script-image-generator:changes';
+// BroadcastChannel이 없는 브라우저에서는 localStorage의 storage 이벤트로 대신 전달
+const STORAGE_KEY = 'script-image-generator:change';
+
+const TAB_ID = uuidv4();
+const listeners = new Set<(change: ProjectChange) => void>();
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+function receive(message: ChangeMessage | null) {
+  if (!message || message.source === TAB_ID) return;
+  const { topics, scriptId, ids } = message;
+  listeners.forEach((listener) => listener({ topics, scriptId, ids }));
+}
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<ChangeMessage>) => receive(event.data);
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      receive(JSON.parse(event.newValue) as ChangeMessage);
+    } catch {
+      // 다른 버전의 앱이 쓴 값은 무시
+    }
+  });
+}
+
+// 다른 탭에 변경 알림 (같은 탭은 저장한 쪽에서 이미 다시 불러온다)
+export function broadcastChange(change: ProjectChange): void {
+  const message: ChangeMessage = { ...change, source: TAB_ID, nonce: uuidv4() };
+  try {
+    if (channel) {
+      channel.postMessage(message);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+    }
+  } catch (err) {
+    // 알림 실패는 저장 자체를 실패시키지 않는다
+    console.error('변경 알림 실패:', err);
+  }
+}
+
+// 다른 탭의 변경 구독 - 구독 해제 함수 반환
+export function subscribeChanges(listener: (change: ProjectChange) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,210 @@
+// 캐릭터 이름 연결 - 분석 결과의 "민준이", "민준 씨", "Minjun" 같은 이름을 등록된 캐릭터로 찾는다
+// 순서: 이름/별칭 그대로 -> 호칭/조사를 뗀 이름 -> 비슷한 이름 (후보가 둘 이상이면 연결하지 않는다)
+import { v4 as uuidv4 } from 'uuid';
+import type { Character, Scene } from '../types';
+
+export type NameMatchMethod = 'exact' | 'alias' | 'suffix' | 'fuzzy';
+
+export interface NameMatch {
+  characterId: string;
+  method: NameMatchMethod;
+}
+
+export type NamedCharacter = Pick<Character, 'id' | 'name' | 'aliases'>;
+
+// 연결하지 못한 이름과 그 이름이 나온 장면
+export interface UnresolvedName {
+  name: string;
+  sceneIds: string[];
+}
+
+// 이름 끝에 붙는 호칭/조사 (긴 것부터 비교)
+const NAME_SUFFIXES = [
+  '선생님', '선배님', '사장님', '선배', '오빠', '언니', '누나', '씨', '님', '군', '양', '형',
+  '에게', '한테', '께서', '이랑', '이가', '이는', '이를', '이의', '이도',
+  '이', '가', '은', '는', '을', '를', '의', '와', '과', '도', '랑', '야', '아',
+].sort((a, b) => b.length - a.length);
+
+// 이름 비교용 (공백/대소문자 무시)
+export function normalizeName(name: string): string {
+  return name.replace(/\s+/g, '').toLowerCase();
+}
+
+// 호칭/조사를 하나씩 뗀 후보 (긴 것부터) - 두 글자 미만이 되면 더 떼지 않는다
+function suffixVariants(name: string): string[] {
+  const variants: string[] = [];
+  let current = normalizeName(name);
+  for (;;) {
+    const suffix = NAME_SUFFIXES.find((s) => current.endsWith(s) && current.length - s.length >= 2);
+    if (!suffix) break;
+    current = current.slice(0, -suffix.length);
+    variants.push(current);
+  }
+  return variants;
+}
+
+// ===== 로마자 표기 (영문 이름 비교용, 국어의 로마자 표기법을 음운 변화 없이 단순 적용) =====
+
+const INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const MEDIALS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo',
+  'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+];
+const FINALS = [
+  '', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l',
+  'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't',
+];
+
+export function romanizeHangul(text: string): string {
+  return [...text]
+    .map((char) => {
+      const code = char.charCodeAt(0) - 0xac00;
+      if (code < 0 || code > 11171) return char;
+      const initial = Math.floor(code / 588);
+      const medial = Math.floor((code % 588) / 28);
+      return INITIALS[initial] + MEDIALS[medial] + FINALS[code % 28];
+    })
+    .join('');
+}
+
+// 흔한 다른 표기("joon", "hee")는 로마자 표기법 쪽으로 맞춘다
+function latinKey(text: string): string {
+  return romanizeHangul(normalizeName(text))
+    .replace(/[^a-z]/g, '')
+    .replace(/oo/g, 'u')
+    .replace(/ee/g, 'i');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const HANGUL = /[가-힣]/;
+
+// 비슷한 이름 점수 (작을수록 가깝다, 비슷하지 않으면 null)
+// - 한글: 세 글자 이상에서 한 글자 차이, 또는 성을 뺀 이름 ("민준" -> "김민준")
+// - 영문: 로마자로 바꿔서 비교 ("Minjun", "Min-joon" -> "민준", "김민준")
+function fuzzyScore(query: string, key: string): number | null {
+  if (HANGUL.test(query) && HANGUL.test(key)) {
+    if (key.length === query.length + 1 && key.endsWith(query) && query.length >= 2) return 1;
+    if (Math.min(query.length, key.length) >= 3 && editDistance(query, key) <= 1) return 1;
+    return null;
+  }
+  const latinQuery = latinKey(query);
+  if (latinQuery.length < 2) return null;
+  const keys = [latinKey(key)];
+  if (HANGUL.test(key) && key.length === 3) keys.push(latinKey(key.slice(1))); // 성을 뺀 이름
+  const allowed = Math.max(1, Math.floor(latinQuery.length / 4));
+  const scores = keys
+    .map((k) => editDistance(latinQuery, k))
+    .filter((distance) => distance <= allowed);
+  return scores.length > 0 ? Math.min(...scores) : null;
+}
+
+// 후보가 정확히 하나일 때만 연결
+function single(ids: string[]): string | null {
+  const unique = [...new Set(ids)];
+  return unique.length === 1 ? unique[0] : null;
+}
+
+export function createNameResolver(characters: NamedCharacter[]): (name: string) => NameMatch | null {
+  const entries = characters.map((c) => ({
+    id: c.id,
+    name: normalizeName(c.name),
+    aliases: (c.aliases ?? []).map(normalizeName),
+  }));
+
+  return (name) => {
+    const key = normalizeName(name);
+    if (!key) return null;
+
+    const exact = single(entries.filter((e) => e.name === key).map((e) => e.id));
+    if (exact) return { characterId: exact, method: 'exact' };
+    const alias = single(entries.filter((e) => e.aliases.includes(key)).map((e) => e.id));
+    if (alias) return { characterId: alias, method: 'alias' };
+
+    for (const variant of suffixVariants(name)) {
+      const id = single(entries.filter((e) => e.name === variant || e.aliases.includes(variant)).map((e) => e.id));
+      if (id) return { characterId: id, method: 'suffix' };
+    }
+
+    // 호칭/조사를 뗀 이름 중 가장 짧은 것으로 비교
+    const query = suffixVariants(name).pop() ?? key;
+    let best: { ids: string[]; score: number } = { ids: [], score: Infinity };
+    for (const entry of entries) {
+      const scores = [entry.name, ...entry.aliases]
+        .map((candidate) => fuzzyScore(query, candidate))
+        .filter((score): score is number => score !== null);
+      if (scores.length === 0) continue;
+      const score = Math.min(...scores);
+      if (score < best.score) {
+        best = { ids: [entry.id], score };
+      } else if (score === best.score) {
+        best.ids.push(entry.id);
+      }
+    }
+    const fuzzy = single(best.ids);
+    return fuzzy ? { characterId: fuzzy, method: 'fuzzy' } : null;
+  };
+}
+
+// 장면별로 연결하지 못한 이름 모으기 (같은 이름은 공백/대소문자 무시하고 하나로)
+export function collectUnresolvedNames(scenes: Scene[]): UnresolvedName[] {
+  const byKey = new Map<string, UnresolvedName>();
+  [...scenes]
+    .sort((a, b) => a.sceneNumber - b.sceneNumber)
+    .forEach((scene) => {
+      (scene.unresolvedCharacterNames ?? []).forEach((name) => {
+        const key = normalizeName(name);
+        const entry = byKey.get(key) ?? { name, sceneIds: [] };
+        if (!entry.sceneIds.includes(scene.id)) entry.sceneIds.push(scene.id);
+        byKey.set(key, entry);
+      });
+    });
+  return [...byKey.values()];
+}
+
+// 연결하지 못한 이름을 기존 캐릭터(별칭으로 추가) 또는 새 캐릭터(characterId가 null)에 연결
+export function linkUnresolvedName(
+  scriptId: string,
+  characters: Character[],
+  scenes: Scene[],
+  name: string,
+  characterId: string | null
+): { characters: Character[]; scenes: Scene[] } {
+  const now = new Date().toISOString();
+  const key = normalizeName(name);
+  const targetId = characterId ?? uuidv4();
+
+  const nextCharacters: Character[] = characterId
+    ? characters.map((c) => {
+        const known = [c.name, ...(c.aliases ?? [])].some((n) => normalizeName(n) === key);
+        return c.id === targetId && !known ? { ...c, aliases: [...(c.aliases ?? []), name], updatedAt: now } : c;
+      })
+    : [
+        ...characters,
+        { id: targetId, scriptId, name, appearance: {}, referenceImages: [], createdAt: now, updatedAt: now },
+      ];
+
+  const nextScenes = scenes.map((scene) => {
+    const names = scene.unresolvedCharacterNames ?? [];
+    if (!names.some((n) => normalizeName(n) === key)) return scene;
+    const remaining = names.filter((n) => normalizeName(n) !== key);
+    return {
+      ...scene,
+      characterIds: scene.characterIds.includes(targetId) ? scene.characterIds : [...scene.characterIds, targetId],
+      unresolvedCharacterNames: remaining.length > 0 ? remaining : undefined,
+      updatedAt: now,
+    };
+  });
+
+  return { characters: nextCharacters, scenes: nextScenes };
+}
@@ -0,0 +1,125 @@
+// IndexedDB 공용 연결 (메타데이터 + 이미지)
+import { runMigrations } from './migrations';
+import { StorageQuotaError, isQuotaExceededError } from './storageQuota';
+
+// 이름은 이미지 전용 DB였던 시절 그대로 유지한다 (기존 이미지 보존)
+const DB_NAME = 'script-image-generator-images';
+const DB_VERSION = 6;
+
+export const STORE_NAMES = {
+  images: 'images',
+  characterImages: 'character-images',
+  scripts: 'scripts',
+  characters: 'characters',
+  scenes: 'scenes',
+  meta: 'meta',
+  thumbnails: 'image-thumbnails',
+  history: 'history',
+  snapshots: 'snapshots',
+} as const;
+
+export type StoreName = (typeof STORE_NAMES)[keyof typeof STORE_NAMES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 구조 변경 (object store / index). 데이터 변환은 migrations.ts에서 처리한다.
+function upgradeSchema(database: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  // v1~v2: 이미지 스토어 (예전 코드는 존재 여부로만 생성했으므로 그대로 확인)
+  if (!database.objectStoreNames.contains(STORE_NAMES.images)) {
+    database.createObjectStore(STORE_NAMES.images, { keyPath: 'id' });
+  }
+  if (!database.objectStoreNames.contains(STORE_NAMES.characterImages)) {
+    database.createObjectStore(STORE_NAMES.characterImages, { keyPath: 'id' });
+  }
+
+  // v3: 메타데이터 스토어 (localStorage에서 이전)
+  if (oldVersion < 3) {
+    database.createObjectStore(STORE_NAMES.scripts, { keyPath: 'id' });
+    const characters = database.createObjectStore(STORE_NAMES.characters, { keyPath: 'id' });
+    characters.createIndex('scriptId', 'scriptId');
+    const scenes = database.createObjectStore(STORE_NAMES.scenes, { keyPath: 'id' });
+    scenes.createIndex('scriptId', 'scriptId');
+    database.createObjectStore(STORE_NAMES.meta, { keyPath: 'key' });
+  }
+
+  // v4: 이미지 조회용 인덱스 (기존 레코드의 scriptId는 migrations.ts v2에서 채운다)
+  if (oldVersion < 4) {
+    const images = transaction.objectStore(STORE_NAMES.images);
+    images.createIndex('sceneId', 'sceneId');
+    images.createIndex('scriptId', 'scriptId');
+    const characterImages = transaction.objectStore(STORE_NAMES.characterImages);
+    characterImages.createIndex('characterId', 'characterId');
+    characterImages.createIndex('scriptId', 'scriptId');
+  }
+
+  // v5: 썸네일 스토어 (장면/캐릭터 이미지 공용, 이미지 ID를 키로 사용)
+  if (oldVersion < 5) {
+    database.createObjectStore(STORE_NAMES.thumbnails, { keyPath: 'id' });
+  }
+
+  // v6: 실행 취소 기록 (autoIncrement 키로 순서 유지) + 재분석 전 스냅샷
+  if (oldVersion < 6) {
+    const history = database.createObjectStore(STORE_NAMES.history, { keyPath: 'id', autoIncrement: true });
+    history.createIndex('scriptId', 'scriptId');
+    const snapshots = database.createObjectStore(STORE_NAMES.snapshots, { keyPath: 'id' });
+    snapshots.createIndex('scriptId', 'scriptId');
+  }
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const database = request.result;
+      // 다른 탭에서 새 버전으로 업그레이드하면 연결을 닫아 막지 않도록 한다
+      database.onversionchange = () => {
+        database.close();
+        dbPromise = null;
+      };
+      resolve(database);
+    };
+
+    request.onupgradeneeded = (event) => {
+      upgradeSchema(request.result, request.transaction!, event.oldVersion);
+    };
+  });
+}
+
+// DB 초기화 (최초 1회 연결 + 데이터 마이그레이션)
+export function initDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDB()
+      .then(async (database) => {
+        await runMigrations(database);
+        return database;
+      })
+      .catch((err) => {
+        dbPromise = null;
+        throw err;
+      });
+  }
+  return dbPromise;
+}
+
+// IDBRequest -> Promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+// 트랜잭션 완료 대기 (용량 초과는 StorageQuotaError로 변환)
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const fail = () => {
+      const error = transaction.error;
+      reject(isQuotaExceededError(error) ? new StorageQuotaError() : error);
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+}
@@ -0,0 +1,189 @@
+// 문서 파일에서 텍스트 꺼내기 (브라우저 안에서만 처리) - Word(.docx), 텍스트 기반 PDF, 텍스트(.txt)
+// 한글(HWP)에서 "텍스트 문서로 저장"한 파일은 EUC-KR(CP949)인 경우가 많아서 인코딩을 확인한다
+import { unzipSync, strFromU8 } from 'fflate';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export interface DocumentText {
+  text: string;
+  title?: string; // 문서 속성의 제목
+  encoding?: string; // 텍스트 파일 인코딩
+  pageCount?: number; // PDF 쪽수
+}
+
+// ===== 텍스트 =====
+
+// BOM -> UTF-8로 읽어 보고 깨지면 EUC-KR
+export function decodeText(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    // 브라우저의 euc-kr 디코더는 CP949(확장 완성형)까지 읽는다
+    return { text: new TextDecoder('euc-kr').decode(bytes), encoding: 'EUC-KR' };
+  }
+}
+
+// 줄바꿈/공백 정리 - 문단 사이 빈 줄은 하나만 남긴다
+export function normalizeDocumentText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u00a0\u3000]/g, ' ')
+    .replace(/[\f\v\u200b\ufeff]/g, '')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ===== Word (.docx) =====
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function readZipXml(files: Record<string, Uint8Array>, path: string): Document | null {
+  const data = files[path];
+  if (!data) return null;
+  const doc = new DOMParser().parseFromString(strFromU8(data), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+// 문단 하나의 텍스트 (탭/줄바꿈 포함, 삭제 표시된 글자는 제외)
+function readParagraph(paragraph: Element): string {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== WORD_NS) continue;
+      switch (child.localName) {
+        case 't':
+          text += child.textContent ?? '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        case 'del':
+        case 'delText':
+        case 'instrText':
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+  return text;
+}
+
+export function extractDocxText(bytes: Uint8Array): DocumentText {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' || file.name === 'docProps/core.xml' });
+  } catch {
+    throw new Error('Word(.docx) 파일을 열 수 없습니다. 예전 형식(.doc)이라면 .docx로 저장한 뒤 불러오세요.');
+  }
+  const document = readZipXml(files, 'word/document.xml');
+  if (!document) {
+    throw new Error('Word(.docx) 파일 형식이 올바르지 않습니다.');
+  }
+
+  // 표 안의 문단도 문서 순서대로 (표 칸은 문단 하나씩)
+  const paragraphs = Array.from(document.getElementsByTagNameNS(WORD_NS, 'p'));
+  const text = paragraphs.map(readParagraph).join('\n');
+
+  const core = readZipXml(files, 'docProps/core.xml');
+  const title = core?.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent?.trim();
+  return { text: normalizeDocumentText(text), title: title || undefined };
+}
+
+// ===== PDF =====
+
+// 글자 조각을 줄로 묶기 - 같은 높이면 같은 줄, 조각 사이가 벌어져 있으면 띄어쓰기
+// (한글 PDF는 글자마다 조각이 나뉘는 경우가 많아서 조각 사이에 무조건 공백을 넣으면 안 된다)
+function joinPdfItems(items: TextItem[]): string {
+  const lines: string[] = [];
+  let line = '';
+  let lastY: number | null = null;
+  let lastEnd = 0;
+  let lastHeight = 0;
+
+  for (const item of items) {
+    const x = item.transform[4]; // transform: [a, b, c, d, x, y]
+    const y = item.transform[5];
+    const size = item.height || Math.abs(item.transform[3]) || 10;
+    if (lastY !== null && Math.abs(y - lastY) > size * 0.5) {
+      lines.push(line);
+      // 줄 간격이 크면 문단이 바뀐 것
+      if (Math.abs(y - lastY) > Math.max(size, lastHeight) * 1.8) lines.push('');
+      line = '';
+    } else if (line && item.str && x - lastEnd > size * 0.2 && !/\s$/.test(line) && !/^\s/.test(item.str)) {
+      line += ' ';
+    }
+    line += item.str;
+    if (item.str || lastY === null) {
+      lastY = y;
+      lastEnd = x + item.width;
+      lastHeight = size;
+    }
+  }
+  lines.push(line);
+  return lines.join('\n');
+}
+
+export async function extractPdfText(bytes: Uint8Array): Promise<DocumentText> {
+  // PDF 라이브러리는 크기가 커서 PDF를 불러올 때만 받는다
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  let pdf: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+  try {
+    pdf = await pdfjs.getDocument({ data: bytes }).promise;
+  } catch (err) {
+    console.error('PDF 열기 실패:', err);
+    throw new Error(
+      err instanceof Error && err.name === 'PasswordException'
+        ? '암호가 걸린 PDF는 불러올 수 없습니다.'
+        : 'PDF 파일을 열 수 없습니다.'
+    );
+  }
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      pages.push(joinPdfItems(items));
+      page.cleanup();
+    }
+    const text = normalizeDocumentText(
+      pages
+        // 쪽 번호만 있는 줄은 버린다
+        .map((page) => page.replace(/^\s*-?\s*\d+\s*-?\s*$/gm, ''))
+        .join('\n\n')
+    );
+    if (!text) {
+      throw new Error('PDF에서 글자를 찾지 못했습니다. 스캔한 이미지 PDF는 불러올 수 없습니다.');
+    }
+
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const info = metadata?.info as { Title?: unknown } | undefined;
+    const title = typeof info?.Title === 'string' ? info.Title.trim() : '';
+    return { text, title: title || undefined, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,6 +1,31 @@
-import { GoogleGenAI } from '@google/genai';
-import type { AnalysisResult } from '../types';
+import { GoogleGenAI, type Schema } from '@google/genai';
+import type { AnalysisResult, Character, Scene, Shot } from '../types';
+import type { ParsedScript } from './scriptParser';
+import {
+  splitScriptIntoChunks,
+  mergeChunkResults,
+  describeRoster,
+  MAX_CHUNK_CHARS,
+  type AnalysisPreview,
+  type AnalysisProgress,
+} from './analysisChunks';
+import {
+  ANALYSIS_SCHEMA,
+  ENRICHMENT_SCHEMA,
+  SCENE_ANALYSIS_SCHEMA,
+  AnalysisValidationError,
+  validateAnalysisResult,
+  validateEnrichment,
+  validateSceneAnalysis,
+  type EnrichmentResult,
+  type SceneAnalysisResult,
+  type ValidationResult,
+} from './analysisSchema';
 import { loadApiKey } from './storage';
+import { CAMERA_ANGLE_IDS, SHOT_SIZE_IDS, describeShotFraming } from './shots';
+import { blobToDataUrl } from './imageData';
+import { extractCompleteItems } from './partialJson';
+import { createRequestScheduler, PermanentRequestError } from './requestScheduler';
 
 // API 클라이언트 캐시
 let cachedAI: GoogleGenAI | null = null;
@@ -13,6 +38,10 @@ function getApiKey(): string | null {
   return loadApiKey();
 }
 
+export function hasApiKey(): boolean {
+  return !!getApiKey();
+}
+
 // API 클라이언트 가져오기
 export function getAI(): GoogleGenAI {
   const apiKey = getApiKey();
@@ -27,6 +56,9 @@ export function getAI(): GoogleGenAI {
   return cachedAI;
 }
 
+// 분석/이미지 생성 요청이 모두 함께 쓰는 스케줄러 (분당 요청 수는 설정 페이지에서)
+const scheduler = createRequestScheduler();
+
 // 이미지 비율 옵션
 export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
 
@@ -49,10 +81,95 @@ export const IMAGE_STYLES: { id: ImageStyle; name: string; description: string }
   { id: 'comic', name: '만화', description: 'Comic book / graphic novel style' },
 ];
 
+export interface AnalyzeOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  onPreview?: (preview: AnalysisPreview) => void; // 응답을 받는 동안 지금까지 찾은 캐릭터/장면
+  signal?: AbortSignal; // 분석 취소
+}
+
+// 사용자가 분석을 취소했을 때 (오류로 표시하지 않는다)
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('분석을 취소했습니다.');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new AnalysisCancelledError();
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// 스트리밍 중인 응답에서 완성된 캐릭터 이름/장면만 꺼내기 (형식 검증은 응답이 끝난 뒤에)
+function readPartialAnalysis(text: string): AnalysisPreview {
+  return {
+    characters: extractCompleteItems(text, 'characters')
+      .map((item) => optionalText((item as { name?: unknown } | null)?.name))
+      .filter((name): name is string => !!name),
+    scenes: extractCompleteItems(text, 'scenes').flatMap((item) => {
+      const scene = (item ?? {}) as Record<string, unknown>;
+      const sceneNumber = Number(scene.sceneNumber);
+      if (!Number.isInteger(sceneNumber)) return [];
+      return [
+        {
+          sceneNumber,
+          title: optionalText(scene.title),
+          location: optionalText(scene.location),
+          visualDescription: optionalText(scene.visualDescription),
+        },
+      ];
+    }),
+  };
+}
+
 // 대본 분석 (텍스트 모델 사용)
-export async function analyzeScript(content: string): Promise<AnalysisResult> {
-  const prompt = `Analyze the following script and respond in JSON format.
+// 긴 대본은 장면 경계로 나눠서 순서대로 분석하고, 앞 조각의 등장인물 목록을 다음 조각에 넘긴다
+export async function analyzeScript(content: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const chunks = splitScriptIntoChunks(content);
+  const results: AnalysisResult[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({ current: i + 1, total: chunks.length });
+    const merged = mergeChunkResults(results);
+    // 앞 조각 결과 + 지금 받고 있는 조각에서 완성된 항목 (장면 번호는 이어서)
+    const onText = (text: string) => {
+      const partial = readPartialAnalysis(text);
+      options.onPreview?.({
+        characters: [...new Set([...merged.characters.map((c) => c.name), ...partial.characters])],
+        scenes: [
+          ...merged.scenes,
+          ...partial.scenes.map((scene, index) => ({ ...scene, sceneNumber: merged.scenes.length + index + 1 })),
+        ],
+      });
+    };
+    results.push(await analyzeChunk(chunks[i], merged.characters, i, chunks.length, { signal: options.signal, onText }));
+  }
+
+  return mergeChunkResults(results);
+}
 
+async function analyzeChunk(
+  content: string,
+  roster: AnalysisResult['characters'],
+  index: number,
+  total: number,
+  stream: JsonStreamOptions
+): Promise<AnalysisResult> {
+  const partNote = total > 1
+    ? `\nThis is part ${index + 1} of ${total} of a longer script. Analyze only the scenes in this part.
+${roster.length > 0
+    ? `Characters found in earlier parts (reuse these EXACT names for the same people, include them in "characters" only if they appear in this part):
+${describeRoster(roster)}
+`
+    : ''}`
+    : '';
+
+  const prompt = `Analyze the following script and respond in JSON format.
+${partNote}
 Script:
 ---
 ${content}
@@ -83,26 +200,125 @@ Respond with this exact JSON format (JSON only, no other text):
       "timeOfDay": "Time of day in English (morning/afternoon/evening/night)",
       "originalText": "Original script text for this scene",
       "visualDescription": "MUST BE IN ENGLISH: Detailed visual description for image generation. Include character positions, actions, expressions, lighting, atmosphere, and background details.",
-      "characterNames": ["Character names appearing in this scene"]
+      "characterNames": ["Character names appearing in this scene"],
+      "shots": [
+        {
+          "size": "One of: ${SHOT_SIZE_IDS.join(', ')}",
+          "angle": "One of: ${CAMERA_ANGLE_IDS.join(', ')}",
+          "characterNames": ["Characters visible in this shot"],
+          "action": "MUST BE IN ENGLISH: What this shot shows (subject, action, expression, composition)"
+        }
+      ],
+      "dialogue": [
+        {
+          "kind": "One of: speech, thought, narration",
+          "speaker": "Speaking character name (omit for narration)",
+          "text": "The line exactly as written (keep original language)",
+          "tone": "Delivery or emotion if given (keep original language)"
+        }
+      ]
     }
   ],
   "styleGuide": "Overall visual style guide in English (color palette, mood, atmosphere)"
 }
 
 IMPORTANT RULES:
-1. Only select visually interesting scenes (exclude dialogue-only scenes)
+1. Include every scene, including dialogue-heavy ones, and put each spoken line, inner thought and narration into dialogue in script order
 2. visualDescription MUST be written in ENGLISH for better image generation
 3. Make visualDescription detailed and specific for AI image generation
 4. If character appearance is not mentioned in script, infer reasonably
-5. Keep character names in their original language`;
+5. Keep character names in their original language
+6. Propose 2-4 shots per scene like a storyboard artist (e.g. wide establishing shot, over-the-shoulder during dialogue, close-up on a reaction)
+7. Never translate or paraphrase dialogue text`;
 
-  const response = await getAI().models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-  });
+  return generateValidatedJson(prompt, ANALYSIS_SCHEMA, validateAnalysisResult, stream);
+}
 
-  const responseText = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+const MAX_ANALYSIS_ATTEMPTS = 3; // 첫 시도 + 검증 오류를 알려주고 다시 요청하는 횟수
+
+interface JsonStreamOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // 지금까지 받은 응답 텍스트 (받을 때마다)
+}
 
+// 응답을 스트리밍으로 받아서 전체 텍스트 반환
+async function streamText(contents: string, schema: Schema, { signal, onText }: JsonStreamOptions): Promise<string> {
+  try {
+    // 중간에 끊겨서 다시 요청하면 처음부터 다시 받는다
+    return await scheduler.schedule(
+      async () => {
+        let text = '';
+        const stream = await getAI().models.generateContentStream({
+          model: ANALYSIS_MODEL,
+          contents,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: schema,
+            abortSignal: signal,
+          },
+        });
+        for await (const chunk of stream) {
+          throwIfCancelled(signal);
+          text += chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('') ?? '';
+          onText?.(text);
+        }
+        return text;
+      },
+      { signal, label: '대본 분석' }
+    );
+  } catch (err) {
+    // 취소하면 SDK마다 다른 오류가 나므로 취소 오류로 통일
+    throwIfCancelled(signal);
+    throw err;
+  }
+}
+
+// 구조화 출력(responseSchema)으로 JSON을 받고 런타임 검증
+// 형식이 틀리면 검증 오류를 프롬프트에 붙여서 다시 요청한다
+async function generateValidatedJson<T>(
+  prompt: string,
+  schema: Schema,
+  validate: (value: unknown) => ValidationResult<T>,
+  stream: JsonStreamOptions = {}
+): Promise<T> {
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+    throwIfCancelled(stream.signal);
+    const contents = errors.length === 0
+      ? prompt
+      : `${prompt}
+
+Your previous response was rejected because of these problems:
+${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
+Fix every problem and respond again with the complete JSON.`;
+
+    const text = await streamText(contents, schema, stream);
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse<unknown>(text);
+    } catch (err) {
+      errors = [`(root): invalid JSON (${err instanceof Error ? err.message : String(err)})`];
+      console.warn(`분석 응답 형식 오류 (${attempt}/${MAX_ANALYSIS_ATTEMPTS}):`, errors);
+      continue;
+    }
+
+    const result = validate(parsed);
+    if (result.ok) return result.value;
+    errors = result.errors;
+    console.warn(`분석 응답 형식 오류 (${attempt}/${MAX_ANALYSIS_ATTEMPTS}):`, errors);
+  }
+
+  throw new AnalysisValidationError(
+    `AI 분석 결과의 형식이 올바르지 않습니다. (${MAX_ANALYSIS_ATTEMPTS}번 시도) ${errors.slice(0, 3).join(' / ')}${errors.length > 3 ? ` 외 ${errors.length - 3}개` : ''}`,
+    errors
+  );
+}
+
+// 응답 텍스트에서 JSON 부분만 꺼내서 파싱
+function parseJsonResponse<T>(responseText: string): T {
   let jsonStr = responseText;
   const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/);
   if (jsonMatch) {
@@ -115,22 +331,242 @@ IMPORTANT RULES:
     }
   }
 
-  return JSON.parse(jsonStr) as AnalysisResult;
+  return JSON.parse(jsonStr) as T;
 }
 
+// 규칙 기반 파서 결과 보강 - 장면 나누기/이름/등장인물은 그대로 두고
+// 파서가 채우지 못한 외모(영어)와 시각 묘사만 AI로 채운다 (긴 대본은 장면 묶음별로 나눠서)
+export async function enrichParsedScript(parsed: ParsedScript, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  // 원문 길이 기준으로 장면 묶기
+  const groups: ParsedScript['scenes'][] = [];
+  let group: ParsedScript['scenes'] = [];
+  let length = 0;
+  for (const scene of parsed.scenes) {
+    if (group.length > 0 && length + scene.originalText.length > MAX_CHUNK_CHARS) {
+      groups.push(group);
+      group = [];
+      length = 0;
+    }
+    group.push(scene);
+    length += scene.originalText.length;
+  }
+  groups.push(group);
+
+  // 캐릭터는 처음 등장하는 묶음에서 보강 (어느 장면에도 없는 캐릭터는 마지막 묶음에서)
+  const remaining = new Set(parsed.characters.map((c) => c.name));
+  const enrichments: EnrichmentResult[] = [];
+  // 장면 나누기는 이미 끝났으므로 파서 결과를 먼저 보여주고, 보강된 시각 묘사를 채워 나간다
+  const descriptions = new Map<number, { location?: string; visualDescription?: string }>();
+  const showPreview = () =>
+    options.onPreview?.({
+      characters: parsed.characters.map((c) => c.name),
+      scenes: parsed.scenes.map((scene) => ({
+        sceneNumber: scene.sceneNumber,
+        title: scene.title,
+        location: descriptions.get(scene.sceneNumber)?.location || scene.location,
+        visualDescription: descriptions.get(scene.sceneNumber)?.visualDescription,
+      })),
+    });
+  const onText = (text: string) => {
+    readPartialAnalysis(text).scenes.forEach((scene) => descriptions.set(scene.sceneNumber, scene));
+    showPreview();
+  };
+  showPreview();
+
+  for (let i = 0; i < groups.length; i++) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({ current: i + 1, total: groups.length });
+    const names = new Set(groups[i].flatMap((s) => s.characterNames));
+    const characters = parsed.characters.filter(
+      (c) => remaining.has(c.name) && (names.has(c.name) || i === groups.length - 1)
+    );
+    characters.forEach((c) => remaining.delete(c.name));
+    enrichments.push(await enrichChunk(characters, groups[i], { signal: options.signal, onText }));
+  }
+
+  const charactersByName = new Map(enrichments.flatMap((e) => e.characters).map((c) => [c.name, c]));
+  const scenesByNumber = new Map(enrichments.flatMap((e) => e.scenes).map((s) => [s.sceneNumber, s]));
+
+  return {
+    characters: parsed.characters.map((character) => {
+      const enriched = charactersByName.get(character.name);
+      return {
+        ...character,
+        // 나이/성별은 대본에 적힌 값 우선, 나머지는 영어로 정리된 값 사용
+        appearance: {
+          ...character.appearance,
+          ...enriched?.appearance,
+          age: character.appearance.age || enriched?.appearance?.age,
+          gender: character.appearance.gender || enriched?.appearance?.gender,
+        },
+        defaultOutfit: enriched?.defaultOutfit || character.defaultOutfit,
+      };
+    }),
+    scenes: parsed.scenes.map((scene) => {
+      const enriched = scenesByNumber.get(scene.sceneNumber);
+      return {
+        ...scene,
+        location: enriched?.location || scene.location,
+        visualDescription: enriched?.visualDescription || scene.visualDescription,
+        shots: enriched?.shots,
+      };
+    }),
+    styleGuide: enrichments.find((e) => e.styleGuide)?.styleGuide,
+  };
+}
+
+async function enrichChunk(
+  characters: ParsedScript['characters'],
+  scenes: ParsedScript['scenes'],
+  stream: JsonStreamOptions
+): Promise<EnrichmentResult> {
+  const input = {
+    characters: characters.map((c) => ({ name: c.name, appearance: c.appearance })),
+    scenes: scenes.map((s) => ({
+      sceneNumber: s.sceneNumber,
+      location: s.location,
+      timeOfDay: s.timeOfDay,
+      characterNames: s.characterNames,
+      originalText: s.originalText,
+    })),
+  };
+
+  const prompt = `The following script has already been split into characters and scenes. Do NOT add, remove, merge or rename anything.
+Fill in the missing visual details in ENGLISH and respond in JSON format.
+
+Input:
+${JSON.stringify(input, null, 2)}
+
+Respond with this exact JSON format (JSON only, no other text):
+{
+  "characters": [
+    {
+      "name": "Same name as input",
+      "appearance": {
+        "age": "Age range in English",
+        "gender": "Gender in English",
+        "height": "Height estimate",
+        "hair": "Hair style and color in English",
+        "face": "Facial features in English",
+        "skinTone": "Skin tone in English",
+        "features": ["feature1 in English"]
+      },
+      "defaultOutfit": "Default outfit description in English"
+    }
+  ],
+  "scenes": [
+    {
+      "sceneNumber": 1,
+      "location": "Location in English",
+      "visualDescription": "MUST BE IN ENGLISH: Detailed visual description for image generation. Include character positions, actions, expressions, lighting, atmosphere, and background details.",
+      "shots": [
+        {
+          "size": "One of: ${SHOT_SIZE_IDS.join(', ')}",
+          "angle": "One of: ${CAMERA_ANGLE_IDS.join(', ')}",
+          "characterNames": ["Characters visible in this shot"],
+          "action": "MUST BE IN ENGLISH: What this shot shows (subject, action, expression, composition)"
+        }
+      ]
+    }
+  ],
+  "styleGuide": "Overall visual style guide in English (color palette, mood, atmosphere)"
+}
+
+RULES:
+1. Keep every character name and sceneNumber exactly as given
+2. Translate the given appearance details to English and infer missing ones reasonably
+3. visualDescription MUST be written in ENGLISH
+4. Propose 2-4 shots per scene like a storyboard artist, using only the scene's characterNames`;
+
+  const expected = { characterNames: characters.map((c) => c.name), sceneNumbers: scenes.map((s) => s.sceneNumber) };
+  return generateValidatedJson(prompt, ENRICHMENT_SCHEMA, (value) => validateEnrichment(value, expected), stream);
+}
+
+// 장면 하나만 다시 분석 - 그 장면의 원문, 대본의 캐릭터 목록, 스타일 가이드만 보낸다
+export async function analyzeScene(
+  scene: Pick<Scene, 'title' | 'location' | 'timeOfDay' | 'originalText'>,
+  characters: Pick<Character, 'name' | 'aliases'>[],
+  styleGuide: string | undefined,
+  options: Pick<AnalyzeOptions, 'signal'> = {}
+): Promise<SceneAnalysisResult> {
+  const roster = characters
+    .map((c) => `- ${c.name}${c.aliases?.length ? ` (also called: ${c.aliases.join(', ')})` : ''}`)
+    .join('\n');
+
+  const prompt = `Re-analyze ONE scene of a script for image generation and respond in JSON format.
+${characters.length > 0 ? `
+Characters of this script (use these EXACT names in characterNames, shots and dialogue speakers):
+${roster}
+` : ''}${styleGuide ? `
+Visual style guide of this script: ${styleGuide}
+` : ''}
+Current scene heading: ${[scene.title, scene.location, scene.timeOfDay].filter(Boolean).join(' / ') || '(none)'}
+
+Scene text:
+---
+${scene.originalText}
+---
+
+Respond with this exact JSON format (JSON only, no other text):
+{
+  "title": "Scene title (keep original language)",
+  "location": "Location in English",
+  "timeOfDay": "Time of day in English (morning/afternoon/evening/night)",
+  "visualDescription": "MUST BE IN ENGLISH: Detailed visual description for image generation. Include character positions, actions, expressions, lighting, atmosphere, and background details.",
+  "characterNames": ["Character names appearing in this scene"],
+  "shots": [
+    {
+      "size": "One of: ${SHOT_SIZE_IDS.join(', ')}",
+      "angle": "One of: ${CAMERA_ANGLE_IDS.join(', ')}",
+      "characterNames": ["Characters visible in this shot"],
+      "action": "MUST BE IN ENGLISH: What this shot shows (subject, action, expression, composition)"
+    }
+  ],
+  "dialogue": [
+    {
+      "kind": "One of: speech, thought, narration",
+      "speaker": "Speaking character name (omit for narration)",
+      "text": "The line exactly as written (keep original language)",
+      "tone": "Delivery or emotion if given (keep original language)"
+    }
+  ]
+}
+
+RULES:
+1. Use only characters that actually appear in this scene text
+2. visualDescription MUST be written in ENGLISH and follow the style guide
+3. Propose 2-4 shots like a storyboard artist
+4. Never translate or paraphrase dialogue text`;
+
+  return generateValidatedJson(prompt, SCENE_ANALYSIS_SCHEMA, validateSceneAnalysis, { signal: options.signal });
+}
+
+const SAFETY_FINISH_REASONS = new Set<string>([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
 // 이미지 생성 (Nano Banana - gemini-2.5-flash-image)
 export async function generateSceneImage(
   prompt: string,
-  referenceImages: string[] = [],
-  aspectRatio: AspectRatio = '16:9'
+  referenceImages: (string | Blob)[] = [],
+  aspectRatio: AspectRatio = '16:9',
+  signal?: AbortSignal // 중지 - 기다리는 중이면 요청하지 않고, 요청 중이면 끊는다
 ): Promise<string> {
   const contents: any[] = [];
 
   for (const img of referenceImages.slice(0, 8)) {
-    const base64Data = img.includes(',') ? img.split(',')[1] : img;
+    // Blob은 base64 data URL로 변환해서 전달
+    const dataUrl = typeof img === 'string' ? img : await blobToDataUrl(img);
+    const base64Data = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+    const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || 'image/png';
     contents.push({
       inlineData: {
-        mimeType: 'image/png',
+        mimeType,
         data: base64Data,
       },
     });
@@ -138,16 +574,27 @@ export async function generateSceneImage(
 
   contents.push({ text: prompt });
 
-  const response = await getAI().models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: contents,
-    config: {
-      responseModalities: ['image', 'text'],
-      imageConfig: {
-        aspectRatio: aspectRatio,
-      },
-    },
-  });
+  const response = await scheduler.schedule(
+    () =>
+      getAI().models.generateContent({
+        model: 'gemini-2.5-flash-image',
+        contents: contents,
+        config: {
+          responseModalities: ['image', 'text'],
+          imageConfig: {
+            aspectRatio: aspectRatio,
+          },
+          abortSignal: signal,
+        },
+      }),
+    { signal, label: '이미지 생성' }
+  );
+
+  // 안전 필터에 걸린 프롬프트는 다시 요청해도 같은 결과
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new PermanentRequestError(`이미지 생성 실패: 프롬프트가 안전 필터에 걸렸습니다. (${blockReason}) 장면 설명을 수정해주세요.`);
+  }
 
   const candidates = response.candidates;
 
@@ -155,6 +602,11 @@ export async function generateSceneImage(
     throw new Error('이미지 생성 실패: 응답이 없습니다.');
   }
 
+  const finishReason = candidates[0].finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+    throw new PermanentRequestError(`이미지 생성 실패: 안전 필터에 걸렸습니다. (${finishReason}) 장면 설명을 수정해주세요.`);
+  }
+
   const parts = candidates[0].content?.parts || [];
 
   for (const part of parts) {
@@ -190,7 +642,7 @@ function getStyleModifier(style: ImageStyle): string {
   }
 }
 
-// 장면 프롬프트 생성
+// 장면 프롬프트 생성 (샷을 주면 그 샷의 구도와 동작으로)
 export function buildScenePrompt(
   scene: {
     location?: string;
@@ -203,9 +655,11 @@ export function buildScenePrompt(
     appearance: any;
     defaultOutfit?: string;
   }[],
-  style: ImageStyle = 'realistic'
+  style: ImageStyle = 'realistic',
+  shot?: Pick<Shot, 'size' | 'angle' | 'action'>
 ): string {
-  if (scene.userEditedPrompt) {
+  // 샷은 구도가 샷마다 달라야 하므로 수정한 장면 프롬프트는 장면 설명으로만 사용
+  if (scene.userEditedPrompt && !shot) {
     return scene.userEditedPrompt;
   }
 
@@ -236,8 +690,12 @@ CHARACTERS (match the reference images exactly):
 ${characterDescriptions}
 
 SCENE DESCRIPTION:
-${scene.visualDescription || 'No description'}
-
+${(shot && scene.userEditedPrompt) || scene.visualDescription || 'No description'}
+${shot ? `
+SHOT (compose the image as this single storyboard frame):
+- Framing: ${describeShotFraming(shot)}
+- Action: ${shot.action || 'as described in the scene'}
+` : ''}
 CRITICAL REQUIREMENTS:
 - Characters MUST match the provided reference images exactly
 - Maintain consistent facial features, hair style, and body proportions
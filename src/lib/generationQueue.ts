@@ -0,0 +1,549 @@
+// 이미지 생성 작업 큐 - 열려 있는 페이지와 상관없이 앱 전체에서 하나만 돌고,
+// localStorage에 저장해서 새로고침하거나 탭을 닫았다 열어도 남은 작업을 이어서 생성한다
+import { v4 as uuidv4 } from 'uuid';
+import type { Scene } from '../types';
+import { getProjectStore } from './projectStore';
+import type { AspectRatio, ImageStyle } from './gemini';
+import { getImageProvider, resolveImageProviderId, type ImageProvider } from './imageProviders';
+import { StorageQuotaError } from './storageQuota';
+import { PermanentRequestError, createConcurrencyLimiter, loadSchedulerSettings } from './requestScheduler';
+import { STORAGE_PREFIX, MAX_REFERENCE_IMAGES, saveData, loadData } from './storage';
+
+export type GenerationJobKind = 'scene' | 'shot' | 'character';
+export type GenerationJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  scriptId: string;
+  kind: GenerationJobKind;
+  targetId: string; // 장면 ID (장면/샷) 또는 캐릭터 ID
+  shotId?: string;
+  label: string; // 예: '장면 3 샷 2', '수아'
+  fileNamePrefix: string; // 저장하지 못한 이미지의 파일 이름
+  // 큐에 넣을 때의 프롬프트/참조 이미지/화풍/비율 (나중에 장면을 고쳐도 이 값으로 생성)
+  prompt: string;
+  referenceImageIds: string[];
+  style: ImageStyle;
+  aspectRatio: AspectRatio;
+  imageCount: number;
+  imageIds: string[]; // 지금까지 저장한 이미지 (중간에 끊기면 남은 장수만 생성)
+  status: GenerationJobStatus;
+  previousStatus?: Scene['status']; // 생성을 시작하기 전 장면/샷 상태 (중지하면 되돌린다)
+  cancelRequested?: boolean; // 중지 요청 - 큐를 돌리는 탭이 요청을 끊고 정리한다
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export type NewGenerationJob = Omit<
+  GenerationJob,
+  'id' | 'imageIds' | 'status' | 'previousStatus' | 'cancelRequested' | 'error' | 'createdAt' | 'finishedAt'
+>;
+
+interface QueueState {
+  jobs: GenerationJob[];
+  pausedScriptIds: string[];
+}
+
+// 저장공간이 부족해서 저장하지 못한 이미지 (메모리에만 있음 - 큐를 돌린 탭에서만 보인다)
+export interface UnsavedQueueImage {
+  id: string;
+  scriptId: string;
+  fileName: string;
+  blob: Blob;
+}
+
+const QUEUE_KEY = 'generationQueue';
+const LOCK_NAME = `${STORAGE_PREFIX}generation-queue`;
+const MAX_FINISHED_JOBS = 100; // 보관할 완료/실패 작업 수 (오래된 것부터 지움)
+// 이미지는 대본에 설정한 생성 엔진으로 만든다 (Gemini 요청 간격/재시도는 gemini.ts의 요청 스케줄러가 맡는다)
+
+const listeners = new Set<() => void>();
+const controllers = new Map<string, AbortController>(); // 이 탭에서 생성 중인 작업의 요청 중지용
+let unsavedImages: UnsavedQueueImage[] = [];
+let wakeUp: (() => void) | null = null;
+let started = false;
+// 모든 작업을 합쳐서 동시에 생성하는 이미지 수 제한 (동시 요청 수 설정)
+// Gemini 요청은 스케줄러도 같은 수로 제한하지만, 로컬 엔진(ComfyUI/AUTOMATIC1111)은 스케줄러를 거치지 않는다
+const imageLimiter = createConcurrencyLimiter(() => loadSchedulerSettings().maxConcurrent);
+
+function readState(): QueueState {
+  try {
+    return loadData<QueueState>(QUEUE_KEY) ?? { jobs: [], pausedScriptIds: [] };
+  } catch {
+    // 다른 버전의 앱이 쓴 값은 버린다
+    return { jobs: [], pausedScriptIds: [] };
+  }
+}
+
+function notify() {
+  // 다른 탭에서 누른 중지도 storage 이벤트로 여기까지 온다
+  if (controllers.size > 0) {
+    for (const job of readState().jobs) {
+      if (job.cancelRequested) controllers.get(job.id)?.abort();
+    }
+  }
+  listeners.forEach((listener) => listener());
+  wakeUp?.();
+}
+
+// 저장된 최신 상태를 바꿔서 다시 저장 (여러 탭이 같은 큐를 쓰므로 항상 새로 읽는다)
+function mutate(change: (state: QueueState) => QueueState): void {
+  const next = change(readState());
+  const finished = next.jobs.filter((job) => !isActive(job));
+  if (finished.length > MAX_FINISHED_JOBS) {
+    const dropped = new Set(
+      finished
+        .sort((a, b) => (a.finishedAt ?? '').localeCompare(b.finishedAt ?? ''))
+        .slice(0, finished.length - MAX_FINISHED_JOBS)
+        .map((job) => job.id)
+    );
+    next.jobs = next.jobs.filter((job) => !dropped.has(job.id));
+  }
+  saveData(QUEUE_KEY, next);
+  notify();
+}
+
+function updateJob(id: string, updates: Partial<GenerationJob>): void {
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs.map((job) => (job.id === id ? { ...job, ...updates } : job)),
+  }));
+}
+
+function isActive(job: GenerationJob): boolean {
+  return job.status === 'pending' || job.status === 'running';
+}
+
+function getJobTargetKey(job: Pick<GenerationJob, 'targetId' | 'shotId'>): string {
+  return job.shotId ?? job.targetId;
+}
+
+// ===== 조회/구독 =====
+
+export function getGenerationJobs(scriptId: string): GenerationJob[] {
+  return readState().jobs.filter((job) => job.scriptId === scriptId);
+}
+
+export function isQueuePaused(scriptId: string): boolean {
+  return readState().pausedScriptIds.includes(scriptId);
+}
+
+// 큐 작업이 들고 있는 이미지 ID - 생성해 둔 이미지와 참조 이미지 (저장공간 정리에서 지우지 않도록)
+export function getGenerationQueueImageIds(): string[] {
+  return readState().jobs.flatMap((job) => [...job.imageIds, ...job.referenceImageIds]);
+}
+
+export function getUnsavedQueueImages(scriptId: string): UnsavedQueueImage[] {
+  return unsavedImages.filter((image) => image.scriptId === scriptId);
+}
+
+export function dismissUnsavedQueueImage(id: string): void {
+  unsavedImages = unsavedImages.filter((image) => image.id !== id);
+  notify();
+}
+
+// 큐 변경 구독 (다른 탭의 변경 포함) - 구독 해제 함수 반환
+export function subscribeGenerationQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_PREFIX + QUEUE_KEY) notify();
+  });
+}
+
+// ===== 큐 조작 =====
+
+// 작업 추가 - 이미 대기/생성 중인 대상은 건너뛴다. 추가한 작업 수 반환
+export function enqueueGenerationJobs(newJobs: NewGenerationJob[]): number {
+  let added = 0;
+  mutate((state) => {
+    const activeKeys = new Set(state.jobs.filter(isActive).map(getJobTargetKey));
+    const jobs = newJobs
+      .filter((job) => !activeKeys.has(getJobTargetKey(job)))
+      .map(
+        (job): GenerationJob => ({
+          ...job,
+          id: uuidv4(),
+          imageIds: [],
+          status: 'pending',
+          createdAt: new Date().toISOString(),
+        })
+      );
+    added = jobs.length;
+    // 같은 대상의 예전 완료/실패 기록은 새 작업으로 대신한다
+    const replacedKeys = new Set(jobs.map(getJobTargetKey));
+    return {
+      ...state,
+      jobs: [...state.jobs.filter((job) => isActive(job) || !replacedKeys.has(getJobTargetKey(job))), ...jobs],
+    };
+  });
+  return added;
+}
+
+// 끝난 작업 기록 삭제
+export function removeGenerationJob(id: string): void {
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs.filter((job) => job.id !== id || isActive(job)),
+  }));
+}
+
+// 작업 중지 - 시작하지 않은 작업은 큐에서 빼고, 생성 중인 작업은 요청을 끊는다
+// (끊긴 작업은 이미 만든 이미지를 붙이고 장면/샷 상태를 생성 전으로 되돌린 뒤 '중지됨'으로 남는다)
+export function cancelGenerationJobs(ids: string[]): void {
+  const cancelled = new Set(ids);
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs
+      // 새로고침으로 끊겼다가 다시 대기 중인 작업은 저장한 이미지가 있어서 실행 중인 작업처럼 정리한다
+      .filter((job) => !(cancelled.has(job.id) && job.status === 'pending' && !job.previousStatus))
+      .map((job) => (cancelled.has(job.id) && isActive(job) ? { ...job, cancelRequested: true } : job)),
+  }));
+}
+
+// 실패하거나 중지한 작업을 처음부터 다시 대기열에
+export function retryGenerationJob(id: string): void {
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs.map((job) =>
+      job.id === id && (job.status === 'failed' || job.status === 'cancelled')
+        ? {
+            ...job,
+            status: 'pending',
+            imageIds: [],
+            previousStatus: undefined,
+            cancelRequested: undefined,
+            error: undefined,
+            finishedAt: undefined,
+          }
+        : job
+    ),
+  }));
+}
+
+// 같은 대본의 대기 중인 작업끼리 순서 바꾸기 (direction: -1 앞으로, 1 뒤로)
+export function moveGenerationJob(id: string, direction: -1 | 1): void {
+  mutate((state) => {
+    const jobs = [...state.jobs];
+    const index = jobs.findIndex((job) => job.id === id);
+    const job = jobs[index];
+    if (!job || job.status !== 'pending') return state;
+
+    const isNeighbor = (other: GenerationJob) => other.scriptId === job.scriptId && other.status === 'pending';
+    let other = index + direction;
+    while (other >= 0 && other < jobs.length && !isNeighbor(jobs[other])) {
+      other += direction;
+    }
+    if (other < 0 || other >= jobs.length) return state;
+
+    [jobs[index], jobs[other]] = [jobs[other], jobs[index]];
+    return { ...state, jobs };
+  });
+}
+
+// 일시 정지 - 생성 중인 작업은 마치고, 다음 작업부터 멈춘다
+export function setQueuePaused(scriptId: string, paused: boolean): void {
+  mutate((state) => ({
+    ...state,
+    pausedScriptIds: paused
+      ? [...new Set([...state.pausedScriptIds, scriptId])]
+      : state.pausedScriptIds.filter((id) => id !== scriptId),
+  }));
+}
+
+export function clearFinishedJobs(scriptId: string): void {
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs.filter((job) => job.scriptId !== scriptId || isActive(job)),
+  }));
+}
+
+// ===== 실행 =====
+
+// 큐가 바뀔 때까지 대기 (새 작업 추가, 일시 정지 해제 등)
+function waitForChange(): Promise<void> {
+  return new Promise((resolve) => {
+    wakeUp = () => {
+      wakeUp = null;
+      resolve();
+    };
+  });
+}
+
+// skipped: 이 탭에서 상태를 저장하지 못한 작업 - 다시 골라도 같은 오류로 끝나므로 건너뛴다
+function findNextJob(skipped: Set<string>): GenerationJob | undefined {
+  const { jobs, pausedScriptIds } = readState();
+  const pending = jobs.filter((job) => job.status === 'pending' && !skipped.has(job.id));
+  // 중지 요청된 작업은 정리만 하면 되므로 일시 정지 중이어도 먼저
+  return (
+    pending.find((job) => job.cancelRequested) ?? pending.find((job) => !pausedScriptIds.includes(job.scriptId))
+  );
+}
+
+// 캐릭터 참조 이미지 원본 (예전 데이터는 data URL 그대로)
+async function loadReferenceImages(imageIds: string[]): Promise<(Blob | string)[]> {
+  const blobs = await getProjectStore().getCharacterImages(imageIds);
+  return imageIds
+    .map((imageId) => (imageId.startsWith('data:') ? imageId : blobs[imageId]))
+    .filter((image): image is Blob | string => !!image)
+    .slice(0, 8);
+}
+
+interface TargetState {
+  imageCount: number;
+  status?: Scene['status']; // 장면/샷만
+}
+
+// 생성 대상의 현재 이미지 수와 상태 - 대상이 없어졌으면 오류
+async function getTargetState(job: GenerationJob): Promise<TargetState> {
+  const store = getProjectStore();
+  if (job.kind === 'character') {
+    const character = await store.getCharacter(job.targetId);
+    if (!character) throw new Error('캐릭터가 삭제되었습니다.');
+    if (character.referenceImages.length >= MAX_REFERENCE_IMAGES) {
+      throw new Error(`참조 이미지가 이미 ${MAX_REFERENCE_IMAGES}개입니다.`);
+    }
+    return { imageCount: character.referenceImages.length };
+  }
+  const scene = await store.getScene(job.targetId);
+  if (!scene) throw new Error('장면이 삭제되었습니다.');
+  const target = job.shotId ? scene.shots?.find((s) => s.id === job.shotId) : scene;
+  if (!target) throw new Error('샷이 삭제되었습니다.');
+  // 예전에 생성하다 멈춰서 생성 중으로 남은 대상은 대기로 본다
+  return {
+    imageCount: target.generatedImages.length,
+    status: target.status === 'generating' ? 'pending' : target.status,
+  };
+}
+
+// 작업을 시작할 때 대본의 엔진을 정한다 (큐에 넣은 뒤 엔진을 바꾸면 아직 시작하지 않은 작업부터 적용)
+async function getJobImageProvider(job: GenerationJob): Promise<ImageProvider> {
+  const script = await getProjectStore().getScript(job.scriptId);
+  return getImageProvider(resolveImageProviderId(script));
+}
+
+async function setTargetStatus(job: GenerationJob, status: Scene['status']): Promise<void> {
+  const store = getProjectStore();
+  if (job.kind === 'shot' && job.shotId) {
+    await store.updateShot(job.targetId, job.shotId, { status });
+  } else if (job.kind === 'scene') {
+    await store.updateScene(job.targetId, { status });
+  }
+}
+
+// 저장소의 최신 목록에 붙인다 (그 사이 다른 탭에서 추가한 이미지 유지)
+async function appendJobImages(
+  job: GenerationJob,
+  imageIds: string[],
+  updates: { selectedImage?: string; status: Scene['status'] }
+): Promise<void> {
+  const store = getProjectStore();
+  if (job.kind === 'character') {
+    // 캐릭터는 대표 이미지가 없을 때만 첫 이미지 선택
+    await store.appendCharacterImages(job.targetId, imageIds, `${job.label} 이미지 추가`);
+  } else if (job.shotId) {
+    await store.appendShotImages(job.targetId, job.shotId, imageIds, updates);
+  } else {
+    await store.appendSceneImages(job.targetId, imageIds, updates);
+  }
+}
+
+// 중지한 작업 정리 - 이미 만든 이미지는 붙이고, 장면/샷 상태는 생성 전으로 되돌린다
+async function finishCancelledJob(
+  job: GenerationJob,
+  imageIds: string[],
+  previousStatus: Scene['status'] | undefined
+): Promise<void> {
+  try {
+    const status = previousStatus ?? 'pending';
+    if (imageIds.length > 0) {
+      await appendJobImages(job, imageIds, { status });
+    } else {
+      await setTargetStatus(job, status);
+    }
+  } catch (err) {
+    console.error(`${job.label} 중지 후 정리 실패:`, err);
+  }
+  updateJob(job.id, { status: 'cancelled', imageIds, error: undefined, finishedAt: new Date().toISOString() });
+}
+
+async function runJob(job: GenerationJob): Promise<void> {
+  const store = getProjectStore();
+  const imageIds = [...job.imageIds];
+  const controller = new AbortController();
+  const { signal } = controller;
+  controllers.set(job.id, controller);
+  if (job.cancelRequested) controller.abort();
+  // 이미지를 동시에 요청하므로 각 요청에서 바꾼다
+  let storageFull = false as boolean;
+  // 새로고침 후 이어서 생성할 때는 처음 시작할 때 기록한 상태를 쓴다
+  let previousStatus = job.previousStatus;
+
+  try {
+    // 큐 상태 저장도 실패할 수 있으므로 (저장공간 부족) try 안에서 - 실패하면 아래에서 작업을 실패로 처리
+    updateJob(job.id, { status: 'running', error: undefined });
+    const target = await getTargetState(job);
+    const existingImageCount = target.imageCount;
+    if (!previousStatus && target.status) {
+      previousStatus = target.status;
+      updateJob(job.id, { previousStatus });
+    }
+    // 상태를 읽는 사이에 중지했으면 '생성 중'으로 바꾸지 않고 바로 정리한다
+    if (signal.aborted) {
+      await finishCancelledJob(job, imageIds, previousStatus);
+      return;
+    }
+    await setTargetStatus(job, 'generating');
+    const provider = await getJobImageProvider(job);
+    const referenceImages = provider.usesReferenceImages ? await loadReferenceImages(job.referenceImageIds) : [];
+    let permanentError = null as PermanentRequestError | null;
+
+    // 남은 이미지를 한꺼번에 요청 - 동시에 생성하는 수는 imageLimiter가 모든 작업을 합쳐서 맞춘다
+    const remaining = Array.from({ length: job.imageCount - imageIds.length }, (_, n) => imageIds.length + n);
+    await Promise.all(remaining.map(async (i) => {
+      // 중지했거나, 앞서 끝난 이미지에서 다시 시도해도 소용없는 오류가 났으면 요청하지 않는다
+      if (signal.aborted || storageFull || permanentError) return;
+      try {
+        const imageData = await imageLimiter.run(
+          () => provider.generate({ prompt: job.prompt, referenceImages, aspectRatio: job.aspectRatio, signal }),
+          signal
+        );
+        const imageIndex = existingImageCount + i;
+        const imageId =
+          job.kind === 'character'
+            ? await store.saveCharacterImage(job.scriptId, job.targetId, imageIndex, imageData)
+            : await store.saveImage(job.scriptId, job.targetId, imageIndex, imageData);
+        imageIds.push(imageId);
+        updateJob(job.id, { imageIds: [...imageIds] });
+      } catch (err) {
+        if (signal.aborted) return;
+        // 저장공간 부족: 생성한 이미지는 메모리에 남겨 다운로드할 수 있게 하고 중단
+        if (err instanceof StorageQuotaError) {
+          const blob = err.blob;
+          if (blob) {
+            unsavedImages = [
+              ...unsavedImages,
+              { id: `${job.id}_${i}`, scriptId: job.scriptId, fileName: `${job.fileNamePrefix}_${i + 1}.png`, blob },
+            ];
+          }
+          storageFull = true;
+          return;
+        }
+        // API 키 오류, 안전 필터 차단 등은 남은 이미지도 똑같이 실패한다
+        if (err instanceof PermanentRequestError) {
+          permanentError = err;
+          return;
+        }
+        console.error(`${job.label} 이미지 ${i + 1} 생성 실패:`, err);
+        // 하나 실패해도 계속 진행 (Gemini 요청 한도/서버 오류는 스케줄러가 이미 다시 시도했다)
+      }
+    }));
+
+    if (signal.aborted) {
+      await finishCancelledJob(job, imageIds, previousStatus);
+      return;
+    }
+    if (storageFull) {
+      // 저장공간이 가득 차면 남은 작업은 생성하지 않는다
+      setQueuePaused(job.scriptId, true);
+    }
+    if (imageIds.length > 0) {
+      // 첫 번째를 기본 선택
+      await appendJobImages(job, imageIds, { selectedImage: imageIds[0], status: 'completed' });
+    } else if (storageFull) {
+      throw new StorageQuotaError('저장공간이 부족해서 이미지를 저장하지 못했습니다. 저장하지 못한 이미지를 다운로드해주세요.');
+    } else if (permanentError) {
+      throw permanentError;
+    } else {
+      throw new Error('이미지 생성에 모두 실패했습니다.');
+    }
+
+    updateJob(job.id, {
+      status: 'done',
+      imageIds,
+      error: storageFull ? '저장공간이 부족해서 일부 이미지를 저장하지 못했습니다.' : permanentError?.message,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    if (signal.aborted) {
+      await finishCancelledJob(job, imageIds, previousStatus);
+      return;
+    }
+    console.error(`${job.label} 이미지 생성 실패:`, err);
+    updateJob(job.id, {
+      status: 'failed',
+      error: err instanceof Error ? err.message : '이미지 생성 중 오류가 발생했습니다.',
+      finishedAt: new Date().toISOString(),
+    });
+    try {
+      await setTargetStatus(job, 'failed');
+    } catch (updateErr) {
+      console.error('상태 저장 실패:', updateErr);
+    }
+  } finally {
+    controllers.delete(job.id);
+  }
+}
+
+async function runQueue(): Promise<never> {
+  // 큐를 돌리던 탭이 닫히거나 새로고침되면서 끊긴 작업은 다시 대기열로 (저장한 이미지는 유지)
+  mutate((state) => ({
+    ...state,
+    jobs: state.jobs.map((job) => (job.status === 'running' ? { ...job, status: 'pending' } : job)),
+  }));
+
+  // 동시 요청 수만큼 작업을 함께 진행 (작업이 끝나면 큐가 바뀌어서 다음 작업을 찾는다)
+  const running = new Set<string>();
+  const skipped = new Set<string>();
+  for (;;) {
+    const job =
+      running.size < Math.max(1, loadSchedulerSettings().maxConcurrent) ? findNextJob(skipped) : undefined;
+    if (!job) {
+      await waitForChange();
+      continue;
+    }
+    running.add(job.id);
+    // runJob은 시작하자마자 작업을 생성 중으로 바꾸므로 다음 findNextJob에서 다시 고르지 않는다
+    runJob(job)
+      .catch((err) => {
+        // runJob이 실패 처리까지 못 했을 때 (큐 상태 저장 실패 등)
+        console.error(`${job.label} 이미지 생성 실패:`, err);
+        try {
+          updateJob(job.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : '이미지 생성 중 오류가 발생했습니다.',
+            finishedAt: new Date().toISOString(),
+          });
+        } catch (updateErr) {
+          console.error('생성 큐 상태 저장 실패:', updateErr);
+          skipped.add(job.id);
+        }
+      })
+      .finally(() => {
+        running.delete(job.id);
+        notify();
+      });
+  }
+}
+
+// 앱 시작 시 한 번 호출 - 여러 탭이 열려 있으면 Web Locks로 한 탭만 큐를 돌리고,
+// 그 탭이 닫히면 다음 탭이 이어받는다
+export function startGenerationQueue(): void {
+  if (started) return;
+  started = true;
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    navigator.locks.request(LOCK_NAME, () => runQueue()).catch((err) => {
+      console.error('생성 큐 실행 실패:', err);
+    });
+  } else {
+    runQueue().catch((err) => {
+      console.error('생성 큐 실행 실패:', err);
+    });
+  }
+}
@@ -0,0 +1,354 @@
+// 편집 기록 (실행 취소/다시 실행) 및 재분석 전 스냅샷
+import { v4 as uuidv4 } from 'uuid';
+import type { Script, Character, Scene } from '../types';
+import { initDB, STORE_NAMES, requestToPromise, transactionDone } from './db';
+import { getSceneImageIds } from './shots';
+
+const MAX_HISTORY_ENTRIES = 100; // 대본별 최대 기록 수
+const MAX_SNAPSHOTS = 10; // 대본별 최대 스냅샷 수
+
+export type HistoryStoreName =
+  | typeof STORE_NAMES.scripts
+  | typeof STORE_NAMES.characters
+  | typeof STORE_NAMES.scenes;
+
+type HistoryRecord = Script | Character | Scene;
+
+// 엔티티 하나의 변경 전/후 (before가 null이면 생성, after가 null이면 삭제)
+export interface EntityChange {
+  storeName: HistoryStoreName;
+  id: string;
+  before: HistoryRecord | null;
+  after: HistoryRecord | null;
+}
+
+export interface HistoryEntry {
+  id?: number; // autoIncrement - 기록 순서
+  scriptId: string;
+  label: string;
+  changes: EntityChange[];
+  undone: boolean;
+  createdAt: string;
+}
+
+export interface ScriptSnapshot {
+  id: string;
+  scriptId: string;
+  label: string;
+  script: Script;
+  characters: Character[];
+  scenes: Scene[];
+  createdAt: string;
+}
+
+export interface HistoryState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+// 변경 기록에 필요한 스토어 (기록 + 대상 엔티티)
+export const HISTORY_STORES = [
+  STORE_NAMES.history,
+  STORE_NAMES.scripts,
+  STORE_NAMES.characters,
+  STORE_NAMES.scenes,
+];
+
+// updatedAt을 제외하고 값이 달라진 필드
+function changedKeys(a: HistoryRecord, b: HistoryRecord): string[] {
+  const left = a as unknown as Record<string, unknown>;
+  const right = b as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  keys.delete('updatedAt');
+  return [...keys].filter((key) => JSON.stringify(left[key]) !== JSON.stringify(right[key]));
+}
+
+function isNoop(change: EntityChange): boolean {
+  if (!change.before || !change.after) return false;
+  return changedKeys(change.before, change.after).length === 0;
+}
+
+// 레코드 목록 두 개를 비교해서 변경 목록 생성 (재분석, 스냅샷 복원용)
+export function diffRecords(
+  storeName: HistoryStoreName,
+  before: HistoryRecord[],
+  after: HistoryRecord[]
+): EntityChange[] {
+  const beforeMap = new Map(before.map((record) => [record.id, record]));
+  const afterMap = new Map(after.map((record) => [record.id, record]));
+  const changes: EntityChange[] = [];
+  for (const record of before) {
+    changes.push({ storeName, id: record.id, before: record, after: afterMap.get(record.id) ?? null });
+  }
+  for (const record of after) {
+    if (!beforeMap.has(record.id)) {
+      changes.push({ storeName, id: record.id, before: null, after: record });
+    }
+  }
+  return changes.filter((change) => !isNoop(change));
+}
+
+async function getEntries(transaction: IDBTransaction, scriptId: string): Promise<HistoryEntry[]> {
+  const index = transaction.objectStore(STORE_NAMES.history).index('scriptId');
+  // 같은 scriptId 안에서는 기본 키(autoIncrement) 순서로 반환된다
+  return requestToPromise<HistoryEntry[]>(index.getAll(scriptId));
+}
+
+// 변경 기록 추가 - 호출한 쪽의 트랜잭션(history 스토어 포함) 안에서 실행
+export async function recordChanges(
+  transaction: IDBTransaction,
+  scriptId: string,
+  label: string,
+  changes: EntityChange[]
+): Promise<void> {
+  const meaningful = changes.filter((change) => !isNoop(change));
+  if (meaningful.length === 0) return;
+
+  const store = transaction.objectStore(STORE_NAMES.history);
+  const entries = await getEntries(transaction, scriptId);
+
+  // 새 편집이 생기면 다시 실행할 기록은 버린다
+  const active = entries.filter((entry) => {
+    if (entry.undone) {
+      store.delete(entry.id!);
+      return false;
+    }
+    return true;
+  });
+
+  // 오래된 기록 정리
+  for (const entry of active.slice(0, Math.max(0, active.length - MAX_HISTORY_ENTRIES + 1))) {
+    store.delete(entry.id!);
+  }
+
+  store.add({
+    scriptId,
+    label,
+    changes: meaningful,
+    undone: false,
+    createdAt: new Date().toISOString(),
+  } satisfies HistoryEntry);
+}
+
+// from 상태를 to 상태로 되돌리기
+async function applyChange(
+  transaction: IDBTransaction,
+  change: EntityChange,
+  from: HistoryRecord | null,
+  to: HistoryRecord | null
+): Promise<void> {
+  const store = transaction.objectStore(change.storeName);
+  if (!to) {
+    store.delete(change.id);
+    return;
+  }
+  if (!from) {
+    store.put(to);
+    return;
+  }
+
+  const current = await requestToPromise<HistoryRecord | undefined>(store.get(change.id));
+  // 그 사이 삭제된 레코드는 되살리지 않는다
+  if (!current) return;
+
+  // 이 편집에서 바뀐 필드만 되돌려서 이후의 다른 변경(이미지 생성 등)은 유지
+  const source = to as unknown as Record<string, unknown>;
+  const next = { ...current } as unknown as Record<string, unknown>;
+  for (const key of changedKeys(from, to)) {
+    if (key in source) {
+      next[key] = source[key];
+    } else {
+      delete next[key];
+    }
+  }
+  next.updatedAt = new Date().toISOString();
+  store.put(next);
+}
+
+// 실행 취소 - 되돌린 기록의 이름 반환 (없으면 null)
+export async function undo(scriptId: string): Promise<string | null> {
+  const database = await initDB();
+  const transaction = database.transaction(HISTORY_STORES, 'readwrite');
+  const done = transactionDone(transaction);
+
+  const entries = await getEntries(transaction, scriptId);
+  const entry = entries.filter((e) => !e.undone).pop();
+  if (entry) {
+    for (const change of [...entry.changes].reverse()) {
+      await applyChange(transaction, change, change.after, change.before);
+    }
+    transaction.objectStore(STORE_NAMES.history).put({ ...entry, undone: true });
+  }
+
+  await done;
+  return entry?.label ?? null;
+}
+
+// 다시 실행 - 다시 적용한 기록의 이름 반환 (없으면 null)
+export async function redo(scriptId: string): Promise<string | null> {
+  const database = await initDB();
+  const transaction = database.transaction(HISTORY_STORES, 'readwrite');
+  const done = transactionDone(transaction);
+
+  const entries = await getEntries(transaction, scriptId);
+  const entry = entries.find((e) => e.undone);
+  if (entry) {
+    for (const change of entry.changes) {
+      await applyChange(transaction, change, change.before, change.after);
+    }
+    transaction.objectStore(STORE_NAMES.history).put({ ...entry, undone: false });
+  }
+
+  await done;
+  return entry?.label ?? null;
+}
+
+export async function getHistoryState(scriptId: string): Promise<HistoryState> {
+  const database = await initDB();
+  const transaction = database.transaction([STORE_NAMES.history], 'readonly');
+  const entries = await getEntries(transaction, scriptId);
+  return {
+    undoLabel: entries.filter((e) => !e.undone).pop()?.label ?? null,
+    redoLabel: entries.find((e) => e.undone)?.label ?? null,
+  };
+}
+
+// ===== 스냅샷 =====
+
+// 대본 전체(대본/캐릭터/장면) 스냅샷 저장 - 재분석 전에 자동으로 호출
+export async function createSnapshot(scriptId: string, label: string): Promise<ScriptSnapshot | null> {
+  const database = await initDB();
+  const transaction = database.transaction(
+    [STORE_NAMES.snapshots, STORE_NAMES.scripts, STORE_NAMES.characters, STORE_NAMES.scenes],
+    'readwrite'
+  );
+  const done = transactionDone(transaction);
+
+  const [script, characters, scenes, existing] = await Promise.all([
+    requestToPromise<Script | undefined>(transaction.objectStore(STORE_NAMES.scripts).get(scriptId)),
+    requestToPromise<Character[]>(transaction.objectStore(STORE_NAMES.characters).index('scriptId').getAll(scriptId)),
+    requestToPromise<Scene[]>(transaction.objectStore(STORE_NAMES.scenes).index('scriptId').getAll(scriptId)),
+    requestToPromise<ScriptSnapshot[]>(transaction.objectStore(STORE_NAMES.snapshots).index('scriptId').getAll(scriptId)),
+  ]);
+
+  let snapshot: ScriptSnapshot | null = null;
+  if (script) {
+    const store = transaction.objectStore(STORE_NAMES.snapshots);
+    snapshot = {
+      id: uuidv4(),
+      scriptId,
+      label,
+      script,
+      characters,
+      scenes,
+      createdAt: new Date().toISOString(),
+    };
+    store.put(snapshot);
+
+    // 오래된 스냅샷 정리
+    const sorted = existing.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const old of sorted.slice(0, Math.max(0, sorted.length - MAX_SNAPSHOTS + 1))) {
+      store.delete(old.id);
+    }
+  }
+
+  await done;
+  return snapshot;
+}
+
+// 최신순
+export async function listSnapshots(scriptId: string): Promise<ScriptSnapshot[]> {
+  const database = await initDB();
+  const transaction = database.transaction([STORE_NAMES.snapshots], 'readonly');
+  const snapshots = await requestToPromise<ScriptSnapshot[]>(
+    transaction.objectStore(STORE_NAMES.snapshots).index('scriptId').getAll(scriptId)
+  );
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([STORE_NAMES.snapshots], 'readwrite');
+  transaction.objectStore(STORE_NAMES.snapshots).delete(id);
+  await transactionDone(transaction);
+}
+
+// 스냅샷 복원 (복원 자체도 기록에 남겨서 실행 취소 가능)
+export async function restoreSnapshot(id: string): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([...HISTORY_STORES, STORE_NAMES.snapshots], 'readwrite');
+  const done = transactionDone(transaction);
+
+  const snapshot = await requestToPromise<ScriptSnapshot | undefined>(
+    transaction.objectStore(STORE_NAMES.snapshots).get(id)
+  );
+  if (!snapshot) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw new Error('스냅샷을 찾을 수 없습니다.');
+  }
+
+  const scriptStore = transaction.objectStore(STORE_NAMES.scripts);
+  const characterStore = transaction.objectStore(STORE_NAMES.characters);
+  const sceneStore = transaction.objectStore(STORE_NAMES.scenes);
+  const [script, characters, scenes] = await Promise.all([
+    requestToPromise<Script | undefined>(scriptStore.get(snapshot.scriptId)),
+    requestToPromise<Character[]>(characterStore.index('scriptId').getAll(snapshot.scriptId)),
+    requestToPromise<Scene[]>(sceneStore.index('scriptId').getAll(snapshot.scriptId)),
+  ]);
+
+  const changes = [
+    ...diffRecords(STORE_NAMES.scripts, script ? [script] : [], [snapshot.script]),
+    ...diffRecords(STORE_NAMES.characters, characters, snapshot.characters),
+    ...diffRecords(STORE_NAMES.scenes, scenes, snapshot.scenes),
+  ];
+  for (const change of changes) {
+    const store = transaction.objectStore(change.storeName);
+    if (change.after) {
+      store.put(change.after);
+    } else {
+      store.delete(change.id);
+    }
+  }
+  await recordChanges(transaction, snapshot.scriptId, `스냅샷 복원 (${snapshot.label})`, changes);
+
+  await done;
+}
+
+// 대본 삭제 시 기록/스냅샷도 함께 삭제 (history, snapshots 스토어를 포함한 트랜잭션)
+export async function deleteHistoryByScript(transaction: IDBTransaction, scriptId: string): Promise<void> {
+  await Promise.all(
+    [STORE_NAMES.history, STORE_NAMES.snapshots].map(async (storeName) => {
+      const store = transaction.objectStore(storeName);
+      const keys = await requestToPromise(store.index('scriptId').getAllKeys(scriptId));
+      for (const key of keys) {
+        store.delete(key);
+      }
+    })
+  );
+}
+
+// 기록/스냅샷이 참조하는 이미지 ID (저장공간 정리에서 지우지 않도록)
+// transaction: history, snapshots 스토어를 포함한 트랜잭션 (없으면 새로 연다)
+export async function getHistoryImageIds(transaction?: IDBTransaction): Promise<Set<string>> {
+  const tx = transaction ?? (await initDB()).transaction([STORE_NAMES.history, STORE_NAMES.snapshots], 'readonly');
+  const [entries, snapshots] = await Promise.all([
+    requestToPromise<HistoryEntry[]>(tx.objectStore(STORE_NAMES.history).getAll()),
+    requestToPromise<ScriptSnapshot[]>(tx.objectStore(STORE_NAMES.snapshots).getAll()),
+  ]);
+
+  const records: (HistoryRecord | null)[] = [
+    ...entries.flatMap((entry) => entry.changes.flatMap((change) => [change.before, change.after])),
+    ...snapshots.flatMap((snapshot) => [...snapshot.characters, ...snapshot.scenes]),
+  ];
+
+  const ids = new Set<string>();
+  for (const record of records) {
+    if (!record) continue;
+    if ('generatedImages' in record) record.generatedImages.forEach((imageId) => ids.add(imageId));
+    if ('referenceImages' in record) record.referenceImages.forEach((imageId) => ids.add(imageId));
+    if ('selectedImage' in record && record.selectedImage) ids.add(record.selectedImage);
+    if ('shots' in record) getSceneImageIds(record).forEach((imageId) => ids.add(imageId));
+  }
+  return ids;
+}
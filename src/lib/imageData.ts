@@ -0,0 +1,96 @@
+// 이미지 데이터 변환 (data URL <-> Blob) 및 썸네일 생성
+import type { AspectRatio } from './gemini';
+
+export const THUMBNAIL_MAX_SIZE = 256;
+
+// 같은 밀리초에 저장하는 이미지끼리 ID가 겹치지 않도록 (한 장면의 여러 샷을 동시에 생성할 때)
+let imageIdSequence = 0;
+
+function createImageIdSuffix(): string {
+  imageIdSequence = (imageIdSequence + 1) % 1000;
+  return `${Date.now()}_${imageIdSequence}`;
+}
+
+// 이미지 ID (저장소 구현과 관계없이 같은 형식)
+export function createSceneImageId(sceneId: string, imageIndex: number): string {
+  return `${sceneId}_${imageIndex}_${createImageIdSuffix()}`;
+}
+
+export function createCharacterImageId(characterId: string, imageIndex: number): string {
+  return `char_${characterId}_${imageIndex}_${createImageIdSuffix()}`;
+}
+
+// data URL -> Blob
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new Error('잘못된 이미지 데이터입니다.');
+  }
+  const mimeType = match[1] || 'image/png';
+  const binary = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+// Blob -> data URL (Gemini 요청처럼 base64가 필요한 곳에서 사용)
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 비율에 맞는 이미지 크기 - 넓이를 baseSize 정사각형과 비슷하게 맞추고 64의 배수로 (Stable Diffusion 잠재 공간 크기)
+export function getImageSize(aspectRatio: AspectRatio, baseSize: number = 1024): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const scale = Math.sqrt((baseSize * baseSize) / (w * h));
+  return {
+    width: Math.max(64, Math.round((w * scale) / 64) * 64),
+    height: Math.max(64, Math.round((h * scale) / 64) * 64),
+  };
+}
+
+// 작은 썸네일 생성 (실패하면 null - 원본으로 대신 표시)
+export async function createThumbnail(blob: Blob, maxSize: number = THUMBNAIL_MAX_SIZE): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      return null;
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    return await new Promise<Blob | null>((resolve) => {
+      canvas.toBlob((result) => resolve(result), 'image/webp', 0.8);
+    });
+  } catch (err) {
+    console.error('썸네일 생성 실패:', err);
+    return null;
+  }
+}
+
+// 브라우저 다운로드
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,118 @@
+// 이미지 생성 엔진 - 프롬프트, 참조 이미지, 비율을 받아 이미지 한 장을 만든다
+// 대본마다 엔진을 고를 수 있고 (Script.imageProvider), 고르지 않은 대본은 설정의 기본 엔진을 쓴다
+import type { ImageProviderId, Script } from '../types';
+import { saveData, loadData } from './storage';
+import { generateSceneImage, type AspectRatio } from './gemini';
+import { generateWithA1111, generateWithComfyUI } from './localDiffusion';
+import { generatePlaceholderImage } from './placeholderImage';
+
+export type { ImageProviderId };
+
+export interface ImageRequest {
+  prompt: string;
+  referenceImages: (Blob | string)[]; // 캐릭터 참조 이미지 (usesReferenceImages인 엔진만 사용)
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal; // 중지 - 끊으면 AbortError로 실패
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  usesReferenceImages: boolean;
+  generate(request: ImageRequest): Promise<Blob | string>;
+}
+
+export const IMAGE_PROVIDERS: { id: ImageProviderId; name: string; description: string }[] = [
+  { id: 'gemini', name: 'Gemini', description: 'gemini-2.5-flash-image - 캐릭터 참조 이미지로 외모를 맞춤' },
+  { id: 'comfyui', name: 'ComfyUI', description: '로컬 ComfyUI 서버 - 기본 txt2img 또는 직접 만든 워크플로' },
+  { id: 'a1111', name: 'AUTOMATIC1111', description: '로컬 Stable Diffusion WebUI 서버 (txt2img)' },
+  { id: 'placeholder', name: '자리 표시 이미지', description: '오프라인 개발용 - 프롬프트를 적어 넣은 이미지 (같은 프롬프트면 같은 이미지)' },
+];
+
+export function getImageProviderName(id: ImageProviderId): string {
+  return IMAGE_PROVIDERS.find((provider) => provider.id === id)?.name ?? id;
+}
+
+// 엔진 설정 (localStorage)
+export interface ImageProviderSettings {
+  defaultProvider: ImageProviderId;
+  comfyui: { url: string; checkpoint: string; workflow: string };
+  a1111: { url: string };
+  steps: number; // 로컬 엔진의 샘플링 단계 수
+  negativePrompt: string; // 로컬 엔진의 네거티브 프롬프트
+}
+
+export const DEFAULT_IMAGE_PROVIDER_SETTINGS: ImageProviderSettings = {
+  defaultProvider: 'gemini',
+  comfyui: { url: 'http://127.0.0.1:8188', checkpoint: 'sd_xl_base_1.0.safetensors', workflow: '' },
+  a1111: { url: 'http://127.0.0.1:7860' },
+  steps: 25,
+  negativePrompt: 'lowres, blurry, bad anatomy, bad hands, extra fingers, watermark, signature',
+};
+
+const SETTINGS_KEY = 'imageProviders';
+
+export function loadImageProviderSettings(): ImageProviderSettings {
+  const saved = loadData<Partial<ImageProviderSettings>>(SETTINGS_KEY);
+  return {
+    ...DEFAULT_IMAGE_PROVIDER_SETTINGS,
+    ...saved,
+    comfyui: { ...DEFAULT_IMAGE_PROVIDER_SETTINGS.comfyui, ...saved?.comfyui },
+    a1111: { ...DEFAULT_IMAGE_PROVIDER_SETTINGS.a1111, ...saved?.a1111 },
+  };
+}
+
+export function saveImageProviderSettings(settings: ImageProviderSettings): void {
+  saveData(SETTINGS_KEY, settings);
+}
+
+// 대본에 쓸 엔진 ID
+export function resolveImageProviderId(
+  script: Pick<Script, 'imageProvider'> | undefined,
+  settings: ImageProviderSettings = loadImageProviderSettings()
+): ImageProviderId {
+  return script?.imageProvider ?? settings.defaultProvider;
+}
+
+// 엔진 생성 - 설정은 만들 때 읽어 둔다 (작업 하나 동안 같은 설정으로 생성)
+export function getImageProvider(
+  id: ImageProviderId,
+  settings: ImageProviderSettings = loadImageProviderSettings()
+): ImageProvider {
+  const localRequest = (request: ImageRequest) => ({
+    prompt: request.prompt,
+    negativePrompt: settings.negativePrompt,
+    aspectRatio: request.aspectRatio,
+    steps: settings.steps,
+    signal: request.signal,
+  });
+
+  switch (id) {
+    case 'comfyui':
+      return {
+        id,
+        usesReferenceImages: false,
+        generate: (request) => generateWithComfyUI(settings.comfyui, localRequest(request)),
+      };
+    case 'a1111':
+      return {
+        id,
+        usesReferenceImages: false,
+        generate: (request) => generateWithA1111(settings.a1111.url, localRequest(request)),
+      };
+    case 'placeholder':
+      return {
+        id,
+        usesReferenceImages: false,
+        generate: (request) => generatePlaceholderImage(request.prompt, request.aspectRatio, request.signal),
+      };
+    case 'gemini':
+    default:
+      // 요청 간격/재시도는 gemini.ts의 요청 스케줄러가 맡는다
+      return {
+        id: 'gemini',
+        usesReferenceImages: true,
+        generate: (request) =>
+          generateSceneImage(request.prompt, request.referenceImages, request.aspectRatio, request.signal),
+      };
+  }
+}
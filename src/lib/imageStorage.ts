@@ -1,186 +1,373 @@
 // IndexedDB를 사용한 이미지 저장소
-const DB_NAME = 'script-image-generator-images';
-const DB_VERSION = 2;
-const STORE_NAME = 'images';
-const CHAR_STORE_NAME = 'character-images';
+// 원본은 Blob으로, 목록 표시용 작은 썸네일은 별도 스토어에 저장한다.
+import { initDB, STORE_NAMES, requestToPromise, transactionDone } from './db';
+import { dataUrlToBlob, createThumbnail, createSceneImageId, createCharacterImageId } from './imageData';
+import { StorageQuotaError } from './storageQuota';
+
+const STORE_NAME = STORE_NAMES.images;
+const CHAR_STORE_NAME = STORE_NAMES.characterImages;
+const THUMB_STORE_NAME = STORE_NAMES.thumbnails;
+
+// 이미지 레코드 (images / character-images 공통)
+export interface StoredImage {
+  id: string;
+  scriptId: string;
+  sceneId?: string;
+  characterId?: string;
+  imageIndex: number;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  data?: string; // 예전 base64 data URL (마이그레이션 전 레코드)
+}
 
-let db: IDBDatabase | null = null;
+// 썸네일 레코드 (이미지 ID와 같은 키)
+interface StoredThumbnail {
+  id: string;
+  blob: Blob;
+}
 
-// DB 초기화
-async function initDB(): Promise<IDBDatabase> {
-  if (db) return db;
+// 이미지 저장 (data URL 또는 Blob)
+export async function saveImage(
+  scriptId: string,
+  sceneId: string,
+  imageIndex: number,
+  imageData: Blob | string
+): Promise<string> {
+  const imageId = createSceneImageId(sceneId, imageIndex);
+  await putImage(STORE_NAME, { id: imageId, scriptId, sceneId, imageIndex }, imageData);
+  return imageId;
+}
 
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// 이미지 가져오기
+export async function getImage(imageId: string): Promise<Blob | null> {
+  const images = await getImages([imageId]);
+  return images[imageId] || null;
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      db = request.result;
-      resolve(db);
-    };
+// 여러 이미지 한 번에 가져오기 (하나의 트랜잭션) - ID -> 원본
+export function getImages(imageIds: string[]): Promise<Record<string, Blob>> {
+  return getManyByIds(STORE_NAME, imageIds);
+}
 
-    request.onupgradeneeded = (event) => {
-      const database = (event.target as IDBOpenDBRequest).result;
-      if (!database.objectStoreNames.contains(STORE_NAME)) {
-        database.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-      if (!database.objectStoreNames.contains(CHAR_STORE_NAME)) {
-        database.createObjectStore(CHAR_STORE_NAME, { keyPath: 'id' });
-      }
-    };
-  });
+// 여러 이미지 썸네일 한 번에 가져오기 (썸네일이 없으면 원본)
+export function getThumbnails(imageIds: string[]): Promise<Record<string, Blob>> {
+  return getThumbnailsFrom(STORE_NAME, imageIds);
 }
 
-// 이미지 저장
-export async function saveImage(sceneId: string, imageIndex: number, imageData: string): Promise<string> {
-  const database = await initDB();
-  const imageId = `${sceneId}_${imageIndex}_${Date.now()}`;
+// 장면의 모든 이미지 가져오기
+export function getImagesByScene(sceneId: string): Promise<{ id: string; blob: Blob }[]> {
+  return getByIndex(STORE_NAME, 'sceneId', sceneId);
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-
-    const request = store.put({
-      id: imageId,
-      sceneId,
-      imageIndex,
-      data: imageData,
-      createdAt: new Date().toISOString(),
-    });
+// 이미지 삭제
+export function deleteImage(imageId: string): Promise<void> {
+  return deleteByIds(STORE_NAME, [imageId]);
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(imageId);
-  });
+// 장면의 모든 이미지 삭제
+export async function deleteImagesByScene(sceneId: string): Promise<void> {
+  await deleteImagesByScenes([sceneId]);
 }
 
-// 이미지 가져오기
-export async function getImage(imageId: string): Promise<string | null> {
-  const database = await initDB();
+// 여러 장면의 이미지 한 번에 삭제
+export async function deleteImagesByScenes(sceneIds: string[]): Promise<void> {
+  if (sceneIds.length === 0) return;
+  await deleteByOwner(STORE_NAME, 'sceneId', sceneIds);
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(imageId);
+// ===== 캐릭터 이미지 관련 함수 =====
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      resolve(request.result?.data || null);
-    };
-  });
+// 캐릭터 이미지 저장 (data URL 또는 Blob)
+export async function saveCharacterImage(
+  scriptId: string,
+  characterId: string,
+  imageIndex: number,
+  imageData: Blob | string
+): Promise<string> {
+  const imageId = createCharacterImageId(characterId, imageIndex);
+  await putImage(CHAR_STORE_NAME, { id: imageId, scriptId, characterId, imageIndex }, imageData);
+  return imageId;
 }
 
-// 장면의 모든 이미지 가져오기
-export async function getImagesByScene(sceneId: string): Promise<{ id: string; data: string }[]> {
-  const database = await initDB();
+// 캐릭터 이미지 가져오기
+export async function getCharacterImage(imageId: string): Promise<Blob | null> {
+  const images = await getCharacterImages([imageId]);
+  return images[imageId] || null;
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+// 여러 캐릭터 이미지 한 번에 가져오기 (하나의 트랜잭션) - ID -> 원본
+export function getCharacterImages(imageIds: string[]): Promise<Record<string, Blob>> {
+  return getManyByIds(CHAR_STORE_NAME, imageIds);
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const allImages = request.result || [];
-      const sceneImages = allImages
-        .filter((img: any) => img.sceneId === sceneId)
-        .map((img: any) => ({ id: img.id, data: img.data }));
-      resolve(sceneImages);
-    };
-  });
+// 여러 캐릭터 이미지 썸네일 한 번에 가져오기 (썸네일이 없으면 원본)
+export function getCharacterThumbnails(imageIds: string[]): Promise<Record<string, Blob>> {
+  return getThumbnailsFrom(CHAR_STORE_NAME, imageIds);
 }
 
-// 이미지 삭제
-export async function deleteImage(imageId: string): Promise<void> {
-  const database = await initDB();
+// 캐릭터의 모든 이미지 가져오기
+export function getImagesByCharacter(characterId: string): Promise<{ id: string; blob: Blob }[]> {
+  return getByIndex(CHAR_STORE_NAME, 'characterId', characterId);
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(imageId);
+// 캐릭터 이미지 삭제
+export function deleteCharacterImage(imageId: string): Promise<void> {
+  return deleteByIds(CHAR_STORE_NAME, [imageId]);
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
+// 여러 캐릭터의 이미지 한 번에 삭제
+export async function deleteImagesByCharacters(characterIds: string[]): Promise<void> {
+  if (characterIds.length === 0) return;
+  await deleteByOwner(CHAR_STORE_NAME, 'characterId', characterIds);
 }
 
-// 장면의 모든 이미지 삭제
-export async function deleteImagesByScene(sceneId: string): Promise<void> {
-  const images = await getImagesByScene(sceneId);
-  for (const img of images) {
-    await deleteImage(img.id);
+// 대본의 모든 이미지 삭제 (장면/캐릭터 이미지 모두)
+export async function deleteImagesByScript(scriptId: string): Promise<void> {
+  await deleteByOwner(STORE_NAME, 'scriptId', [scriptId]);
+  await deleteByOwner(CHAR_STORE_NAME, 'scriptId', [scriptId]);
+}
+
+// ===== 공통 =====
+
+type ImageIndexName = 'sceneId' | 'characterId' | 'scriptId';
+
+// 레코드의 원본 Blob (마이그레이션 전 base64 레코드도 처리)
+function recordBlob(record: StoredImage): Blob | null {
+  if (record.blob) return record.blob;
+  if (typeof record.data === 'string') return dataUrlToBlob(record.data);
+  return null;
+}
+
+// 이미지 + 썸네일 저장 (썸네일은 트랜잭션 밖에서 먼저 만든다)
+// 공간이 부족하면 StorageQuotaError에 원본을 담아서 던진다 (호출한 쪽에서 다운로드 가능)
+async function putImage(
+  storeName: string,
+  fields: Pick<StoredImage, 'id' | 'scriptId' | 'sceneId' | 'characterId' | 'imageIndex'>,
+  imageData: Blob | string,
+  createdAt: string = new Date().toISOString()
+): Promise<void> {
+  const blob = typeof imageData === 'string' ? dataUrlToBlob(imageData) : imageData;
+  const thumbnail = await createThumbnail(blob);
+
+  const database = await initDB();
+  const transaction = database.transaction([storeName, THUMB_STORE_NAME], 'readwrite');
+  const record: StoredImage = {
+    ...fields,
+    blob,
+    mimeType: blob.type || 'image/png',
+    size: blob.size,
+    createdAt,
+  };
+  transaction.objectStore(storeName).put(record);
+  if (thumbnail) {
+    transaction.objectStore(THUMB_STORE_NAME).put({ id: fields.id, blob: thumbnail } satisfies StoredThumbnail);
+  }
+  try {
+    await transactionDone(transaction);
+  } catch (err) {
+    if (err instanceof StorageQuotaError) {
+      throw new StorageQuotaError('브라우저 저장공간이 부족해서 이미지를 저장하지 못했습니다.', blob);
+    }
+    throw err;
   }
 }
 
-// ===== 캐릭터 이미지 관련 함수 =====
+async function getManyByIds(storeName: string, imageIds: string[]): Promise<Record<string, Blob>> {
+  const result: Record<string, Blob> = {};
+  const ids = [...new Set(imageIds)].filter((id) => id && !id.startsWith('data:'));
+  if (ids.length === 0) return result;
 
-// 캐릭터 이미지 저장
-export async function saveCharacterImage(characterId: string, imageIndex: number, imageData: string): Promise<string> {
   const database = await initDB();
-  const imageId = `char_${characterId}_${imageIndex}_${Date.now()}`;
+  const transaction = database.transaction([storeName], 'readonly');
+  const store = transaction.objectStore(storeName);
+  const records = await Promise.all(ids.map((id) => requestToPromise<StoredImage | undefined>(store.get(id))));
+  for (const record of records) {
+    const blob = record && recordBlob(record);
+    if (record && blob) {
+      result[record.id] = blob;
+    }
+  }
+  return result;
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([CHAR_STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(CHAR_STORE_NAME);
-
-    const request = store.put({
-      id: imageId,
-      characterId,
-      imageIndex,
-      data: imageData,
-      createdAt: new Date().toISOString(),
-    });
+async function getThumbnailsFrom(storeName: string, imageIds: string[]): Promise<Record<string, Blob>> {
+  const result: Record<string, Blob> = {};
+  const ids = [...new Set(imageIds)].filter((id) => id && !id.startsWith('data:'));
+  if (ids.length === 0) return result;
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(imageId);
+  const database = await initDB();
+  const transaction = database.transaction([THUMB_STORE_NAME], 'readonly');
+  const store = transaction.objectStore(THUMB_STORE_NAME);
+  const thumbnails = await Promise.all(
+    ids.map((id) => requestToPromise<StoredThumbnail | undefined>(store.get(id)))
+  );
+
+  const missing: string[] = [];
+  thumbnails.forEach((thumbnail, index) => {
+    if (thumbnail) {
+      result[thumbnail.id] = thumbnail.blob;
+    } else {
+      missing.push(ids[index]);
+    }
   });
+
+  return { ...result, ...(await getManyByIds(storeName, missing)) };
 }
 
-// 캐릭터 이미지 가져오기
-export async function getCharacterImage(imageId: string): Promise<string | null> {
+async function getByIndex(
+  storeName: string,
+  indexName: ImageIndexName,
+  key: string
+): Promise<{ id: string; blob: Blob }[]> {
   const database = await initDB();
+  const transaction = database.transaction([storeName], 'readonly');
+  const index = transaction.objectStore(storeName).index(indexName);
+  const records = await requestToPromise<StoredImage[]>(index.getAll(key));
+  return records
+    .map((img) => ({ id: img.id, blob: recordBlob(img) }))
+    .filter((img): img is { id: string; blob: Blob } => !!img.blob);
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([CHAR_STORE_NAME], 'readonly');
-    const store = transaction.objectStore(CHAR_STORE_NAME);
-    const request = store.get(imageId);
+// 소유자(장면/캐릭터/대본) 기준 일괄 삭제 - 인덱스로 키만 조회해서 삭제
+async function deleteByOwner(storeName: string, indexName: ImageIndexName, ownerIds: string[]): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName, THUMB_STORE_NAME], 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(storeName);
+  const thumbnails = transaction.objectStore(THUMB_STORE_NAME);
+  const index = store.index(indexName);
+
+  const keyLists = await Promise.all(ownerIds.map((id) => requestToPromise(index.getAllKeys(id))));
+  for (const key of keyLists.flat()) {
+    store.delete(key);
+    thumbnails.delete(key);
+  }
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      resolve(request.result?.data || null);
-    };
-  });
+  await done;
 }
 
-// 캐릭터의 모든 이미지 가져오기
-export async function getImagesByCharacter(characterId: string): Promise<{ id: string; data: string }[]> {
+async function deleteByIds(storeName: string, imageIds: string[]): Promise<void> {
+  if (imageIds.length === 0) return;
   const database = await initDB();
+  const transaction = database.transaction([storeName, THUMB_STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const thumbnails = transaction.objectStore(THUMB_STORE_NAME);
+  for (const imageId of imageIds) {
+    store.delete(imageId);
+    thumbnails.delete(imageId);
+  }
+  await transactionDone(transaction);
+}
 
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction([CHAR_STORE_NAME], 'readonly');
-    const store = transaction.objectStore(CHAR_STORE_NAME);
-    const request = store.getAll();
+// ===== 마이그레이션 =====
+
+// 예전 base64 레코드를 Blob + 썸네일로 변환 (한 번에 하나씩 처리해서 메모리 사용을 줄인다)
+// initDB()가 끝나기 전에 실행되므로 연결을 직접 받는다.
+export async function convertLegacyImages(database: IDBDatabase): Promise<void> {
+  for (const storeName of [STORE_NAME, CHAR_STORE_NAME]) {
+    const transaction = database.transaction([storeName], 'readonly');
+    const legacyIds: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        if (typeof cursor.value.data === 'string' && !cursor.value.blob) {
+          legacyIds.push(cursor.value.id);
+        }
+        cursor.continue();
+      };
+    });
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      const allImages = request.result || [];
-      const charImages = allImages
-        .filter((img: any) => img.characterId === characterId)
-        .map((img: any) => ({ id: img.id, data: img.data }));
-      resolve(charImages);
-    };
-  });
+    for (const imageId of legacyIds) {
+      const readTx = database.transaction([storeName], 'readonly');
+      const record = await requestToPromise<StoredImage | undefined>(readTx.objectStore(storeName).get(imageId));
+      if (!record?.data) continue;
+
+      try {
+        const blob = dataUrlToBlob(record.data);
+        const thumbnail = await createThumbnail(blob);
+        const { data: _legacy, ...rest } = record;
+        const writeTx = database.transaction([storeName, THUMB_STORE_NAME], 'readwrite');
+        writeTx.objectStore(storeName).put({
+          ...rest,
+          blob,
+          mimeType: blob.type || 'image/png',
+          size: blob.size,
+        } satisfies StoredImage);
+        if (thumbnail) {
+          writeTx.objectStore(THUMB_STORE_NAME).put({ id: record.id, blob: thumbnail } satisfies StoredThumbnail);
+        }
+        await transactionDone(writeTx);
+      } catch (err) {
+        // 손상된 데이터는 그대로 두고 나머지를 계속 변환
+        console.error(`이미지 ${imageId} 변환 실패:`, err);
+      }
+    }
+  }
 }
 
-// 캐릭터 이미지 삭제
-export async function deleteCharacterImage(imageId: string): Promise<void> {
+// ===== 저장공간 정리 =====
+
+export interface StoredImageInfo {
+  id: string;
+  scriptId: string;
+  ownerId: string;
+  bytes: number;
+  createdAt: string;
+}
+
+// 저장된 이미지의 실제 크기
+export function getImageDataSize(record: Pick<StoredImage, 'size' | 'blob' | 'data'>): number {
+  if (typeof record.size === 'number') return record.size;
+  if (record.blob) return record.blob.size;
+  if (typeof record.data !== 'string') return 0;
+  // 예전 data URL은 base64 디코딩 후 크기로 추정
+  const commaIndex = record.data.indexOf(',');
+  const payload = commaIndex === -1 ? record.data : record.data.slice(commaIndex + 1);
+  return Math.floor((payload.length * 3) / 4);
+}
+
+async function listImageInfo(storeName: string, ownerKey: 'sceneId' | 'characterId'): Promise<StoredImageInfo[]> {
   const database = await initDB();
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([CHAR_STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(CHAR_STORE_NAME);
-    const request = store.delete(imageId);
+    const transaction = database.transaction([storeName], 'readonly');
+    const request = transaction.objectStore(storeName).openCursor();
+    const result: StoredImageInfo[] = [];
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(result);
+        return;
+      }
+      const record = cursor.value as StoredImage;
+      result.push({
+        id: record.id,
+        scriptId: record.scriptId || '',
+        ownerId: record[ownerKey] || '',
+        bytes: getImageDataSize(record),
+        createdAt: record.createdAt,
+      });
+      cursor.continue();
+    };
   });
 }
+
+// 장면 이미지 목록 (데이터 제외)
+export function listSceneImages(): Promise<StoredImageInfo[]> {
+  return listImageInfo(STORE_NAME, 'sceneId');
+}
+
+// 캐릭터 이미지 목록 (데이터 제외)
+export function listCharacterImages(): Promise<StoredImageInfo[]> {
+  return listImageInfo(CHAR_STORE_NAME, 'characterId');
+}
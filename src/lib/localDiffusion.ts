@@ -0,0 +1,257 @@
+// 로컬에서 실행하는 Stable Diffusion 서버 클라이언트 (ComfyUI / AUTOMATIC1111 WebUI)
+// 브라우저에서 바로 호출하므로 서버를 CORS 허용 옵션으로 실행해야 한다
+//   ComfyUI: python main.py --enable-cors-header
+//   AUTOMATIC1111: ./webui.sh --api --cors-allow-origins=<이 앱 주소>
+// 참조 이미지는 쓰지 않는다 (캐릭터 외모는 프롬프트의 설명으로만 맞춘다)
+import { v4 as uuidv4 } from 'uuid';
+import type { AspectRatio } from './gemini';
+import { getImageSize } from './imageData';
+import { PermanentRequestError, sleep } from './requestScheduler';
+
+export interface LocalDiffusionRequest {
+  prompt: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  steps: number;
+  signal?: AbortSignal;
+}
+
+export interface ComfyUIOptions {
+  url: string;
+  checkpoint: string; // 기본 워크플로에서 불러올 체크포인트 파일 이름
+  workflow: string; // API 형식으로 내보낸 워크플로 JSON (비우면 기본 txt2img 워크플로)
+}
+
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+const COMFYUI_TIMEOUT_MS = 10 * 60_000;
+const CFG_SCALE = 7;
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// 서버 요청 - 연결 실패와 오류 응답을 알아볼 수 있는 메시지로 바꾼다
+async function request(serverName: string, url: string, init?: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    if (init?.signal?.aborted) throw err;
+    throw new Error(
+      `${serverName} 서버에 연결할 수 없습니다. 서버가 실행 중인지, CORS 허용 옵션을 켰는지 확인해주세요. (${url})`
+    );
+  }
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    const message = `${serverName} 서버 오류 (${response.status}): ${body.slice(0, 300) || response.statusText}`;
+    // 워크플로/모델 이름 오류 같은 요청 오류는 다시 보내도 같다
+    throw response.status >= 400 && response.status < 500 ? new PermanentRequestError(message) : new Error(message);
+  }
+  return response;
+}
+
+async function requestJson<T>(serverName: string, url: string, init?: RequestInit): Promise<T> {
+  return (await request(serverName, url, init)).json() as Promise<T>;
+}
+
+function postJson(body: unknown, signal?: AbortSignal): RequestInit {
+  return {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+// ===== AUTOMATIC1111 =====
+
+// 중지하면 응답을 기다리지 않을 뿐 서버는 그 이미지를 끝까지 만든다
+// (/sdapi/v1/interrupt는 지금 그리는 이미지를 끊으므로 동시에 생성 중인 다른 장면까지 끊을 수 있다)
+export async function generateWithA1111(url: string, req: LocalDiffusionRequest): Promise<string> {
+  const { width, height } = getImageSize(req.aspectRatio);
+  const body = {
+    prompt: req.prompt,
+    negative_prompt: req.negativePrompt,
+    width,
+    height,
+    steps: req.steps,
+    cfg_scale: CFG_SCALE,
+    seed: -1,
+    batch_size: 1,
+  };
+  const data = await requestJson<{ images?: string[] }>(
+    'AUTOMATIC1111',
+    `${trimUrl(url)}/sdapi/v1/txt2img`,
+    postJson(body, req.signal)
+  );
+  const image = data.images?.[0];
+  if (!image) {
+    throw new Error('이미지 생성 실패: AUTOMATIC1111 서버가 이미지를 보내지 않았습니다.');
+  }
+  return `data:image/png;base64,${image}`;
+}
+
+// ===== ComfyUI =====
+
+type Workflow = Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+
+function buildDefaultWorkflow(checkpoint: string): Workflow {
+  return {
+    '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+    '5': { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}', batch_size: 1 } },
+    '6': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['4', 1] } },
+    '7': { class_type: 'CLIPTextEncode', inputs: { text: '{{negative_prompt}}', clip: ['4', 1] } },
+    '3': {
+      class_type: 'KSampler',
+      inputs: {
+        seed: '{{seed}}',
+        steps: '{{steps}}',
+        cfg: CFG_SCALE,
+        sampler_name: 'euler',
+        scheduler: 'normal',
+        denoise: 1,
+        model: ['4', 0],
+        positive: ['6', 0],
+        negative: ['7', 0],
+        latent_image: ['5', 0],
+      },
+    },
+    '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+    '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'script-image', images: ['8', 0] } },
+  };
+}
+
+// 사용자 워크플로 확인 - 잘못된 JSON이면 오류 메시지 반환
+export function validateComfyUIWorkflow(workflow: string): string | null {
+  if (!workflow.trim()) return null;
+  try {
+    const parsed = JSON.parse(workflow);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return '워크플로는 노드 ID를 키로 하는 JSON 객체여야 합니다. (ComfyUI의 "Save (API Format)")';
+    }
+    if (!workflow.includes('{{prompt}}')) {
+      return '워크플로에 프롬프트 자리({{prompt}})가 없습니다.';
+    }
+    return null;
+  } catch {
+    return '워크플로 JSON을 읽을 수 없습니다.';
+  }
+}
+
+// 워크플로의 {{이름}} 자리를 채운다 - 값 전체가 자리 하나면 숫자도 그대로 넣는다
+function fillWorkflow(value: unknown, vars: Record<string, string | number>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{(\w+)\}\}$/);
+    if (whole && whole[1] in vars) return vars[whole[1]];
+    return value.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+      name in vars ? String(vars[name]) : placeholder
+    );
+  }
+  if (Array.isArray(value)) return value.map((item) => fillWorkflow(item, vars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillWorkflow(item, vars)]));
+  }
+  return value;
+}
+
+interface ComfyUIImageRef {
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+interface ComfyUIHistoryEntry {
+  status?: { status_str?: string; completed?: boolean; messages?: [string, { exception_message?: string }][] };
+  outputs?: Record<string, { images?: ComfyUIImageRef[] }>;
+}
+
+// 작업을 큐에 넣고 끝날 때까지 기다렸다가 첫 이미지를 받아온다
+export async function generateWithComfyUI(options: ComfyUIOptions, req: LocalDiffusionRequest): Promise<Blob> {
+  const baseUrl = trimUrl(options.url);
+  const { width, height } = getImageSize(req.aspectRatio);
+  const template: unknown = options.workflow.trim()
+    ? JSON.parse(options.workflow)
+    : buildDefaultWorkflow(options.checkpoint);
+  const workflow = fillWorkflow(template, {
+    prompt: req.prompt,
+    negative_prompt: req.negativePrompt,
+    width,
+    height,
+    seed: randomSeed(),
+    steps: req.steps,
+  });
+
+  const { prompt_id: promptId } = await requestJson<{ prompt_id: string }>(
+    'ComfyUI',
+    `${baseUrl}/prompt`,
+    postJson({ prompt: workflow, client_id: uuidv4() }, req.signal)
+  );
+
+  try {
+    return await waitForComfyUIImage(baseUrl, promptId, req.signal);
+  } catch (err) {
+    if (req.signal?.aborted) cancelComfyUIPrompt(baseUrl, promptId);
+    throw err;
+  }
+}
+
+// 중지한 작업을 서버에서도 취소 - 대기 중이면 큐에서 빼고, 그리는 중이면 끊는다 (실패해도 무시)
+async function cancelComfyUIPrompt(baseUrl: string, promptId: string): Promise<void> {
+  try {
+    const queue = await requestJson<{ queue_running?: unknown[][] }>('ComfyUI', `${baseUrl}/queue`);
+    if (queue.queue_running?.some((item) => item[1] === promptId)) {
+      await request('ComfyUI', `${baseUrl}/interrupt`, { method: 'POST' });
+    } else {
+      await request('ComfyUI', `${baseUrl}/queue`, postJson({ delete: [promptId] }));
+    }
+  } catch (err) {
+    console.warn('ComfyUI 작업 취소 실패:', err);
+  }
+}
+
+async function waitForComfyUIImage(baseUrl: string, promptId: string, signal?: AbortSignal): Promise<Blob> {
+  const deadline = Date.now() + COMFYUI_TIMEOUT_MS;
+  for (;;) {
+    await sleep(COMFYUI_POLL_INTERVAL_MS, signal);
+    const history = await requestJson<Record<string, ComfyUIHistoryEntry>>(
+      'ComfyUI',
+      `${baseUrl}/history/${promptId}`,
+      { signal }
+    );
+    const entry = history[promptId];
+
+    if (entry?.status?.status_str === 'error') {
+      const detail = entry.status.messages?.find(([type]) => type === 'execution_error')?.[1].exception_message;
+      throw new PermanentRequestError(`이미지 생성 실패: ComfyUI 워크플로 실행 오류${detail ? ` (${detail})` : ''}`);
+    }
+    if (entry?.status?.completed) {
+      const image = Object.values(entry.outputs ?? {}).flatMap((output) => output.images ?? [])[0];
+      if (!image) {
+        throw new PermanentRequestError('이미지 생성 실패: ComfyUI 워크플로에 이미지 저장 노드가 없습니다.');
+      }
+      const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type });
+      return (await request('ComfyUI', `${baseUrl}/view?${params}`, { signal })).blob();
+    }
+    if (Date.now() > deadline) {
+      throw new Error('이미지 생성 실패: ComfyUI가 10분 안에 이미지를 만들지 못했습니다.');
+    }
+  }
+}
+
+// ===== 연결 확인 =====
+
+// 서버에 연결되는지 확인하고 상태 설명 반환 (설정 페이지)
+export async function checkComfyUI(url: string): Promise<string> {
+  const stats = await requestJson<{ devices?: { name?: string }[] }>('ComfyUI', `${trimUrl(url)}/system_stats`);
+  const device = stats.devices?.[0]?.name;
+  return `ComfyUI에 연결했습니다.${device ? ` (${device})` : ''}`;
+}
+
+export async function checkA1111(url: string): Promise<string> {
+  const models = await requestJson<{ model_name?: string }[]>('AUTOMATIC1111', `${trimUrl(url)}/sdapi/v1/sd-models`);
+  return `AUTOMATIC1111에 연결했습니다. (모델 ${models.length}개)`;
+}
@@ -0,0 +1,52 @@
+// 브라우저 저장소 (IndexedDB) 구현
+import type { ProjectStore } from './projectStore';
+import * as storage from './storage';
+import * as imageStorage from './imageStorage';
+import * as history from './history';
+
+export function createLocalProjectStore(): ProjectStore {
+  return {
+    kind: 'local',
+
+    listScripts: storage.loadScripts,
+    getScript: storage.getScript,
+    addScript: storage.addScript,
+    updateScript: storage.updateScript,
+    deleteScript: storage.deleteScript,
+
+    getCharactersByScript: storage.getCharactersByScript,
+    getCharacter: storage.getCharacter,
+    updateCharacter: storage.updateCharacter,
+    appendCharacterImages: storage.appendCharacterImages,
+    removeCharacterImage: storage.removeCharacterImage,
+    deleteCharacter: storage.deleteCharacter,
+
+    getScenesByScript: storage.getScenesByScript,
+    getScene: storage.getScene,
+    updateScene: storage.updateScene,
+    appendSceneImages: storage.appendSceneImages,
+    updateShot: storage.updateShot,
+    updateShots: storage.updateShots,
+    appendShotImages: storage.appendShotImages,
+    deleteScene: storage.deleteScene,
+
+    saveAnalysisResult: storage.saveAnalysisResult,
+
+    saveImage: imageStorage.saveImage,
+    saveCharacterImage: imageStorage.saveCharacterImage,
+    getImages: imageStorage.getImages,
+    getThumbnails: imageStorage.getThumbnails,
+    getCharacterImages: imageStorage.getCharacterImages,
+    getCharacterThumbnails: imageStorage.getCharacterThumbnails,
+
+    history: {
+      undo: history.undo,
+      redo: history.redo,
+      getState: history.getHistoryState,
+      createSnapshot: history.createSnapshot,
+      listSnapshots: history.listSnapshots,
+      restoreSnapshot: history.restoreSnapshot,
+      deleteSnapshot: history.deleteSnapshot,
+    },
+  };
+}
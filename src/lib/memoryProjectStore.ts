@@ -0,0 +1,203 @@
+// 메모리 저장소 구현 (테스트/미리보기용 - 새로고침하면 사라진다)
+import type { Script, Character, Scene } from '../types';
+import type { ProjectStore } from './projectStore';
+import { dataUrlToBlob, createSceneImageId, createCharacterImageId } from './imageData';
+import { MAX_REFERENCE_IMAGES } from './storage';
+import { patchShot } from './shots';
+
+interface MemoryImage {
+  scriptId: string;
+  ownerId: string; // 장면 ID 또는 캐릭터 ID
+  blob: Blob;
+}
+
+export interface MemoryProjectData {
+  scripts?: Script[];
+  characters?: Character[];
+  scenes?: Scene[];
+}
+
+// 저장한 객체를 그대로 돌려주면 호출한 쪽의 수정이 저장소에 새어 들어가므로 복사한다
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+export function createMemoryProjectStore(initial: MemoryProjectData = {}): ProjectStore {
+  const scripts = new Map((initial.scripts ?? []).map((s) => [s.id, clone(s)]));
+  const characters = new Map((initial.characters ?? []).map((c) => [c.id, clone(c)]));
+  const scenes = new Map((initial.scenes ?? []).map((s) => [s.id, clone(s)]));
+  const sceneImages = new Map<string, MemoryImage>();
+  const characterImages = new Map<string, MemoryImage>();
+
+  const byScript = <T extends { scriptId: string }>(records: Map<string, T>, scriptId: string) =>
+    [...records.values()].filter((r) => r.scriptId === scriptId).map(clone);
+
+  const update = <T extends { updatedAt: string }>(
+    records: Map<string, T>,
+    id: string,
+    updates: Partial<T> | ((existing: T) => Partial<T>)
+  ): T | undefined => {
+    const existing = records.get(id);
+    if (!existing) return undefined;
+    const changes = typeof updates === 'function' ? updates(existing) : updates;
+    const updated = { ...existing, ...clone(changes), updatedAt: new Date().toISOString() };
+    records.set(id, updated);
+    return clone(updated);
+  };
+
+  const deleteImagesOf = (images: Map<string, MemoryImage>, match: (img: MemoryImage) => boolean) => {
+    for (const [id, img] of images) {
+      if (match(img)) images.delete(id);
+    }
+  };
+
+  const pick = (images: Map<string, MemoryImage>, imageIds: string[]) => {
+    const result: Record<string, Blob> = {};
+    for (const id of imageIds) {
+      const img = images.get(id);
+      if (img) result[id] = img.blob;
+    }
+    return result;
+  };
+
+  const toBlob = (imageData: Blob | string) =>
+    typeof imageData === 'string' ? dataUrlToBlob(imageData) : imageData;
+
+  return {
+    kind: 'memory',
+
+    async listScripts() {
+      return [...scripts.values()].map(clone).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async getScript(id) {
+      const script = scripts.get(id);
+      return script && clone(script);
+    },
+    async addScript(script) {
+      scripts.set(script.id, clone(script));
+    },
+    async updateScript(id, updates) {
+      update(scripts, id, updates);
+    },
+    async deleteScript(id) {
+      scripts.delete(id);
+      for (const records of [characters, scenes]) {
+        for (const [recordId, record] of records) {
+          if (record.scriptId === id) records.delete(recordId);
+        }
+      }
+      deleteImagesOf(sceneImages, (img) => img.scriptId === id);
+      deleteImagesOf(characterImages, (img) => img.scriptId === id);
+    },
+
+    async getCharactersByScript(scriptId) {
+      return byScript(characters, scriptId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async getCharacter(id) {
+      const character = characters.get(id);
+      return character && clone(character);
+    },
+    async updateCharacter(id, updates) {
+      update(characters, id, updates);
+    },
+    async appendCharacterImages(id, imageIds) {
+      return update(characters, id, (character) => ({
+        referenceImages: [...character.referenceImages, ...imageIds].slice(0, MAX_REFERENCE_IMAGES),
+        selectedImage: character.selectedImage || imageIds[0],
+      }));
+    },
+    async removeCharacterImage(id, imageId) {
+      return update(characters, id, (character) => {
+        const referenceImages = character.referenceImages.filter((ref) => ref !== imageId);
+        return {
+          referenceImages,
+          selectedImage: character.selectedImage === imageId ? referenceImages[0] : character.selectedImage,
+        };
+      });
+    },
+    async deleteCharacter(id) {
+      characters.delete(id);
+      for (const scene of scenes.values()) {
+        if (scene.characterIds.includes(id)) {
+          update(scenes, scene.id, { characterIds: scene.characterIds.filter((c) => c !== id) });
+        }
+      }
+      deleteImagesOf(characterImages, (img) => img.ownerId === id);
+    },
+
+    async getScenesByScript(scriptId) {
+      return byScript(scenes, scriptId).sort((a, b) => a.sceneNumber - b.sceneNumber);
+    },
+    async getScene(id) {
+      const scene = scenes.get(id);
+      return scene && clone(scene);
+    },
+    async updateScene(id, updates) {
+      update(scenes, id, updates);
+    },
+    async appendSceneImages(id, imageIds, updates = {}) {
+      return update(scenes, id, (scene) => ({ ...updates, generatedImages: [...scene.generatedImages, ...imageIds] }));
+    },
+    async updateShot(sceneId, shotId, updates) {
+      update(scenes, sceneId, (scene) => patchShot(scene, shotId, () => updates));
+    },
+    async updateShots(sceneId, updater) {
+      return update(scenes, sceneId, (scene) => ({ shots: updater(scene.shots ?? []) }));
+    },
+    async appendShotImages(sceneId, shotId, imageIds, updates = {}) {
+      return update(scenes, sceneId, (scene) =>
+        patchShot(scene, shotId, (shot) => ({ ...updates, generatedImages: [...shot.generatedImages, ...imageIds] }))
+      );
+    },
+    async deleteScene(id) {
+      scenes.delete(id);
+      deleteImagesOf(sceneImages, (img) => img.ownerId === id);
+    },
+
+    async saveAnalysisResult(scriptId, newCharacters, newScenes, options = {}) {
+      const keepCharacters = new Set(newCharacters.map((c) => c.id));
+      const keepScenes = new Set(newScenes.map((s) => s.id));
+      for (const character of byScript(characters, scriptId)) {
+        if (!keepCharacters.has(character.id)) {
+          characters.delete(character.id);
+          deleteImagesOf(characterImages, (img) => img.ownerId === character.id);
+        }
+      }
+      for (const scene of byScript(scenes, scriptId)) {
+        if (!keepScenes.has(scene.id)) {
+          scenes.delete(scene.id);
+          deleteImagesOf(sceneImages, (img) => img.ownerId === scene.id);
+        }
+      }
+      newCharacters.forEach((c) => characters.set(c.id, clone(c)));
+      newScenes.forEach((s) => scenes.set(s.id, clone(s)));
+      if (options.scriptUpdates) {
+        update(scripts, scriptId, options.scriptUpdates);
+      }
+    },
+
+    async saveImage(scriptId, sceneId, imageIndex, imageData) {
+      const imageId = createSceneImageId(sceneId, imageIndex);
+      sceneImages.set(imageId, { scriptId, ownerId: sceneId, blob: toBlob(imageData) });
+      return imageId;
+    },
+    async saveCharacterImage(scriptId, characterId, imageIndex, imageData) {
+      const imageId = createCharacterImageId(characterId, imageIndex);
+      characterImages.set(imageId, { scriptId, ownerId: characterId, blob: toBlob(imageData) });
+      return imageId;
+    },
+    // 썸네일은 따로 만들지 않고 원본을 돌려준다
+    async getImages(imageIds) {
+      return pick(sceneImages, imageIds);
+    },
+    async getThumbnails(imageIds) {
+      return pick(sceneImages, imageIds);
+    },
+    async getCharacterImages(imageIds) {
+      return pick(characterImages, imageIds);
+    },
+    async getCharacterThumbnails(imageIds) {
+      return pick(characterImages, imageIds);
+    },
+  };
+}
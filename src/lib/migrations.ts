@@ -0,0 +1,146 @@
+// 데이터 스키마 마이그레이션
+// IndexedDB 버전(DB_VERSION)은 object store 구조만 관리하고,
+// 저장된 데이터의 형태 변경은 여기에서 버전별로 순서대로 적용한다.
+import { STORE_NAMES, requestToPromise, transactionDone } from './db';
+import { convertLegacyImages } from './imageStorage';
+
+export const SCHEMA_VERSION = 3;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LEGACY_PREFIX = 'script-image-generator:';
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (database: IDBDatabase) => Promise<void>;
+}
+
+// meta 스토어 레코드
+interface MetaRecord {
+  key: string;
+  value: unknown;
+  updatedAt: string;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'localStorage 메타데이터(대본/캐릭터/장면)를 IndexedDB로 이전',
+    migrate: migrateFromLocalStorage,
+  },
+  {
+    version: 2,
+    description: '기존 이미지 레코드에 scriptId 채우기 (인덱스 조회용)',
+    migrate: backfillImageScriptIds,
+  },
+  {
+    version: 3,
+    description: 'base64 이미지를 Blob으로 변환하고 썸네일 생성',
+    migrate: convertLegacyImages,
+  },
+];
+
+// v1: localStorage의 script-image-generator:* 키를 한 번만 읽어서 옮긴다
+async function migrateFromLocalStorage(database: IDBDatabase): Promise<void> {
+  const legacy = {
+    [STORE_NAMES.scripts]: readLegacyArray('scripts'),
+    [STORE_NAMES.characters]: readLegacyArray('characters'),
+    [STORE_NAMES.scenes]: readLegacyArray('scenes'),
+  };
+
+  const storeNames = Object.keys(legacy) as (keyof typeof legacy)[];
+  const transaction = database.transaction(storeNames, 'readwrite');
+  for (const storeName of storeNames) {
+    const store = transaction.objectStore(storeName);
+    for (const record of legacy[storeName]) {
+      store.put(record);
+    }
+  }
+  await transactionDone(transaction);
+
+  // 이전이 끝난 뒤에만 삭제 (중간에 실패하면 다음 실행 때 다시 시도)
+  for (const key of ['scripts', 'characters', 'scenes']) {
+    localStorage.removeItem(LEGACY_PREFIX + key);
+  }
+}
+
+// v2: 이미지 레코드에 소유자(장면/캐릭터)의 scriptId를 기록
+async function backfillImageScriptIds(database: IDBDatabase): Promise<void> {
+  const transaction = database.transaction(
+    [STORE_NAMES.scenes, STORE_NAMES.characters, STORE_NAMES.images, STORE_NAMES.characterImages],
+    'readwrite'
+  );
+  const done = transactionDone(transaction);
+
+  const [scenes, characters] = await Promise.all([
+    requestToPromise<{ id: string; scriptId: string }[]>(transaction.objectStore(STORE_NAMES.scenes).getAll()),
+    requestToPromise<{ id: string; scriptId: string }[]>(transaction.objectStore(STORE_NAMES.characters).getAll()),
+  ]);
+  const sceneScript = new Map(scenes.map((s) => [s.id, s.scriptId]));
+  const characterScript = new Map(characters.map((c) => [c.id, c.scriptId]));
+
+  const fill = (storeName: string, ownerKey: string, owners: Map<string, string>) => {
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const record = cursor.value;
+      const scriptId = owners.get(record[ownerKey]);
+      if (!record.scriptId && scriptId) {
+        cursor.update({ ...record, scriptId });
+      }
+      cursor.continue();
+    };
+  };
+  fill(STORE_NAMES.images, 'sceneId', sceneScript);
+  fill(STORE_NAMES.characterImages, 'characterId', characterScript);
+
+  await done;
+}
+
+function readLegacyArray(key: string): unknown[] {
+  const data = localStorage.getItem(LEGACY_PREFIX + key);
+  if (!data) return [];
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed.filter((item) => item && typeof item.id === 'string') : [];
+  } catch (err) {
+    console.error(`localStorage ${key} 데이터를 읽을 수 없습니다:`, err);
+    return [];
+  }
+}
+
+async function getSchemaVersion(database: IDBDatabase): Promise<number> {
+  const transaction = database.transaction([STORE_NAMES.meta], 'readonly');
+  const record = await requestToPromise<MetaRecord | undefined>(
+    transaction.objectStore(STORE_NAMES.meta).get(SCHEMA_VERSION_KEY)
+  );
+  return typeof record?.value === 'number' ? record.value : 0;
+}
+
+async function recordMigration(database: IDBDatabase, migration: Migration): Promise<void> {
+  const now = new Date().toISOString();
+  const transaction = database.transaction([STORE_NAMES.meta], 'readwrite');
+  const store = transaction.objectStore(STORE_NAMES.meta);
+  store.put({ key: SCHEMA_VERSION_KEY, value: migration.version, updatedAt: now } satisfies MetaRecord);
+  store.put({
+    key: `migration:${migration.version}`,
+    value: migration.description,
+    updatedAt: now,
+  } satisfies MetaRecord);
+  await transactionDone(transaction);
+}
+
+// 아직 적용되지 않은 마이그레이션을 순서대로 실행
+export async function runMigrations(database: IDBDatabase): Promise<void> {
+  const current = await getSchemaVersion(database);
+  if (current > SCHEMA_VERSION) {
+    throw new Error('이 앱보다 새 버전에서 저장된 데이터입니다. 페이지를 새로고침하거나 앱을 업데이트해주세요.');
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    await migration.migrate(database);
+    await recordMigration(database, migration);
+  }
+}
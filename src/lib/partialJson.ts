@@ -0,0 +1,65 @@
+// 스트리밍 중인(아직 끝나지 않은) JSON 응답에서 지금까지 완성된 배열 항목만 꺼내기
+// 예: '{"characters": [{"name": "수아"}, {"name": "민' -> extractCompleteItems(text, 'characters') = [{ name: '수아' }]
+
+// 최상위 객체의 field 배열에서 닫힌 항목만 (파싱할 수 없는 항목은 건너뛴다)
+export function extractCompleteItems(text: string, field: string): unknown[] {
+  const items: unknown[] = [];
+  const start = text.indexOf('{');
+  if (start === -1) return items;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey: string | null = null; // 최상위 객체에서 마지막으로 읽은 키
+  let inField = false; // field 배열 안 (depth 2)
+  let itemStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (depth === 1) {
+          try {
+            lastKey = JSON.parse(text.slice(stringStart, i + 1));
+          } catch {
+            lastKey = null;
+          }
+        }
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === '{' || char === '[') {
+      depth++;
+      if (depth === 2 && char === '[') {
+        inField = lastKey === field;
+      } else if (depth === 3 && inField) {
+        itemStart = i;
+      }
+    } else if (char === '}' || char === ']') {
+      if (depth === 3 && inField && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // 깨진 항목은 최종 응답 검증에서 다시 요청한다
+        }
+        itemStart = -1;
+      }
+      if (depth === 2) inField = false;
+      depth--;
+      if (depth === 0) break;
+    } else if (char === ',' && depth === 1) {
+      lastKey = null;
+    }
+  }
+  return items;
+}
@@ -0,0 +1,97 @@
+// 오프라인 개발용 자리 표시 이미지 - API 키나 로컬 서버 없이 생성 흐름을 확인할 때 쓴다
+// 프롬프트와 비율이 같으면 항상 같은 이미지 (색과 도형을 프롬프트 해시로 정한다)
+import type { AspectRatio } from './gemini';
+import { getImageSize } from './imageData';
+
+const BASE_SIZE = 512;
+const PROMPT_PREVIEW_LINES = 5;
+
+// FNV-1a 32비트 해시
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// 시드 고정 난수 (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 폭에 맞춰 줄바꿈 (한글은 띄어쓰기가 없어도 글자 단위로 자른다)
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const char of text.replace(/\s+/g, ' ').trim()) {
+    if (context.measureText(line + char).width > maxWidth && line) {
+      lines.push(line.trim());
+      line = '';
+      if (lines.length === maxLines) break;
+    }
+    line += char;
+  }
+  if (lines.length < maxLines && line.trim()) lines.push(line.trim());
+  if (lines.length === maxLines) lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, -1)}…`;
+  return lines;
+}
+
+export async function generatePlaceholderImage(
+  prompt: string,
+  aspectRatio: AspectRatio,
+  signal?: AbortSignal
+): Promise<Blob> {
+  signal?.throwIfAborted();
+  const { width, height } = getImageSize(aspectRatio, BASE_SIZE);
+  const random = createRandom(hashString(`${aspectRatio}|${prompt}`));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('자리 표시 이미지를 그릴 수 없습니다.');
+  }
+
+  // 배경 그라데이션
+  const hue = Math.floor(random() * 360);
+  const gradient = context.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 72%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 45%)`);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+
+  // 도형
+  for (let i = 0; i < 8; i++) {
+    context.fillStyle = `hsla(${(hue + random() * 120) % 360}, 60%, ${40 + random() * 40}%, 0.35)`;
+    context.beginPath();
+    context.arc(random() * width, random() * height, (0.05 + random() * 0.2) * Math.min(width, height), 0, Math.PI * 2);
+    context.fill();
+  }
+
+  // 프롬프트 앞부분
+  const padding = Math.round(width * 0.06);
+  context.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  context.fillRect(0, height - height * 0.45, width, height * 0.45);
+  context.fillStyle = '#ffffff';
+  context.font = `bold ${Math.round(height * 0.06)}px sans-serif`;
+  context.fillText(`PLACEHOLDER ${aspectRatio}`, padding, padding + height * 0.06);
+  context.font = `${Math.round(height * 0.04)}px sans-serif`;
+  wrapText(context, prompt, width - padding * 2, PROMPT_PREVIEW_LINES).forEach((line, i) => {
+    context.fillText(line, padding, height - height * 0.45 + padding + height * 0.05 * (i + 0.8));
+  });
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('자리 표시 이미지를 만들 수 없습니다.');
+  }
+  return blob;
+}
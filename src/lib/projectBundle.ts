@@ -0,0 +1,252 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import type { Script, Character, Scene, SpeechBubble } from '../types';
+import { getProjectStore } from './projectStore';
+import { dataUrlToBlob } from './imageData';
+import { getSceneImageIds } from './shots';
+
+// 프로젝트 번들 (대본 + 캐릭터 + 장면 + 이미지를 하나의 zip 파일로)
+export const BUNDLE_FORMAT = 'script-image-generator-project';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.storyboard.zip';
+
+const MANIFEST_PATH = 'manifest.json';
+const PROJECT_PATH = 'project.json';
+
+interface BundleImageEntry {
+  ref: string; // 원본 이미지 ID (또는 data URL을 대신하는 임시 키)
+  kind: 'scene' | 'character';
+  ownerId: string; // 장면 ID 또는 캐릭터 ID
+  path: string;
+  mimeType: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  counts: { characters: number; scenes: number; images: number };
+  images: BundleImageEntry[];
+}
+
+interface BundleProject {
+  script: Script;
+  characters: Character[];
+  scenes: Scene[];
+}
+
+function extensionFor(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    case 'image/gif':
+      return 'gif';
+    default:
+      return 'png';
+  }
+}
+
+// 대본 하나를 번들로 내보내기
+export async function exportProject(scriptId: string): Promise<Blob> {
+  const store = getProjectStore();
+  const script = await store.getScript(scriptId);
+  if (!script) {
+    throw new Error('대본을 찾을 수 없습니다.');
+  }
+  const [characters, scenes] = await Promise.all([
+    store.getCharactersByScript(scriptId),
+    store.getScenesByScript(scriptId),
+  ]);
+
+  const files: Record<string, Uint8Array> = {};
+  const images: BundleImageEntry[] = [];
+  const written = new Set<string>();
+
+  // 말풍선을 얹은 이미지도 함께 (목록에서 빠진 이미지에 말풍선만 남아 있을 수 있다)
+  const getExportedSceneImageIds = (scene: Scene) => [
+    ...new Set([...getSceneImageIds(scene), ...(scene.bubbles ?? []).map((bubble) => bubble.imageId)]),
+  ];
+
+  const [sceneImageData, characterImageData] = await Promise.all([
+    store.getImages(scenes.flatMap(getExportedSceneImageIds)),
+    store.getCharacterImages(characters.flatMap((c) => [...c.referenceImages, c.selectedImage || ''])),
+  ]);
+
+  const addImage = async (ref: string, kind: BundleImageEntry['kind'], ownerId: string) => {
+    if (written.has(ref)) return;
+    written.add(ref);
+
+    // 예전 데이터는 ID 대신 data URL을 그대로 들고 있을 수 있다
+    const blob = ref.startsWith('data:')
+      ? dataUrlToBlob(ref)
+      : kind === 'scene'
+        ? sceneImageData[ref]
+        : characterImageData[ref];
+    if (!blob) return;
+
+    const mimeType = blob.type || 'image/png';
+    const path = `images/${kind}s/${images.length + 1}.${extensionFor(mimeType)}`;
+    files[path] = new Uint8Array(await blob.arrayBuffer());
+    images.push({ ref, kind, ownerId, path, mimeType });
+  };
+
+  for (const char of characters) {
+    for (const ref of char.referenceImages) {
+      await addImage(ref, 'character', char.id);
+    }
+    if (char.selectedImage) {
+      await addImage(char.selectedImage, 'character', char.id);
+    }
+  }
+  for (const scene of scenes) {
+    // 샷 이미지도 장면 이미지로 저장
+    for (const ref of getExportedSceneImageIds(scene)) {
+      await addImage(ref, 'scene', scene.id);
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: script.title,
+    counts: { characters: characters.length, scenes: scenes.length, images: images.length },
+    images,
+  };
+  const project: BundleProject = { script, characters, scenes };
+
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+  files[PROJECT_PATH] = strToU8(JSON.stringify(project, null, 2));
+
+  // 이미지는 이미 압축된 포맷이므로 저장만 한다
+  const zipped = zipSync(files, { level: 0 });
+  return new Blob([zipped], { type: 'application/zip' });
+}
+
+// 번들 파일 이름
+export function getBundleFileName(title: string): string {
+  const safeTitle = title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'project';
+  return `${safeTitle}${BUNDLE_EXTENSION}`;
+}
+
+// 번들 읽기 및 검증
+function readBundle(data: Uint8Array): { manifest: BundleManifest; project: BundleProject; files: Record<string, Uint8Array> } {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('프로젝트 파일을 읽을 수 없습니다. 올바른 내보내기 파일인지 확인해주세요.');
+  }
+
+  if (!files[MANIFEST_PATH] || !files[PROJECT_PATH]) {
+    throw new Error('프로젝트 파일에 manifest 또는 project 데이터가 없습니다.');
+  }
+
+  const manifest = JSON.parse(strFromU8(files[MANIFEST_PATH])) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('지원하지 않는 파일 형식입니다.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`지원하지 않는 프로젝트 버전입니다. (파일: v${manifest.version}, 지원: v${BUNDLE_VERSION} 이하)`);
+  }
+
+  const project = JSON.parse(strFromU8(files[PROJECT_PATH])) as BundleProject;
+  if (!project.script || !Array.isArray(project.characters) || !Array.isArray(project.scenes)) {
+    throw new Error('프로젝트 데이터가 손상되었습니다.');
+  }
+
+  return { manifest, project, files };
+}
+
+// 번들 가져오기 - 새 ID로 복원하고 새 대본 ID를 반환
+export async function importProject(file: Blob): Promise<string> {
+  const store = getProjectStore();
+  const { manifest, project, files } = readBundle(new Uint8Array(await file.arrayBuffer()));
+  const now = new Date().toISOString();
+
+  const scriptId = uuidv4();
+  const characterIdMap = new Map(project.characters.map((c) => [c.id, uuidv4()]));
+  const sceneIdMap = new Map(project.scenes.map((s) => [s.id, uuidv4()]));
+
+  // 이미지 복원 (원본 ref -> 새 이미지 ID)
+  const imageIdMap = new Map<string, string>();
+  const imageIndexByOwner = new Map<string, number>();
+  for (const entry of manifest.images) {
+    const bytes = files[entry.path];
+    const newOwnerId = entry.kind === 'scene'
+      ? sceneIdMap.get(entry.ownerId)
+      : characterIdMap.get(entry.ownerId);
+    if (!bytes || !newOwnerId) continue;
+
+    const index = imageIndexByOwner.get(newOwnerId) || 0;
+    imageIndexByOwner.set(newOwnerId, index + 1);
+
+    const blob = new Blob([bytes.slice()], { type: entry.mimeType });
+    const newImageId = entry.kind === 'scene'
+      ? await store.saveImage(scriptId, newOwnerId, index, blob)
+      : await store.saveCharacterImage(scriptId, newOwnerId, index, blob);
+    imageIdMap.set(entry.ref, newImageId);
+  }
+
+  const remapImages = (refs: string[]) =>
+    refs.map((ref) => imageIdMap.get(ref)).filter((id): id is string => !!id);
+  const remapImage = (ref?: string) => (ref ? imageIdMap.get(ref) : undefined);
+
+  const characters: Character[] = project.characters.map((c) => ({
+    ...c,
+    id: characterIdMap.get(c.id)!,
+    scriptId,
+    referenceImages: remapImages(c.referenceImages),
+    selectedImage: remapImage(c.selectedImage),
+    updatedAt: now,
+  }));
+
+  const scenes: Scene[] = project.scenes.map((s) => {
+    const generatedImages = remapImages(s.generatedImages);
+    const remapCharacters = (ids: string[]) =>
+      ids.map((id) => characterIdMap.get(id)).filter((id): id is string => !!id);
+    return {
+      ...s,
+      id: sceneIdMap.get(s.id)!,
+      scriptId,
+      characterIds: remapCharacters(s.characterIds),
+      shots: s.shots?.map((shot) => {
+        const shotImages = remapImages(shot.generatedImages);
+        return {
+          ...shot,
+          characterIds: remapCharacters(shot.characterIds),
+          generatedImages: shotImages,
+          selectedImage: remapImage(shot.selectedImage),
+          status: shot.status === 'generating' ? (shotImages.length > 0 ? 'completed' : 'pending') : shot.status,
+        };
+      }),
+      generatedImages,
+      selectedImage: remapImage(s.selectedImage),
+      // 이미지를 복원하지 못한 말풍선은 뺀다
+      bubbles: s.bubbles
+        ?.map((bubble) => ({ ...bubble, imageId: remapImage(bubble.imageId) }))
+        .filter((bubble): bubble is SpeechBubble => !!bubble.imageId),
+      // 생성 도중에 내보낸 장면은 다시 생성할 수 있도록 되돌린다
+      status: s.status === 'generating' ? (generatedImages.length > 0 ? 'completed' : 'pending') : s.status,
+      updatedAt: now,
+    };
+  });
+
+  const script: Script = {
+    ...project.script,
+    id: scriptId,
+    status: project.script.status === 'analyzing' || project.script.status === 'generating'
+      ? (scenes.length > 0 ? 'ready' : 'draft')
+      : project.script.status,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.addScript(script);
+  await store.saveAnalysisResult(scriptId, characters, scenes);
+
+  return scriptId;
+}
@@ -0,0 +1,161 @@
+// 프로젝트 저장소 인터페이스 - 페이지는 저장 위치(브라우저/서버)를 모르고 이 인터페이스만 사용한다
+import type { Script, Character, Scene, Shot } from '../types';
+import type { HistoryState, ScriptSnapshot } from './history';
+import type { SaveAnalysisOptions } from './storage';
+import { saveData, loadData } from './storage';
+import { createLocalProjectStore } from './localProjectStore';
+import { createRemoteProjectStore } from './remoteProjectStore';
+import { broadcastChange, type ChangeTopic } from './changeEvents';
+
+// 실행 취소/스냅샷 (지원하는 저장소만)
+export interface ProjectHistory {
+  undo(scriptId: string): Promise<string | null>;
+  redo(scriptId: string): Promise<string | null>;
+  getState(scriptId: string): Promise<HistoryState>;
+  createSnapshot(scriptId: string, label: string): Promise<ScriptSnapshot | null>;
+  listSnapshots(scriptId: string): Promise<ScriptSnapshot[]>;
+  restoreSnapshot(id: string): Promise<void>;
+  deleteSnapshot(id: string): Promise<void>;
+}
+
+export interface ProjectStore {
+  readonly kind: 'local' | 'memory' | 'remote';
+
+  // 대본
+  listScripts(): Promise<Script[]>;
+  getScript(id: string): Promise<Script | undefined>;
+  addScript(script: Script): Promise<void>;
+  updateScript(id: string, updates: Partial<Script>, historyLabel?: string): Promise<void>;
+  deleteScript(id: string): Promise<void>; // 캐릭터/장면/이미지도 함께 삭제
+
+  // 캐릭터
+  getCharactersByScript(scriptId: string): Promise<Character[]>;
+  getCharacter(id: string): Promise<Character | undefined>;
+  updateCharacter(id: string, updates: Partial<Character>, historyLabel?: string): Promise<void>;
+  // 참조 이미지 추가 (저장소에서 최신 값 기준으로 원자적으로 처리)
+  appendCharacterImages(id: string, imageIds: string[], historyLabel?: string): Promise<Character | undefined>;
+  // 참조 이미지 하나 제거 (ID 기준, 저장소에서 최신 값 기준으로 원자적으로 처리)
+  removeCharacterImage(id: string, imageId: string, historyLabel?: string): Promise<Character | undefined>;
+  deleteCharacter(id: string): Promise<void>;
+
+  // 장면
+  getScenesByScript(scriptId: string): Promise<Scene[]>;
+  getScene(id: string): Promise<Scene | undefined>;
+  updateScene(id: string, updates: Partial<Scene>, historyLabel?: string): Promise<void>;
+  // 생성 이미지 추가 + 다른 필드 변경 (저장소에서 최신 값 기준으로 원자적으로 처리)
+  appendSceneImages(id: string, imageIds: string[], updates?: Partial<Scene>): Promise<Scene | undefined>;
+  // 샷 하나 변경 / 샷 생성 이미지 추가 (다른 샷은 저장소의 최신 값 유지)
+  updateShot(sceneId: string, shotId: string, updates: Partial<Shot>, historyLabel?: string): Promise<void>;
+  // 샷 추가/삭제 등 샷 목록 변경 (updater: 저장소의 최신 샷 목록 -> 새 목록, 원자적으로 처리)
+  updateShots(sceneId: string, updater: (shots: Shot[]) => Shot[], historyLabel?: string): Promise<Scene | undefined>;
+  appendShotImages(sceneId: string, shotId: string, imageIds: string[], updates?: Partial<Shot>): Promise<Scene | undefined>;
+  deleteScene(id: string): Promise<void>;
+
+  // 분석 결과로 대본의 캐릭터/장면 전체 교체
+  saveAnalysisResult(
+    scriptId: string,
+    characters: Character[],
+    scenes: Scene[],
+    options?: SaveAnalysisOptions
+  ): Promise<void>;
+
+  // 이미지 - 저장하면 이미지 ID 반환, 조회는 ID -> Blob (없는 ID는 빠짐)
+  saveImage(scriptId: string, sceneId: string, imageIndex: number, imageData: Blob | string): Promise<string>;
+  saveCharacterImage(scriptId: string, characterId: string, imageIndex: number, imageData: Blob | string): Promise<string>;
+  getImages(imageIds: string[]): Promise<Record<string, Blob>>;
+  getThumbnails(imageIds: string[]): Promise<Record<string, Blob>>;
+  getCharacterImages(imageIds: string[]): Promise<Record<string, Blob>>;
+  getCharacterThumbnails(imageIds: string[]): Promise<Record<string, Blob>>;
+
+  history?: ProjectHistory;
+}
+
+// 저장 위치 설정 (localStorage)
+export type ProjectStoreConfig =
+  | { type: 'local' }
+  | { type: 'remote'; url: string; token: string };
+
+const CONFIG_KEY = 'projectStore';
+
+export function loadProjectStoreConfig(): ProjectStoreConfig {
+  return loadData<ProjectStoreConfig>(CONFIG_KEY) ?? { type: 'local' };
+}
+
+export function saveProjectStoreConfig(config: ProjectStoreConfig): void {
+  saveData(CONFIG_KEY, config);
+  currentStore = null;
+}
+
+const ALL_TOPICS: ChangeTopic[] = ['scripts', 'characters', 'scenes'];
+
+// 저장이 끝나면 다른 탭에 알린다 (조회 메서드는 그대로)
+function withChangeEvents(store: ProjectStore): ProjectStore {
+  const notify = async <T>(
+    result: Promise<T>,
+    topics: ChangeTopic[],
+    scriptId?: string,
+    ids?: string[]
+  ): Promise<T> => {
+    const value = await result;
+    broadcastChange({ topics, scriptId, ids });
+    return value;
+  };
+  const { history } = store;
+
+  return {
+    ...store,
+    addScript: (script) => notify(store.addScript(script), ['scripts'], script.id),
+    updateScript: (id, updates, historyLabel) =>
+      notify(store.updateScript(id, updates, historyLabel), ['scripts'], id),
+    deleteScript: (id) => notify(store.deleteScript(id), ALL_TOPICS, id),
+
+    updateCharacter: (id, updates, historyLabel) =>
+      notify(store.updateCharacter(id, updates, historyLabel), ['characters'], undefined, [id]),
+    appendCharacterImages: (id, imageIds, historyLabel) =>
+      notify(store.appendCharacterImages(id, imageIds, historyLabel), ['characters'], undefined, [id]),
+    removeCharacterImage: (id, imageId, historyLabel) =>
+      notify(store.removeCharacterImage(id, imageId, historyLabel), ['characters'], undefined, [id]),
+    // 장면의 등장인물 목록도 바뀐다
+    deleteCharacter: (id) => notify(store.deleteCharacter(id), ['characters', 'scenes'], undefined, [id]),
+
+    updateScene: (id, updates, historyLabel) =>
+      notify(store.updateScene(id, updates, historyLabel), ['scenes'], undefined, [id]),
+    appendSceneImages: (id, imageIds, updates) =>
+      notify(store.appendSceneImages(id, imageIds, updates), ['scenes'], undefined, [id]),
+    updateShot: (sceneId, shotId, updates, historyLabel) =>
+      notify(store.updateShot(sceneId, shotId, updates, historyLabel), ['scenes'], undefined, [sceneId]),
+    updateShots: (sceneId, updater, historyLabel) =>
+      notify(store.updateShots(sceneId, updater, historyLabel), ['scenes'], undefined, [sceneId]),
+    appendShotImages: (sceneId, shotId, imageIds, updates) =>
+      notify(store.appendShotImages(sceneId, shotId, imageIds, updates), ['scenes'], undefined, [sceneId]),
+    deleteScene: (id) => notify(store.deleteScene(id), ['scenes'], undefined, [id]),
+
+    saveAnalysisResult: (scriptId, characters, scenes, options) =>
+      notify(store.saveAnalysisResult(scriptId, characters, scenes, options), ALL_TOPICS, scriptId),
+
+    history: history && {
+      ...history,
+      undo: (scriptId) => notify(history.undo(scriptId), ALL_TOPICS, scriptId),
+      redo: (scriptId) => notify(history.redo(scriptId), ALL_TOPICS, scriptId),
+      restoreSnapshot: (id) => notify(history.restoreSnapshot(id), ALL_TOPICS),
+    },
+  };
+}
+
+let currentStore: ProjectStore | null = null;
+
+// 설정에 따른 현재 저장소
+export function getProjectStore(): ProjectStore {
+  if (!currentStore) {
+    const config = loadProjectStoreConfig();
+    currentStore = withChangeEvents(
+      config.type === 'remote' ? createRemoteProjectStore(config.url, config.token ?? '') : createLocalProjectStore()
+    );
+  }
+  return currentStore;
+}
+
+// 저장소 직접 지정 (테스트에서 메모리 저장소 사용 등) - null이면 설정값으로 되돌린다
+export function setProjectStore(store: ProjectStore | null): void {
+  currentStore = store;
+}
@@ -0,0 +1,189 @@
+// 원격 저장소 구현 - 같은 네트워크의 저장 서버(server/index.js)와 REST로 통신
+import type { Script, Character, Scene, Shot } from '../types';
+import type { ProjectStore } from './projectStore';
+import { dataUrlToBlob, createThumbnail, createSceneImageId, createCharacterImageId } from './imageData';
+import { StorageQuotaError } from './storageQuota';
+
+type ImageKind = 'scene' | 'character';
+
+// 샷 목록 변경이 다른 변경과 겹쳤을 때 다시 시도하는 횟수
+const MAX_SHOTS_UPDATE_ATTEMPTS = 5;
+
+// token: 서버의 PROJECT_TOKEN과 같은 공유 토큰 (모든 요청에 X-Project-Token 헤더로 보낸다)
+export function createRemoteProjectStore(baseUrl: string, token: string): ProjectStore {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const send = async (method: string, path: string, body?: BodyInit, contentType?: string): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method,
+        body,
+        headers: {
+          'X-Project-Token': token,
+          ...(contentType ? { 'Content-Type': contentType } : {}),
+        },
+      });
+    } catch {
+      throw new Error(`저장 서버(${root})에 연결할 수 없습니다. 서버가 실행 중인지 확인해주세요.`);
+    }
+    if (response.status === 401) {
+      throw new Error('저장 서버가 토큰을 거부했습니다. 설정의 서버 토큰을 확인해주세요.');
+    }
+    if (response.status === 507) {
+      throw new StorageQuotaError('저장 서버의 디스크 공간이 부족합니다.');
+    }
+    // 409(그 사이 바뀜)는 호출한 쪽에서 다시 시도한다
+    if (!response.ok && response.status !== 404 && response.status !== 409) {
+      const message = await response.json().then((data) => data?.error, () => undefined);
+      throw new Error(`저장 서버 오류 (${response.status}): ${message || response.statusText}`);
+    }
+    return response;
+  };
+
+  const json = async <T>(method: string, path: string, body?: unknown): Promise<T | undefined> => {
+    const response = await send(
+      method,
+      path,
+      body === undefined ? undefined : JSON.stringify(body),
+      body === undefined ? undefined : 'application/json'
+    );
+    if (response.status === 404) return undefined;
+    if (response.status === 204) return undefined;
+    return response.json() as Promise<T>;
+  };
+
+  const list = async <T>(path: string): Promise<T[]> => (await json<T[]>('GET', path)) ?? [];
+  const id = encodeURIComponent;
+
+  const putImage = async (
+    kind: ImageKind,
+    imageId: string,
+    scriptId: string,
+    ownerId: string,
+    imageIndex: number,
+    imageData: Blob | string
+  ): Promise<string> => {
+    const blob = typeof imageData === 'string' ? dataUrlToBlob(imageData) : imageData;
+    const query = new URLSearchParams({ scriptId, ownerId, index: String(imageIndex) });
+    try {
+      await send('PUT', `/api/images/${kind}/${id(imageId)}?${query}`, blob, blob.type || 'image/png');
+    } catch (err) {
+      if (err instanceof StorageQuotaError) {
+        throw new StorageQuotaError(err.message, blob);
+      }
+      throw err;
+    }
+    // 썸네일은 브라우저에서 만들어서 함께 올린다 (실패해도 원본으로 표시)
+    const thumbnail = await createThumbnail(blob);
+    if (thumbnail) {
+      await send('PUT', `/api/thumbnails/${id(imageId)}`, thumbnail, thumbnail.type).catch((err) =>
+        console.error('썸네일 업로드 실패:', err)
+      );
+    }
+    return imageId;
+  };
+
+  const getBlobs = async (paths: (imageId: string) => string[], imageIds: string[]): Promise<Record<string, Blob>> => {
+    const result: Record<string, Blob> = {};
+    const ids = [...new Set(imageIds)].filter((imageId) => imageId && !imageId.startsWith('data:'));
+    await Promise.all(
+      ids.map(async (imageId) => {
+        // 앞의 경로부터 시도 (썸네일 -> 원본)
+        for (const path of paths(imageId)) {
+          const response = await send('GET', path);
+          if (response.ok) {
+            result[imageId] = await response.blob();
+            return;
+          }
+        }
+      })
+    );
+    return result;
+  };
+
+  const imagePath = (kind: ImageKind) => (imageId: string) => [`/api/images/${kind}/${id(imageId)}`];
+  const thumbnailPath = (kind: ImageKind) => (imageId: string) => [
+    `/api/thumbnails/${id(imageId)}`,
+    `/api/images/${kind}/${id(imageId)}`,
+  ];
+
+  return {
+    kind: 'remote',
+
+    listScripts: () => list<Script>('/api/scripts'),
+    getScript: (scriptId) => json<Script>('GET', `/api/scripts/${id(scriptId)}`),
+    addScript: async (script) => {
+      await json('PUT', `/api/scripts/${id(script.id)}`, script);
+    },
+    updateScript: async (scriptId, updates) => {
+      await json('PATCH', `/api/scripts/${id(scriptId)}`, updates);
+    },
+    deleteScript: async (scriptId) => {
+      await json('DELETE', `/api/scripts/${id(scriptId)}`);
+    },
+
+    getCharactersByScript: (scriptId) => list<Character>(`/api/scripts/${id(scriptId)}/characters`),
+    getCharacter: (characterId) => json<Character>('GET', `/api/characters/${id(characterId)}`),
+    updateCharacter: async (characterId, updates) => {
+      await json('PATCH', `/api/characters/${id(characterId)}`, updates);
+    },
+    appendCharacterImages: (characterId, imageIds) =>
+      json<Character>('POST', `/api/characters/${id(characterId)}/images`, { imageIds }),
+    removeCharacterImage: (characterId, imageId) =>
+      json<Character>('DELETE', `/api/characters/${id(characterId)}/images/${id(imageId)}`),
+    deleteCharacter: async (characterId) => {
+      await json('DELETE', `/api/characters/${id(characterId)}`);
+    },
+
+    getScenesByScript: (scriptId) => list<Scene>(`/api/scripts/${id(scriptId)}/scenes`),
+    getScene: (sceneId) => json<Scene>('GET', `/api/scenes/${id(sceneId)}`),
+    updateScene: async (sceneId, updates) => {
+      await json('PATCH', `/api/scenes/${id(sceneId)}`, updates);
+    },
+    appendSceneImages: (sceneId, imageIds, updates = {}) =>
+      json<Scene>('POST', `/api/scenes/${id(sceneId)}/images`, { imageIds, updates }),
+    updateShot: async (sceneId, shotId, updates) => {
+      await json('PATCH', `/api/scenes/${id(sceneId)}/shots/${id(shotId)}`, updates);
+    },
+    // 읽은 뒤 바뀌지 않았을 때만 저장 (서버가 updatedAt을 비교) - 겹치면 최신 값으로 다시 적용
+    updateShots: async (sceneId, updater) => {
+      for (let attempt = 0; attempt < MAX_SHOTS_UPDATE_ATTEMPTS; attempt++) {
+        const scene = await json<Scene>('GET', `/api/scenes/${id(sceneId)}`);
+        if (!scene) return undefined;
+        const shots: Shot[] = updater(scene.shots ?? []);
+        const response = await send(
+          'PUT',
+          `/api/scenes/${id(sceneId)}/shots`,
+          JSON.stringify({ shots, expectedUpdatedAt: scene.updatedAt }),
+          'application/json'
+        );
+        if (response.status === 404) return undefined;
+        if (response.status !== 409) return response.json() as Promise<Scene>;
+      }
+      throw new Error('다른 작업이 장면을 계속 바꾸고 있어서 샷 목록을 저장하지 못했습니다. 잠시 후 다시 시도해주세요.');
+    },
+    appendShotImages: (sceneId, shotId, imageIds, updates = {}) =>
+      json<Scene>('POST', `/api/scenes/${id(sceneId)}/shots/${id(shotId)}/images`, { imageIds, updates }),
+    deleteScene: async (sceneId) => {
+      await json('DELETE', `/api/scenes/${id(sceneId)}`);
+    },
+
+    saveAnalysisResult: async (scriptId, characters, scenes, options = {}) => {
+      await json('POST', `/api/scripts/${id(scriptId)}/analysis`, {
+        characters,
+        scenes,
+        scriptUpdates: options.scriptUpdates,
+      });
+    },
+
+    saveImage: (scriptId, sceneId, imageIndex, imageData) =>
+      putImage('scene', createSceneImageId(sceneId, imageIndex), scriptId, sceneId, imageIndex, imageData),
+    saveCharacterImage: (scriptId, characterId, imageIndex, imageData) =>
+      putImage('character', createCharacterImageId(characterId, imageIndex), scriptId, characterId, imageIndex, imageData),
+    getImages: (imageIds) => getBlobs(imagePath('scene'), imageIds),
+    getThumbnails: (imageIds) => getBlobs(thumbnailPath('scene'), imageIds),
+    getCharacterImages: (imageIds) => getBlobs(imagePath('character'), imageIds),
+    getCharacterThumbnails: (imageIds) => getBlobs(thumbnailPath('character'), imageIds),
+  };
+}
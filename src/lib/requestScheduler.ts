@@ -0,0 +1,243 @@
+// API 요청 스케줄러 - 모든 Gemini 요청이 이 줄을 거친다
+// 동시에 보내는 요청 수와 분당 요청 수에 맞춰 간격을 두고, 일시적인 오류(429/503 등)는 지수 백오프 + 지터로 다시 시도한다
+// 429를 받으면 서버가 알려준 대기 시간만큼 모든 요청을 멈추고, 한동안 간격을 넓혔다가 성공하면 되돌린다
+import { saveData, loadData } from './storage';
+
+export interface RequestSchedulerSettings {
+  requestsPerMinute: number;
+  maxConcurrent: number; // 동시에 보내는 요청 수 (생성 큐도 이만큼 작업을 동시에 진행)
+  maxRetries: number; // 일시적인 오류일 때 다시 시도하는 횟수
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: RequestSchedulerSettings = {
+  requestsPerMinute: 10,
+  maxConcurrent: 3,
+  maxRetries: 4,
+};
+
+const SETTINGS_KEY = 'requestScheduler';
+
+export function loadSchedulerSettings(): RequestSchedulerSettings {
+  return { ...DEFAULT_SCHEDULER_SETTINGS, ...loadData<Partial<RequestSchedulerSettings>>(SETTINGS_KEY) };
+}
+
+export function saveSchedulerSettings(settings: RequestSchedulerSettings): void {
+  saveData(SETTINGS_KEY, settings);
+}
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+const MAX_SLOWDOWN = 8; // 429를 받았을 때 요청 간격을 최대 몇 배까지 넓힐지
+
+// 다시 시도해도 결과가 같은 오류 (API 키 오류, 안전 필터 차단, 일일 한도 초과 등)
+export class PermanentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentRequestError';
+  }
+}
+
+type RequestErrorKind = 'cancelled' | 'rate-limit' | 'transient' | 'permanent';
+
+interface ClassifiedError {
+  kind: RequestErrorKind;
+  retryAfterMs?: number; // 서버가 알려준 대기 시간
+  message?: string; // 사용자에게 보여줄 메시지 (원래 메시지를 바꿀 때)
+}
+
+function getErrorStatus(err: unknown): number | undefined {
+  if (err && typeof err === 'object' && 'status' in err && typeof err.status === 'number') {
+    return err.status;
+  }
+  const message = err instanceof Error ? err.message : '';
+  const match = message.match(/"code"\s*:\s*(\d{3})/) ?? message.match(/got status:\s*(\d{3})/);
+  return match ? Number(match[1]) : undefined;
+}
+
+// 오류 응답의 RetryInfo ("retryDelay": "37s") 또는 "Please retry in 37.5s."
+export function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+export function classifyRequestError(err: unknown): ClassifiedError {
+  if (err instanceof PermanentRequestError) return { kind: 'permanent' };
+  if (err instanceof Error && err.name === 'AbortError') return { kind: 'cancelled' };
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = getErrorStatus(err);
+
+  if (status === 429) {
+    // 일일 한도는 기다려도 오늘 안에 풀리지 않는다
+    if (/PerDay|per day/i.test(message)) {
+      return { kind: 'permanent', message: '오늘 사용할 수 있는 Gemini 요청 수를 모두 사용했습니다. 내일 다시 시도하거나 요금제를 확인해주세요.' };
+    }
+    return { kind: 'rate-limit', retryAfterMs: parseRetryDelay(message) };
+  }
+  if (status === 408 || status === 500 || status === 502 || status === 503 || status === 504) {
+    return { kind: 'transient', retryAfterMs: parseRetryDelay(message) };
+  }
+  if (status === 400 && /API key not valid|API_KEY_INVALID/i.test(message)) {
+    return { kind: 'permanent', message: 'API 키가 올바르지 않습니다. 설정 페이지에서 Gemini API 키를 확인해주세요.' };
+  }
+  if (status === 401 || status === 403) {
+    return { kind: 'permanent', message: 'API 키에 이 모델을 사용할 권한이 없습니다. 설정 페이지에서 Gemini API 키를 확인해주세요.' };
+  }
+  if (status !== undefined) return { kind: 'permanent' };
+  // fetch 자체가 실패 (네트워크 끊김 등)
+  if (err instanceof TypeError) return { kind: 'transient' };
+  return { kind: 'permanent' };
+}
+
+function abortError(): DOMException {
+  return new DOMException('요청을 취소했습니다.', 'AbortError');
+}
+
+// 대기 - 중지하면 AbortError로 끝난다
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 지수 백오프 + 지터 (같은 순간에 실패한 요청들이 한꺼번에 다시 몰리지 않도록)
+function getBackoffMs(attempt: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+// 동시 실행 수 제한 - 자리가 꽉 차면 먼저 온 순서대로 기다린다 (기다리다 중지하면 AbortError)
+export interface ConcurrencyLimiter {
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+export function createConcurrencyLimiter(getLimit: () => number): ConcurrencyLimiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async (signal?: AbortSignal) => {
+    while (active >= Math.max(1, getLimit())) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          waiting.splice(waiting.indexOf(wake), 1);
+          reject(abortError());
+        };
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+        waiting.push(wake);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    active++;
+  };
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return {
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      await acquire(signal);
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  label?: string; // 로그에 남길 요청 이름
+}
+
+export interface RequestScheduler {
+  schedule<T>(request: () => Promise<T>, options?: ScheduleOptions): Promise<T>;
+}
+
+export function createRequestScheduler(
+  getSettings: () => RequestSchedulerSettings = loadSchedulerSettings
+): RequestScheduler {
+  let nextStartAt = 0; // 다음 요청을 시작할 수 있는 시각
+  let blockedUntil = 0; // 429 이후 모든 요청을 멈추는 시각
+  let slowdown = 1; // 요청 간격 배수
+  // 응답을 기다리는 요청 수 제한
+  const limiter = createConcurrencyLimiter(() => getSettings().maxConcurrent);
+
+  // 요청 시작 순번 예약 - 분당 요청 수만큼 고르게 나눈다
+  const waitForSlot = async (signal?: AbortSignal) => {
+    const { requestsPerMinute } = getSettings();
+    const interval = (60_000 / Math.max(1, requestsPerMinute)) * slowdown;
+    const startAt = Math.max(Date.now(), nextStartAt, blockedUntil);
+    nextStartAt = startAt + interval;
+    await sleep(startAt - Date.now(), signal);
+    // 기다리는 동안 다른 요청이 429를 받았으면 더 기다린다
+    while (Date.now() < blockedUntil) {
+      await sleep(blockedUntil - Date.now(), signal);
+    }
+  };
+
+  // 자리를 잡고 순번을 기다렸다가 요청 (응답을 받으면 자리를 내준다)
+  const attempt = <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    limiter.run(async () => {
+      await waitForSlot(signal);
+      return request();
+    }, signal);
+
+  return {
+    async schedule<T>(request: () => Promise<T>, { signal, label = 'Gemini 요청' }: ScheduleOptions = {}): Promise<T> {
+      const { maxRetries } = getSettings();
+      for (let retry = 0; ; retry++) {
+        try {
+          const result = await attempt(request, signal);
+          slowdown = Math.max(1, slowdown * 0.8);
+          return result;
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          const classified = classifyRequestError(err);
+          if (classified.kind === 'cancelled') throw err;
+          if (classified.kind === 'permanent') {
+            throw classified.message ? new PermanentRequestError(classified.message) : err;
+          }
+
+          if (retry >= maxRetries) {
+            console.error(`${label} 실패 (${retry + 1}번 시도):`, err);
+            throw new Error(
+              classified.kind === 'rate-limit'
+                ? 'Gemini 요청 한도를 넘었습니다. 잠시 후 다시 시도하거나 설정에서 분당 요청 수를 낮춰주세요.'
+                : `Gemini 서버가 응답하지 않습니다. (${retry + 1}번 시도) 잠시 후 다시 시도해주세요.`
+            );
+          }
+
+          const waitMs = classified.retryAfterMs ?? getBackoffMs(retry);
+          if (classified.kind === 'rate-limit') {
+            slowdown = Math.min(MAX_SLOWDOWN, slowdown * 2);
+            blockedUntil = Math.max(blockedUntil, Date.now() + waitMs);
+          }
+          console.warn(`${label} 일시적 오류 - ${Math.round(waitMs / 1000)}초 후 다시 시도 (${retry + 1}/${maxRetries}):`, err);
+          await sleep(waitMs, signal);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// 대본 분석 진입점 - 형식에 맞는 대본은 규칙 기반 파서로, 아니면 AI로 분석한다
+import type { AnalysisResult, Script } from '../types';
+import { AnalysisCancelledError, analyzeScript, enrichParsedScript, hasApiKey, type AnalyzeOptions } from './gemini';
+import { parseStructuredScript } from './scriptParser';
+
+export type AnalysisMethod = 'parser' | 'parser+ai' | 'ai';
+
+export interface ScriptAnalysis {
+  result: AnalysisResult;
+  method: AnalysisMethod;
+  warning?: string; // AI 보강을 못 했을 때 사용자에게 알릴 내용
+}
+
+// 긴 대본은 나눠서 분석하고 options.onProgress로 진행 상황을 알린다
+export async function analyzeScriptContent(content: string, options: AnalyzeOptions = {}): Promise<ScriptAnalysis> {
+  const parsed = parseStructuredScript(content);
+  if (!parsed) {
+    return { result: await analyzeScript(content, options), method: 'ai' };
+  }
+  const { warnings, ...result } = parsed;
+  const withParserWarnings = (warning?: string) =>
+    [warning, ...warnings].filter(Boolean).join('\n') || undefined;
+
+  // 장면 나누기는 파서 결과로 고정, AI는 외모/시각 묘사 보강에만 사용 (실패해도 파서 결과로 진행)
+  if (!hasApiKey()) {
+    return {
+      result,
+      method: 'parser',
+      warning: withParserWarnings('API 키가 없어 규칙 기반 분석 결과만 사용했습니다. 시각 묘사는 원문 지문으로 채워집니다.'),
+    };
+  }
+  try {
+    return { result: await enrichParsedScript(parsed, options), method: 'parser+ai', warning: withParserWarnings() };
+  } catch (err) {
+    // 취소는 파서 결과로 넘어가지 않고 그대로 알린다
+    if (err instanceof AnalysisCancelledError) throw err;
+    console.error('AI 보강 실패:', err);
+    const reason = err instanceof Error ? err.message : '알 수 없는 오류';
+    return {
+      result,
+      method: 'parser',
+      warning: withParserWarnings(`AI 보강에 실패해서 규칙 기반 분석 결과만 사용했습니다. (${reason})`),
+    };
+  }
+}
+
+// ===== 진행 중인 분석 =====
+// 분석은 시작한 탭에서만 돌기 때문에 탭을 닫으면 대본이 'analyzing' 상태로 남는다.
+// 분석하는 동안 대본별 Web Lock을 잡아 두고, 불러올 때 잠금이 없으면 초안으로 본다.
+
+const runningAnalyses = new Set<string>();
+
+const analysisLockName = (scriptId: string) => `script-analysis:${scriptId}`;
+
+export async function runScriptAnalysis<T>(scriptId: string, task: () => Promise<T>): Promise<T> {
+  runningAnalyses.add(scriptId);
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return await navigator.locks.request(analysisLockName(scriptId), task);
+    }
+    return await task();
+  } finally {
+    runningAnalyses.delete(scriptId);
+  }
+}
+
+async function isAnalysisRunning(scriptId: string): Promise<boolean> {
+  if (runningAnalyses.has(scriptId)) return true;
+  if (typeof navigator === 'undefined' || !navigator.locks) return false;
+  const { held = [] } = await navigator.locks.query();
+  return held.some((lock) => lock.name === analysisLockName(scriptId));
+}
+
+// 분석하던 탭이 닫혀서 'analyzing'으로 남은 대본은 초안으로 돌려준다
+export async function resolveAnalysisStatus(script: Script): Promise<Script> {
+  if (script.status !== 'analyzing' || (await isAnalysisRunning(script.id))) return script;
+  return { ...script, status: 'draft' };
+}
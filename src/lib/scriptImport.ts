@@ -0,0 +1,307 @@
+// 대본 파일 불러오기 - Fountain(.fountain), Final Draft(.fdx)를 규칙 기반 파서가 읽는 형식의 텍스트로 변환
+// 장면 제목/등장인물/대사를 미리 나눠 두면 분석이 장면 경계를 추측하지 않는다 (scriptParser.ts)
+// Word(.docx), PDF, 텍스트(.txt)는 본문 텍스트만 꺼낸다 (documentText.ts)
+import { decodeText, extractDocxText, extractPdfText, normalizeDocumentText } from './documentText';
+
+export type ScreenplayElement =
+  | { type: 'action'; text: string }
+  | { type: 'dialogue'; character: string; parenthetical?: string; text: string };
+
+export interface ScreenplayScene {
+  heading: string; // 예: "INT. COFFEE SHOP - DAY"
+  elements: ScreenplayElement[];
+}
+
+export interface Screenplay {
+  title?: string;
+  scenes: ScreenplayScene[];
+}
+
+export type ScriptFileFormat = 'fountain' | 'fdx' | 'docx' | 'pdf' | 'text';
+
+export interface ImportedScript {
+  title?: string;
+  rawContent: string;
+  format: ScriptFileFormat;
+  sceneCount?: number; // 장면을 미리 나눈 경우
+  characterCount?: number;
+  encoding?: string; // 텍스트 파일 인코딩 (UTF-8, EUC-KR 등)
+  pageCount?: number; // PDF 쪽수
+}
+
+export const SCRIPT_FILE_ACCEPT = '.fountain,.spmd,.fdx,.docx,.pdf,.txt';
+
+export const SCRIPT_FILE_FORMAT_NAMES: Record<ScriptFileFormat, string> = {
+  fountain: 'Fountain',
+  fdx: 'Final Draft',
+  docx: 'Word',
+  pdf: 'PDF',
+  text: '텍스트',
+};
+
+// ===== Fountain =====
+
+const FOUNTAIN_SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const FOUNTAIN_TRANSITION = /^(?:[A-Z\s]+TO:|FADE (?:IN|OUT)\.?|CUT TO BLACK\.?)$/;
+// 캐릭터 이름: 영문 대문자 (확장자 "(V.O.)", 이중 대사 "^" 허용) - 한글 이름은 "@이름"으로 지정
+const FOUNTAIN_CHARACTER = /^(?=.*[A-Z])[A-Z0-9 .'\-()^]+$/;
+
+function cleanCharacterName(cue: string): string {
+  return cue
+    .replace(/^@/, '')
+    .replace(/\^$/, '')
+    .replace(/\s*\([^)]*\)\s*/g, ' ') // (V.O.), (CONT'D)
+    .trim();
+}
+
+function stripFountainMarkup(text: string): string {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, '') // 주석 (boneyard)
+    .replace(/\[\[[\s\S]*?\]\]/g, ''); // 메모
+}
+
+function stripEmphasis(line: string): string {
+  return line.replace(/\\\*/g, '\u0000').replace(/\*{1,3}|_/g, '').replace(/\u0000/g, '*');
+}
+
+export function parseFountain(source: string): Screenplay {
+  const lines = stripFountainMarkup(source.replace(/\r\n?/g, '\n')).split('\n');
+  const screenplay: Screenplay = { scenes: [] };
+  let index = 0;
+
+  // 타이틀 페이지 ("Title: ..." 같은 키: 값 줄, 첫 빈 줄까지)
+  if (/^[A-Za-z ]+:/.test(lines[0] ?? '')) {
+    while (index < lines.length && lines[index].trim()) {
+      const title = lines[index].match(/^Title:\s*(.*)$/i);
+      if (title) {
+        const value = title[1].trim() || (lines[index + 1] ?? '').trim();
+        screenplay.title = stripEmphasis(value) || undefined;
+      }
+      index++;
+    }
+  }
+
+  let scene: ScreenplayScene | null = null;
+  const addElement = (element: ScreenplayElement) => {
+    if (!scene) {
+      // 첫 장면 제목 전의 내용은 제목 없는 장면으로
+      scene = { heading: '', elements: [] };
+      screenplay.scenes.push(scene);
+    }
+    scene.elements.push(element);
+  };
+
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+    const previousBlank = index === 0 || !lines[index - 1].trim();
+    const next = (lines[index + 1] ?? '').trim();
+
+    // 섹션(#), 시놉시스(=), 페이지 나누기(===)는 건너뛴다
+    if (/^#/.test(line) || /^=(?!=)/.test(line) || /^={3,}$/.test(line)) continue;
+
+    // 장면 제목 (".제목"은 강제 지정, 끝의 "#1#"은 장면 번호)
+    if (previousBlank && (FOUNTAIN_SCENE_HEADING.test(line) || /^\.[^.]/.test(line))) {
+      scene = {
+        heading: stripEmphasis(line.replace(/^\./, '').replace(/\s*#[^#]+#\s*$/, '')).trim(),
+        elements: [],
+      };
+      screenplay.scenes.push(scene);
+      continue;
+    }
+
+    // 전환 (CUT TO: 등)
+    if (line.startsWith('>') && !line.endsWith('<')) continue;
+    if (previousBlank && !next && FOUNTAIN_TRANSITION.test(line)) continue;
+
+    // 캐릭터 + 대사 ("@이름"은 강제 지정)
+    if (previousBlank && next && (line.startsWith('@') || (FOUNTAIN_CHARACTER.test(line) && !line.startsWith('!')))) {
+      const character = cleanCharacterName(line);
+      const parentheticals: string[] = [];
+      const dialogue: string[] = [];
+      while (index + 1 < lines.length && lines[index + 1].trim()) {
+        index++;
+        const text = lines[index].trim();
+        if (/^\(.*\)$/.test(text)) {
+          parentheticals.push(text.slice(1, -1));
+        } else {
+          dialogue.push(stripEmphasis(text.replace(/^~/, '')));
+        }
+      }
+      addElement({
+        type: 'dialogue',
+        character,
+        parenthetical: parentheticals.join(', ') || undefined,
+        text: dialogue.join(' '),
+      });
+      continue;
+    }
+
+    // 지문 ("!"는 강제 지정, "> <"는 가운데 정렬)
+    addElement({ type: 'action', text: stripEmphasis(line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1')) });
+  }
+
+  return screenplay;
+}
+
+// ===== Final Draft (FDX) =====
+
+export function parseFdx(source: string): Screenplay {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.querySelector('parsererror') || !doc.querySelector('FinalDraft')) {
+    throw new Error('Final Draft(.fdx) 파일 형식이 올바르지 않습니다.');
+  }
+
+  const screenplay: Screenplay = { scenes: [] };
+  let scene: ScreenplayScene | null = null;
+  let character: string | null = null;
+  let parenthetical: string | undefined;
+
+  const addElement = (element: ScreenplayElement) => {
+    if (!scene) {
+      scene = { heading: '', elements: [] };
+      screenplay.scenes.push(scene);
+    }
+    scene.elements.push(element);
+  };
+
+  // 타이틀 페이지(TitlePage > Content)의 문단은 본문이 아니다
+  const paragraphs = [...doc.querySelectorAll('FinalDraft > Content > Paragraph')];
+  for (const paragraph of paragraphs) {
+    const type = paragraph.getAttribute('Type') ?? 'General';
+    const text = [...paragraph.querySelectorAll('Text')]
+      .map((node) => node.textContent ?? '')
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) continue;
+
+    switch (type) {
+      case 'Scene Heading':
+        scene = { heading: text, elements: [] };
+        screenplay.scenes.push(scene);
+        character = null;
+        break;
+      case 'Character':
+        character = cleanCharacterName(text);
+        parenthetical = undefined;
+        break;
+      case 'Parenthetical':
+        parenthetical = text.replace(/^\(|\)$/g, '');
+        break;
+      case 'Dialogue':
+        if (character) {
+          addElement({ type: 'dialogue', character, parenthetical, text });
+          parenthetical = undefined;
+        } else {
+          addElement({ type: 'action', text });
+        }
+        break;
+      case 'Transition':
+        break;
+      default: // Action, Shot, General
+        character = null;
+        addElement({ type: 'action', text });
+    }
+  }
+
+  const title = doc.querySelector('TitlePage Paragraph Text')?.textContent?.trim();
+  if (title) screenplay.title = title;
+  return screenplay;
+}
+
+// ===== 변환 =====
+
+export function getScreenplayCharacters(screenplay: Screenplay): string[] {
+  const names = screenplay.scenes.flatMap((scene) =>
+    scene.elements.flatMap((element) => (element.type === 'dialogue' ? [element.character] : []))
+  );
+  return [...new Set(names)];
+}
+
+// 규칙 기반 파서 형식의 텍스트로 변환
+export function screenplayToText(screenplay: Screenplay): string {
+  const characters = getScreenplayCharacters(screenplay);
+  const blocks: string[] = [];
+
+  if (characters.length > 0) {
+    blocks.push(['## 등장인물', ...characters.map((name) => `- ${name}:`)].join('\n'));
+    blocks.push('---');
+  }
+
+  screenplay.scenes.forEach((scene, index) => {
+    const body = scene.elements.map((element) =>
+      element.type === 'action'
+        ? element.text
+        : `${element.character}: ${element.parenthetical ? `(${element.parenthetical}) ` : ''}${element.text}`
+    );
+    blocks.push([`### 장면 ${index + 1}. ${scene.heading || '장소 미정'}`, '', ...body].join('\n'));
+  });
+
+  return blocks.join('\n\n');
+}
+
+function getExtension(fileName: string): string {
+  return fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+}
+
+function getBaseName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+// 문서에서 꺼낸 텍스트는 장면을 나누지 않고 그대로 (형식이 맞으면 분석 때 규칙 기반 파서가 읽는다)
+function importDocument(fileName: string, format: ScriptFileFormat, document: { text: string; title?: string }) {
+  if (!document.text.trim()) {
+    throw new Error('파일에서 대본 내용을 찾지 못했습니다.');
+  }
+  return { title: document.title || getBaseName(fileName), rawContent: document.text, format };
+}
+
+export async function importScriptFile(file: File): Promise<ImportedScript> {
+  const extension = getExtension(file.name);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  switch (extension) {
+    case 'docx':
+      return importDocument(file.name, 'docx', extractDocxText(bytes));
+    case 'pdf': {
+      const pdf = await extractPdfText(bytes);
+      return { ...importDocument(file.name, 'pdf', pdf), pageCount: pdf.pageCount };
+    }
+    case 'txt': {
+      // 한글에서 텍스트로 저장한 파일은 EUC-KR인 경우가 많다
+      const { text, encoding } = decodeText(bytes);
+      return { ...importDocument(file.name, 'text', { text: normalizeDocumentText(text) }), encoding };
+    }
+  }
+
+  const { text } = decodeText(bytes);
+  let screenplay: Screenplay;
+  let format: ScriptFileFormat;
+  switch (extension) {
+    case 'fountain':
+    case 'spmd':
+      screenplay = parseFountain(text);
+      format = 'fountain';
+      break;
+    case 'fdx':
+      screenplay = parseFdx(text);
+      format = 'fdx';
+      break;
+    default:
+      throw new Error(`지원하지 않는 파일 형식입니다: .${extension} (지원: ${SCRIPT_FILE_ACCEPT})`);
+  }
+
+  if (screenplay.scenes.length === 0) {
+    throw new Error('대본에서 장면을 찾지 못했습니다.');
+  }
+
+  return {
+    title: screenplay.title || getBaseName(file.name),
+    rawContent: screenplayToText(screenplay),
+    format,
+    sceneCount: screenplay.scenes.length,
+    characterCount: getScreenplayCharacters(screenplay).length,
+  };
+}
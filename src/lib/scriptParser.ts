@@ -0,0 +1,315 @@
+// 규칙 기반 대본 파서 - 정해진 형식의 대본은 AI 없이 같은 결과로 분석한다
+// 지원 형식 (sample_script.txt 참고):
+//   ## 등장인물
+//   - 수아 (24세, 여): 대학원생. 긴 검은 머리
+//   ### 장면 1. 카페 내부 - 오후
+//   S#1. 카페 내부 / 오후
+import type { AnalysisResult, AnalyzedDialogue, Appearance } from '../types';
+import { createNameResolver } from './characterNames';
+
+// 파서 결과 - 외모의 나이/성별 외에는 원문(한국어) 그대로라 AI 보강 전에는 임시 값
+// warnings: 사용자에게 알릴 내용 (장면에 넣지 못하고 버린 글 등)
+export type ParsedScript = AnalysisResult & { warnings: string[] };
+
+type ParsedCharacter = AnalysisResult['characters'][number];
+type ParsedScene = AnalysisResult['scenes'][number];
+
+// 장면 제목 줄: "### 장면 1. 장소 - 시간", "S#1. 장소 / 시간", "씬 1: 장소 (시간)"
+const SCENE_HEADING = /^\s*(?:#{1,6}\s*)?(?:S\s*#\s*|씬\s*|장면\s*|Scene\s+)(\d+)\s*[.:)]?\s*(.*)$/i;
+// 번호만 있는 제목: "#1. 카페 내부 - 오후" - 장소/시간 표시가 있을 때만 장면 ("# 1984 독후감"은 제목)
+const NUMBERED_HEADING = /^\s*#{1,6}\s*(\d+)\s*[.:)]?\s*(.*)$/;
+const LOCATION_MARKERS = /내부|외부|실내|실외|\b(?:INT|EXT)\b/i;
+// 등장인물 목록 제목
+const CHARACTER_HEADING = /^\s*(?:#{1,6}\s*|\[\s*)?(?:등장\s*인물|인물\s*소개|캐릭터)\s*\]?\s*:?\s*$/;
+// 등장인물 줄: "- 이름 (24세, 여): 설명", "이름(24/남) - 설명", "이름: 설명"
+const CHARACTER_LINE = /^\s*[-*·•]?\s*([^\s(:：\-–][^(:：]*?)\s*(?:[(（]([^)）]*)[)）])?\s*(?:[:：]|\s[-–]\s)\s*(.*)$/;
+// 대사 줄: "이름: 대사", "이름 (속삭이며): 대사"
+const DIALOGUE_LINE = /^\s*([^\s:：(（.][^:：(（]{0,14}?)\s*(?:[(（][^)）]*[)）])?\s*[:：]/;
+// 대사 줄 전체: 화자, 괄호 속 말투, 대사
+const DIALOGUE_PARTS = /^\s*([^\s:：(（.][^:：(（]{0,14}?)\s*(?:[(（]([^)）]*)[)）])?\s*[:：]\s*(.*)$/;
+// 대사 앞의 지시: "(작게) 뭐야?"
+const LEADING_DIRECTION = /^[(（]([^)）]*)[)）]\s*/;
+// 화자가 아닌 내레이션 표시
+const NARRATION_SPEAKERS = /^(?:내레이션|나레이션|해설|NA|N|NAR)$/i;
+// 속으로 하는 말
+const THOUGHT_TONES = /속마음|속으로|생각|독백|O\.?S\.?/i;
+const END_MARKERS = /^\s*[(（]?\s*(?:끝|END|THE END|FIN)\s*[)）]?\s*$/i;
+const SEPARATOR = /^\s*(?:-{3,}|={3,}|\*{3,})\s*$/;
+
+const TIME_OF_DAY: [RegExp, string][] = [
+  [/새벽/, 'dawn'],
+  [/아침|오전/, 'morning'],
+  [/낮|정오|점심/, 'afternoon'],
+  [/오후/, 'afternoon'],
+  [/해질|노을|석양|저녁/, 'evening'],
+  [/밤|심야|자정/, 'night'],
+  [/^(?:DAWN|SUNRISE)$/i, 'dawn'],
+  [/^MORNING$/i, 'morning'],
+  [/^(?:AFTERNOON|NOON)$/i, 'afternoon'],
+  [/^(?:EVENING|DUSK|SUNSET)$/i, 'evening'],
+  [/^(?:N|NIGHT|MIDNIGHT)$/i, 'night'],
+  [/^(?:D|DAY)$/i, 'day'],
+];
+
+const GENDER: [RegExp, string][] = [
+  [/^(?:여|여자|여성|F|female)$/i, 'female'],
+  [/^(?:남|남자|남성|M|male)$/i, 'male'],
+];
+
+// 장면 경계 판단용 (긴 대본을 나눌 때도 사용) - 영문 시나리오의 "INT. / EXT." 제목 포함
+export function isSceneHeading(line: string): boolean {
+  return !!matchSceneHeading(line) || /^\s*(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i.test(line);
+}
+
+// 장면 제목이면 제목의 장소/시간 부분 (keyword: "장면", "S#" 같은 표시가 있는 제목)
+function matchSceneHeading(line: string): { rest: string; keyword: boolean } | null {
+  const heading = line.match(SCENE_HEADING);
+  if (heading) return { rest: heading[2], keyword: true };
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered) {
+    const { location, time } = splitHeading(numbered[2]);
+    if ((time && toTimeOfDay(time)) || (location && LOCATION_MARKERS.test(location))) {
+      return { rest: numbered[2], keyword: false };
+    }
+  }
+  return null;
+}
+
+function toTimeOfDay(text: string): string | undefined {
+  const value = text.trim();
+  if (!value) return undefined;
+  return TIME_OF_DAY.find(([pattern]) => pattern.test(value))?.[1];
+}
+
+// "카페 내부 - 오후", "카페 내부 / 오후", "카페 내부 (오후)", "카페 내부, 밤"
+function splitHeading(rest: string): { location?: string; time?: string } {
+  const text = rest.trim();
+  if (!text) return {};
+  const paren = text.match(/^(.*?)\s*[(（]([^)）]+)[)）]\s*$/);
+  if (paren && toTimeOfDay(paren[2])) {
+    return { location: paren[1].trim() || undefined, time: paren[2].trim() };
+  }
+  // 마지막 구분자 뒤가 시간이면 분리 ("INT./EXT. 집 - 밤"의 "/"는 장소의 일부)
+  const separator = [...text.matchAll(/\s+[-–/|]\s+|\s*[/|,]\s*/g)].pop();
+  if (separator?.index !== undefined) {
+    const time = text.slice(separator.index + separator[0].length).trim();
+    if (toTimeOfDay(time)) {
+      return { location: text.slice(0, separator.index).trim() || undefined, time };
+    }
+  }
+  return { location: text };
+}
+
+function parseCharacterInfo(info: string | undefined, description: string): Appearance {
+  const appearance: Appearance = {};
+  const tokens = (info ?? '').split(/[,/，]\s*/).map((t) => t.trim()).filter(Boolean);
+  for (const token of tokens) {
+    const age = token.match(/^(\d+)\s*(?:세|살)?$/);
+    const ageRange = token.match(/^(\d+)\s*대(?:\s*(초반|중반|후반))?$/);
+    const gender = GENDER.find(([pattern]) => pattern.test(token));
+    if (age) {
+      appearance.age = `${age[1]} years old`;
+    } else if (ageRange) {
+      const stage = { 초반: 'early ', 중반: 'mid-', 후반: 'late ' }[ageRange[2] ?? ''] ?? '';
+      appearance.age = `${stage}${ageRange[1]}s`;
+    } else if (gender) {
+      appearance.gender = gender[1];
+    }
+  }
+  // 설명 중 머리 모양은 따로 (나머지는 특징으로 - AI 보강 때 영어로 정리)
+  const phrases = description.split(/[.,，。]\s*/).map((p) => p.trim()).filter(Boolean);
+  const hair = phrases.find((p) => /머리|헤어/.test(p));
+  if (hair) appearance.hair = hair;
+  const features = phrases.filter((p) => p !== hair);
+  if (features.length > 0) appearance.features = features;
+  return appearance;
+}
+
+function parseCharacters(lines: string[]): ParsedCharacter[] {
+  const characters: ParsedCharacter[] = [];
+  for (const line of lines) {
+    const match = line.match(CHARACTER_LINE);
+    if (!match) continue;
+    const name = match[1].trim();
+    if (!name || name.length > 20 || characters.some((c) => c.name === name)) continue;
+    const description = match[3].trim();
+    characters.push({ name, appearance: parseCharacterInfo(match[2], description) });
+  }
+  return characters;
+}
+
+// 화자로 인정할 이름인지 (아니면 "시간: 새벽 3시" 같은 지문)
+type SpeakerFilter = (name: string) => boolean;
+
+function getSpeakerCandidate(line: string): string | undefined {
+  return line.match(DIALOGUE_LINE)?.[1].trim();
+}
+
+function getSpeaker(line: string, isSpeaker: SpeakerFilter): string | undefined {
+  const speaker = getSpeakerCandidate(line);
+  return speaker && isSpeaker(speaker) ? speaker : undefined;
+}
+
+function isNarrator(speaker: string): boolean {
+  return NARRATION_SPEAKERS.test(speaker.replace(/[.\s]/g, ''));
+}
+
+// 대사 줄 -> 화자/말투/대사 (화자 이름은 목록 이름으로 바꾼 뒤)
+function extractDialogue(
+  lines: string[],
+  isSpeaker: SpeakerFilter,
+  resolveSpeaker: (name: string) => string
+): AnalyzedDialogue[] {
+  return lines.flatMap((line): AnalyzedDialogue[] => {
+    const match = line.match(DIALOGUE_PARTS);
+    if (!match || !isSpeaker(match[1].trim())) return [];
+    let text = match[3].trim();
+    const tones = [match[2]?.trim()];
+    const direction = text.match(LEADING_DIRECTION);
+    if (direction) {
+      tones.push(direction[1].trim());
+      text = text.slice(direction[0].length).trim();
+    }
+    if (!text) return [];
+    const tone = tones.filter(Boolean).join(', ') || undefined;
+    const speaker = match[1].trim();
+    if (isNarrator(speaker)) return [{ kind: 'narration', text, tone }];
+    return [
+      {
+        kind: tone && THOUGHT_TONES.test(tone) ? 'thought' : 'speech',
+        speaker: resolveSpeaker(speaker),
+        text,
+        tone,
+      },
+    ];
+  });
+}
+
+// 장면에 등장하는 캐릭터 - 대사를 한 인물 + 지문에 이름이 나온 인물
+function findSceneCharacters(lines: string[], knownNames: string[], isSpeaker: SpeakerFilter): string[] {
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (!names.includes(name)) names.push(name);
+  };
+  lines
+    .map((line) => getSpeaker(line, isSpeaker))
+    .forEach((speaker) => speaker && !isNarrator(speaker) && add(speaker));
+  const text = lines.join('\n');
+  knownNames.filter((name) => text.includes(name)).forEach(add);
+  // 등장 순서대로
+  return names.sort((a, b) => {
+    const indexA = text.indexOf(a);
+    const indexB = text.indexOf(b);
+    return (indexA === -1 ? Infinity : indexA) - (indexB === -1 ? Infinity : indexB);
+  });
+}
+
+// 지문만 모아서 임시 시각 묘사로 사용 (대사 제외)
+function extractAction(lines: string[], isSpeaker: SpeakerFilter): string {
+  return lines
+    .filter((line) => !getSpeaker(line, isSpeaker))
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+// 형식에 맞는 대본이면 분석 결과, 아니면 null (AI 분석으로 넘긴다)
+// "장면 1", "S#1" 같은 장면 제목이나 등장인물 목록이 있어야 형식에 맞는 대본으로 본다
+export function parseStructuredScript(content: string): ParsedScript | null {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  const characterLines: string[] = [];
+  const rawScenes: { heading: string; lines: string[] }[] = [];
+  // 첫 장면 제목 앞의 글 (제목/등장인물 목록 제외) - 장면에 넣지 않으므로 경고한다
+  const discardedLines: string[] = [];
+  let hasCharacterList = false;
+  let hasKeywordHeading = false;
+  let section: 'header' | 'characters' | 'scene' | 'end' = 'header';
+
+  for (const line of lines) {
+    if (section === 'end') break;
+    const heading = matchSceneHeading(line);
+    if (heading) {
+      rawScenes.push({ heading: heading.rest, lines: [] });
+      hasKeywordHeading ||= heading.keyword;
+      section = 'scene';
+      continue;
+    }
+    if (CHARACTER_HEADING.test(line)) {
+      hasCharacterList = true;
+      section = 'characters';
+      continue;
+    }
+    if (section === 'header') {
+      if (line.trim() && !SEPARATOR.test(line) && !/^\s*#/.test(line)) discardedLines.push(line.trim());
+      continue;
+    }
+    if (section === 'characters') {
+      if (SEPARATOR.test(line) || /^\s*#/.test(line)) {
+        section = 'header';
+      } else if (line.trim()) {
+        characterLines.push(line);
+      }
+      continue;
+    }
+    if (section === 'scene') {
+      if (END_MARKERS.test(line)) {
+        section = 'end';
+      } else if (!SEPARATOR.test(line)) {
+        rawScenes[rawScenes.length - 1].lines.push(line);
+      }
+    }
+  }
+
+  if (rawScenes.length === 0 || !(hasCharacterList || hasKeywordHeading)) return null;
+
+  const characters = parseCharacters(characterLines);
+  const knownNames = characters.map((c) => c.name);
+  // "민준이: 대사"처럼 호칭/조사가 붙은 화자는 목록의 이름으로
+  const resolver = createNameResolver(knownNames.map((name) => ({ id: name, name })));
+  const resolveName = (name: string) => resolver(name)?.characterId ?? name;
+
+  // 화자는 등장인물 목록에 있거나 두 번 이상 말한 이름만 (한 번 나온 "시간: 새벽 3시"는 지문)
+  const speakerCounts = new Map<string, number>();
+  rawScenes
+    .flatMap((raw) => raw.lines.map(getSpeakerCandidate))
+    .forEach((speaker) => {
+      if (speaker) speakerCounts.set(resolveName(speaker), (speakerCounts.get(resolveName(speaker)) ?? 0) + 1);
+    });
+  const isSpeaker: SpeakerFilter = (name) =>
+    isNarrator(name) || knownNames.includes(resolveName(name)) || (speakerCounts.get(resolveName(name)) ?? 0) >= 2;
+
+  const scenes: ParsedScene[] = rawScenes.map((raw, index) => {
+    const { location, time } = splitHeading(raw.heading);
+    const characterNames = [
+      ...new Set(findSceneCharacters(raw.lines, knownNames, isSpeaker).map(resolveName)),
+    ];
+    return {
+      // 번호가 중복되거나 빠져도 순서대로 다시 매긴다
+      sceneNumber: index + 1,
+      title: raw.heading.trim() || undefined,
+      location,
+      timeOfDay: time ? toTimeOfDay(time) : undefined,
+      originalText: raw.lines.join('\n').trim(),
+      visualDescription: extractAction(raw.lines, isSpeaker),
+      characterNames,
+      dialogue: extractDialogue(raw.lines, isSpeaker, resolveName),
+    };
+  });
+
+  // 등장인물 목록에 없지만 대사가 있는 인물도 캐릭터로 추가
+  scenes
+    .flatMap((s) => s.characterNames)
+    .filter((name, index, names) => names.indexOf(name) === index && !knownNames.includes(name))
+    .forEach((name) => characters.push({ name, appearance: {} }));
+
+  const warnings: string[] = [];
+  if (discardedLines.length > 0) {
+    const preview = discardedLines[0].length > 30 ? `${discardedLines[0].slice(0, 30)}…` : discardedLines[0];
+    warnings.push(
+      `첫 장면 제목 앞의 글 ${discardedLines.length}줄은 장면에 넣지 않았습니다. ("${preview}") 장면에 필요한 내용이면 장면 제목 아래로 옮겨주세요.`
+    );
+  }
+
+  return { characters, scenes, warnings };
+}
@@ -0,0 +1,92 @@
+// 샷 - 장면 하나를 여러 컷(설정 샷, 어깨 너머 샷, 반응 클로즈업 등)으로 나눈 스토리보드 단위
+import { v4 as uuidv4 } from 'uuid';
+import type { CameraAngle, Scene, Shot, ShotSize } from '../types';
+
+export const SHOT_SIZES: { id: ShotSize; name: string; prompt: string }[] = [
+  { id: 'extreme-wide', name: '익스트림 롱', prompt: 'Extreme wide shot' },
+  { id: 'wide', name: '롱', prompt: 'Wide establishing shot' },
+  { id: 'full', name: '풀', prompt: 'Full shot, head to toe' },
+  { id: 'medium', name: '미디엄', prompt: 'Medium shot, waist up' },
+  { id: 'close-up', name: '클로즈업', prompt: 'Close-up shot of the face' },
+  { id: 'extreme-close-up', name: '익스트림 클로즈업', prompt: 'Extreme close-up on a detail' },
+];
+
+export const CAMERA_ANGLES: { id: CameraAngle; name: string; prompt: string }[] = [
+  { id: 'eye-level', name: '아이 레벨', prompt: 'eye-level camera' },
+  { id: 'high', name: '하이 앵글', prompt: 'high angle looking down' },
+  { id: 'low', name: '로우 앵글', prompt: 'low angle looking up' },
+  { id: 'over-the-shoulder', name: '어깨 너머', prompt: 'over-the-shoulder angle' },
+  { id: 'birds-eye', name: '부감', prompt: "bird's-eye view from directly above" },
+  { id: 'pov', name: '시점', prompt: 'point-of-view shot through the eyes of a character' },
+];
+
+export const SHOT_SIZE_IDS = SHOT_SIZES.map((s) => s.id);
+export const CAMERA_ANGLE_IDS = CAMERA_ANGLES.map((a) => a.id);
+
+export function getShotSizeName(size: ShotSize): string {
+  return SHOT_SIZES.find((s) => s.id === size)?.name ?? size;
+}
+
+export function getCameraAngleName(angle: CameraAngle): string {
+  return CAMERA_ANGLES.find((a) => a.id === angle)?.name ?? angle;
+}
+
+// 프롬프트용 구도 설명 (예: "Wide establishing shot, low angle looking up")
+export function describeShotFraming(shot: Pick<Shot, 'size' | 'angle'>): string {
+  const size = SHOT_SIZES.find((s) => s.id === shot.size)?.prompt ?? shot.size;
+  const angle = CAMERA_ANGLES.find((a) => a.id === shot.angle)?.prompt ?? shot.angle;
+  return `${size}, ${angle}`;
+}
+
+export function createShot(shotNumber: number, fields: Partial<Shot> = {}): Shot {
+  return {
+    id: uuidv4(),
+    shotNumber,
+    size: 'medium',
+    angle: 'eye-level',
+    characterIds: [],
+    action: '',
+    generatedImages: [],
+    status: 'pending',
+    ...fields,
+  };
+}
+
+// 장면과 샷이 참조하는 모든 이미지 ID (저장공간 정리, 내보내기, 삭제 확인용)
+export function getSceneImageIds(scene: Scene): string[] {
+  const ids = [
+    ...scene.generatedImages,
+    scene.selectedImage,
+    ...(scene.shots ?? []).flatMap((shot) => [...shot.generatedImages, shot.selectedImage]),
+  ].filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
+
+// 장면 대표 이미지 - 장면 이미지가 없으면 첫 샷의 선택 이미지
+export function getSceneCoverImage(scene: Scene): string | undefined {
+  return (
+    scene.selectedImage ||
+    scene.generatedImages[0] ||
+    scene.shots?.map((shot) => shot.selectedImage || shot.generatedImages[0]).find(Boolean)
+  );
+}
+
+// 장면의 샷 하나만 바꾼 변경 값 (저장소에서 최신 장면 기준으로 적용할 때 사용)
+export function patchShot(scene: Scene, shotId: string, updater: (shot: Shot) => Partial<Shot>): Partial<Scene> {
+  if (!scene.shots?.some((shot) => shot.id === shotId)) {
+    throw new Error('샷을 찾을 수 없습니다.');
+  }
+  return {
+    shots: scene.shots.map((shot) => (shot.id === shotId ? { ...shot, ...updater(shot) } : shot)),
+  };
+}
+
+// 장면 진행 상태 - 샷이 있으면 샷 상태로 계산 (모두 완료여야 완료)
+export function getSceneStatus(scene: Scene): Scene['status'] {
+  const shots = scene.shots ?? [];
+  if (shots.length === 0) return scene.status;
+  if (shots.some((shot) => shot.status === 'generating')) return 'generating';
+  if (shots.every((shot) => shot.status === 'completed')) return 'completed';
+  if (shots.some((shot) => shot.status === 'failed')) return 'failed';
+  return 'pending';
+}
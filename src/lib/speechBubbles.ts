@@ -0,0 +1,246 @@
+// 말풍선/캡션 - 이미지 위에 대사를 얹어 웹툰/만화 컷으로 합성
+// 위치와 크기는 이미지 크기 대비 비율이라 원본 해상도와 미리보기 크기에 관계없이 같은 모양
+import { v4 as uuidv4 } from 'uuid';
+import type { DialogueLine, SpeechBubble } from '../types';
+
+// 한글 글꼴 (main.tsx에서 @fontsource/noto-sans-kr 로 불러온다)
+export const BUBBLE_FONT_FAMILY = '"Noto Sans KR", sans-serif';
+
+export const DEFAULT_BUBBLE_WIDTH = 0.28;
+export const DEFAULT_FONT_SIZE = 0.032;
+
+const CAPTION_COLOR = '#fffbe6';
+const TEXT_COLOR = '#111111';
+
+export const BUBBLE_KINDS: { id: SpeechBubble['kind']; name: string }[] = [
+  { id: 'speech', name: '말풍선' },
+  { id: 'thought', name: '생각 풍선' },
+  { id: 'caption', name: '캡션' },
+];
+
+// 그리기 결과 - 미리보기에서 누른 말풍선을 찾을 때 사용 (픽셀 단위)
+export interface BubbleBounds {
+  id: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  tail?: { x: number; y: number };
+}
+
+export function createBubble(imageId: string, fields: Partial<SpeechBubble> = {}): SpeechBubble {
+  const kind = fields.kind ?? 'speech';
+  const x = fields.x ?? 0.5;
+  const y = fields.y ?? 0.2;
+  return {
+    id: uuidv4(),
+    imageId,
+    kind,
+    text: '',
+    x,
+    y,
+    width: DEFAULT_BUBBLE_WIDTH,
+    fontSize: DEFAULT_FONT_SIZE,
+    ...(kind === 'caption' ? {} : { tailX: x, tailY: Math.min(0.95, y + 0.15) }),
+    ...fields,
+  };
+}
+
+// 대사 -> 말풍선 (내레이션은 위쪽 캡션, 나머지는 좌우로 번갈아 배치)
+export function bubbleFromDialogue(imageId: string, line: DialogueLine, index: number): SpeechBubble {
+  if (line.kind === 'narration') {
+    return createBubble(imageId, { kind: 'caption', text: line.text, dialogueId: line.id, x: 0.5, y: 0.08, width: 0.6 });
+  }
+  const x = index % 2 === 0 ? 0.25 : 0.75;
+  const y = Math.min(0.7, 0.15 + (index % 4) * 0.12);
+  return createBubble(imageId, {
+    kind: line.kind === 'thought' ? 'thought' : 'speech',
+    text: line.text,
+    dialogueId: line.id,
+    x,
+    y,
+    tailX: x + (x < 0.5 ? 0.05 : -0.05),
+    tailY: Math.min(0.95, y + 0.18),
+  });
+}
+
+// 캔버스에 쓰기 전에 글꼴을 받아 둔다 (받기 전에 그리면 기본 글꼴로 나온다)
+export async function loadBubbleFonts(): Promise<void> {
+  try {
+    await Promise.all([
+      document.fonts.load(`400 16px ${BUBBLE_FONT_FAMILY}`, '가'),
+      document.fonts.load(`700 16px ${BUBBLE_FONT_FAMILY}`, '가'),
+    ]);
+  } catch (err) {
+    console.error('말풍선 글꼴 불러오기 실패:', err);
+  }
+}
+
+// 줄바꿈 - 한글은 글자 단위로 끊어도 되지만 가능하면 띄어쓰기에서 끊는다
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    for (const char of paragraph) {
+      const candidate = line + char;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        const space = line.lastIndexOf(' ');
+        if (space > 0 && char !== ' ') {
+          lines.push(line.slice(0, space));
+          line = line.slice(space + 1) + char;
+        } else {
+          lines.push(line.trimEnd());
+          line = char === ' ' ? '' : char;
+        }
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line.trim());
+  });
+  return lines;
+}
+
+function fontFor(bubble: SpeechBubble, fontPx: number): string {
+  return `${bubble.kind === 'caption' ? 400 : 700} ${fontPx}px ${BUBBLE_FONT_FAMILY}`;
+}
+
+// 말풍선 하나 그리기
+function drawBubble(context: CanvasRenderingContext2D, bubble: SpeechBubble, width: number, height: number): BubbleBounds {
+  const fontPx = Math.max(8, bubble.fontSize * width);
+  const lineHeight = fontPx * 1.35;
+  context.font = fontFor(bubble, fontPx);
+  const lines = wrapText(context, bubble.text || ' ', bubble.width * width);
+  const textWidth = Math.max(fontPx, ...lines.map((line) => context.measureText(line).width));
+  const textHeight = lines.length * lineHeight;
+  const cx = bubble.x * width;
+  const cy = bubble.y * height;
+  const lineWidth = Math.max(1.5, fontPx * 0.1);
+  const tail = bubble.kind !== 'caption' && bubble.tailX !== undefined && bubble.tailY !== undefined
+    ? { x: bubble.tailX * width, y: bubble.tailY * height }
+    : undefined;
+
+  context.save();
+  context.lineWidth = lineWidth;
+  context.strokeStyle = TEXT_COLOR;
+  context.lineJoin = 'round';
+
+  let halfWidth: number;
+  let halfHeight: number;
+  if (bubble.kind === 'caption') {
+    const padding = fontPx * 0.6;
+    halfWidth = textWidth / 2 + padding;
+    halfHeight = textHeight / 2 + padding * 0.8;
+    context.fillStyle = CAPTION_COLOR;
+    context.fillRect(cx - halfWidth, cy - halfHeight, halfWidth * 2, halfHeight * 2);
+    context.strokeRect(cx - halfWidth, cy - halfHeight, halfWidth * 2, halfHeight * 2);
+  } else {
+    // 글자 상자를 감싸는 타원
+    const padding = fontPx * 0.5;
+    halfWidth = (textWidth / 2 + padding) * Math.SQRT2;
+    halfHeight = (textHeight / 2 + padding) * Math.SQRT2;
+    context.fillStyle = '#ffffff';
+    const ellipse = new Path2D();
+    ellipse.ellipse(cx, cy, halfWidth, halfHeight, 0, 0, Math.PI * 2);
+
+    // 꼬리 방향 (타원 기준 각도)
+    const angle = tail ? Math.atan2((tail.y - cy) / halfHeight, (tail.x - cx) / halfWidth) : 0;
+    if (bubble.kind === 'speech' && tail) {
+      // 꼬리: 타원 위 두 점에서 꼬리 끝까지 - 테두리 두 개를 먼저 그리고 채우면 겹친 선이 가려진다
+      const spread = 0.22;
+      const tailPath = new Path2D();
+      tailPath.moveTo(cx + Math.cos(angle - spread) * halfWidth, cy + Math.sin(angle - spread) * halfHeight);
+      tailPath.lineTo(tail.x, tail.y);
+      tailPath.lineTo(cx + Math.cos(angle + spread) * halfWidth, cy + Math.sin(angle + spread) * halfHeight);
+      tailPath.closePath();
+      context.stroke(tailPath);
+      context.stroke(ellipse);
+      context.fill(tailPath);
+      context.fill(ellipse);
+    } else {
+      context.stroke(ellipse);
+      context.fill(ellipse);
+    }
+
+    if (bubble.kind === 'thought' && tail) {
+      // 생각 풍선: 꼬리 끝으로 갈수록 작아지는 동그라미
+      const startX = cx + Math.cos(angle) * halfWidth;
+      const startY = cy + Math.sin(angle) * halfHeight;
+      [0.25, 0.6, 1].forEach((t, i) => {
+        const radius = fontPx * (0.45 - i * 0.12);
+        const circle = new Path2D();
+        circle.arc(startX + (tail.x - startX) * t, startY + (tail.y - startY) * t, radius, 0, Math.PI * 2);
+        context.stroke(circle);
+        context.fill(circle);
+      });
+    }
+  }
+
+  context.fillStyle = TEXT_COLOR;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    context.fillText(line, cx, cy - textHeight / 2 + lineHeight * (i + 0.5));
+  });
+  context.restore();
+
+  return {
+    id: bubble.id,
+    left: cx - halfWidth,
+    top: cy - halfHeight,
+    right: cx + halfWidth,
+    bottom: cy + halfHeight,
+    tail,
+  };
+}
+
+// 이미지 + 말풍선 (selectedId가 있으면 선택 표시도 그린다)
+export function drawComposite(
+  context: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  bubbles: SpeechBubble[],
+  selectedId?: string
+): BubbleBounds[] {
+  context.clearRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  const bounds = bubbles.map((bubble) => drawBubble(context, bubble, width, height));
+
+  const selected = bounds.find((b) => b.id === selectedId);
+  if (selected) {
+    const handle = Math.max(6, width * 0.008);
+    context.save();
+    context.strokeStyle = '#3b82f6';
+    context.lineWidth = Math.max(2, width * 0.002);
+    context.setLineDash([handle, handle]);
+    context.strokeRect(selected.left, selected.top, selected.right - selected.left, selected.bottom - selected.top);
+    if (selected.tail) {
+      context.setLineDash([]);
+      context.fillStyle = '#3b82f6';
+      context.beginPath();
+      context.arc(selected.tail.x, selected.tail.y, handle, 0, Math.PI * 2);
+      context.fill();
+    }
+    context.restore();
+  }
+  return bounds;
+}
+
+// 원본 해상도로 합성한 PNG
+export async function renderBubbles(image: HTMLImageElement, bubbles: SpeechBubble[]): Promise<Blob> {
+  await loadBubbleFonts();
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('이미지를 합성할 수 없습니다.');
+  }
+  drawComposite(context, image, canvas.width, canvas.height, bubbles);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('이미지를 합성할 수 없습니다.');
+  }
+  return blob;
+}
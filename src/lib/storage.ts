@@ -1,10 +1,42 @@
-import type { Script, Character, Scene } from '../types';
+import type { Script, Character, Scene, Shot } from '../types';
+import { initDB, STORE_NAMES, requestToPromise, transactionDone, type StoreName } from './db';
+import { deleteImagesByScenes, deleteImagesByCharacters, deleteImagesByScript } from './imageStorage';
+import { StorageQuotaError, isQuotaExceededError } from './storageQuota';
+import { patchShot } from './shots';
+import {
+  HISTORY_STORES,
+  recordChanges,
+  diffRecords,
+  deleteHistoryByScript,
+  type HistoryStoreName,
+} from './history';
 
-const STORAGE_PREFIX = 'script-image-generator:';
+export const STORAGE_PREFIX = 'script-image-generator:';
 
-// 범용 저장/로드 함수
+export const MAX_REFERENCE_IMAGES = 8; // 캐릭터당 참조 이미지 최대 개수
+
+// 범용 저장/로드 함수 (설정값 전용 - 대본 데이터는 IndexedDB에 저장)
 export function saveData<T>(key: string, data: T): void {
-  localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(data));
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(data));
+  } catch (err) {
+    if (isQuotaExceededError(err)) {
+      throw new StorageQuotaError('브라우저 저장공간이 부족해서 설정을 저장하지 못했습니다.');
+    }
+    throw err;
+  }
+}
+
+// localStorage 사용량 (이 앱의 키만, UTF-16 기준 바이트)
+export function getLocalStorageSize(): number {
+  let bytes = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_PREFIX)) {
+      bytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+    }
+  }
+  return bytes;
 }
 
 export function loadData<T>(key: string): T | null {
@@ -21,131 +53,339 @@ export function loadApiKey(): string | null {
   return loadData<string>('apiKey');
 }
 
-// Scripts
-export function loadScripts(): Script[] {
-  return loadData<Script[]>('scripts') || [];
+// ===== IndexedDB 공통 =====
+
+async function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName], 'readonly');
+  return requestToPromise<T[]>(transaction.objectStore(storeName).getAll());
 }
 
-export function saveScripts(scripts: Script[]): void {
-  saveData('scripts', scripts);
+async function getRecordsByScript<T>(storeName: StoreName, scriptId: string): Promise<T[]> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName], 'readonly');
+  const index = transaction.objectStore(storeName).index('scriptId');
+  return requestToPromise<T[]>(index.getAll(scriptId));
 }
 
-export function getScript(id: string): Script | undefined {
-  return loadScripts().find(s => s.id === id);
+async function getRecord<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName], 'readonly');
+  return requestToPromise<T | undefined>(transaction.objectStore(storeName).get(id));
 }
 
-export function addScript(script: Script): void {
-  const scripts = loadScripts();
-  scripts.push(script);
-  saveScripts(scripts);
+async function putRecord<T>(storeName: StoreName, record: T): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName], 'readwrite');
+  transaction.objectStore(storeName).put(record);
+  await transactionDone(transaction);
 }
 
-export function updateScript(id: string, updates: Partial<Script>): void {
-  const scripts = loadScripts();
-  const index = scripts.findIndex(s => s.id === id);
-  if (index !== -1) {
-    scripts[index] = { ...scripts[index], ...updates, updatedAt: new Date().toISOString() };
-    saveScripts(scripts);
+// 읽기-수정-쓰기를 하나의 트랜잭션에서 처리 (동시 업데이트 시 덮어쓰기 방지)
+// updates에 함수를 주면 트랜잭션 안에서 읽은 최신 값으로 변경 내용을 계산한다
+// historyLabel을 주면 같은 트랜잭션에서 실행 취소 기록도 남긴다
+async function updateRecord<T extends Script | Character | Scene>(
+  storeName: HistoryStoreName,
+  id: string,
+  updates: Partial<T> | ((existing: T) => Partial<T>),
+  historyLabel?: string
+): Promise<T | undefined> {
+  const database = await initDB();
+  const transaction = database.transaction(historyLabel ? HISTORY_STORES : [storeName], 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const done = transactionDone(transaction);
+  const existing = await requestToPromise<T | undefined>(store.get(id));
+  let updated: T | undefined;
+  if (existing) {
+    const changes = typeof updates === 'function' ? updates(existing) : updates;
+    updated = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    store.put(updated);
+    if (historyLabel) {
+      const scriptId = 'scriptId' in existing ? existing.scriptId : existing.id;
+      await recordChanges(transaction, scriptId, historyLabel, [
+        { storeName, id, before: existing, after: updated },
+      ]);
+    }
   }
+  await done;
+  return updated;
 }
 
-export function deleteScript(id: string): void {
-  const scripts = loadScripts().filter(s => s.id !== id);
-  saveScripts(scripts);
-  // 관련 캐릭터, 장면도 삭제
-  const characters = loadCharacters().filter(c => c.scriptId !== id);
-  saveCharacters(characters);
-  const scenes = loadScenes().filter(s => s.scriptId !== id);
-  saveScenes(scenes);
+async function deleteRecord(storeName: StoreName, id: string): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([storeName], 'readwrite');
+  transaction.objectStore(storeName).delete(id);
+  await transactionDone(transaction);
+}
+
+// 대본에 속한 레코드 삭제 (같은 트랜잭션 안에서) - 삭제한 ID 목록 반환
+async function deleteByScript(
+  transaction: IDBTransaction,
+  storeName: StoreName,
+  scriptId: string,
+  keep: Set<string> = new Set()
+): Promise<string[]> {
+  const store = transaction.objectStore(storeName);
+  const keys = await requestToPromise(store.index('scriptId').getAllKeys(scriptId));
+  const deleted: string[] = [];
+  for (const key of keys) {
+    if (keep.has(key as string)) continue;
+    store.delete(key);
+    deleted.push(key as string);
+  }
+  return deleted;
+}
+
+// Scripts
+export async function loadScripts(): Promise<Script[]> {
+  const scripts = await getAllRecords<Script>(STORE_NAMES.scripts);
+  return scripts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getScript(id: string): Promise<Script | undefined> {
+  return getRecord<Script>(STORE_NAMES.scripts, id);
+}
+
+export function addScript(script: Script): Promise<void> {
+  return putRecord(STORE_NAMES.scripts, script);
+}
+
+export async function updateScript(id: string, updates: Partial<Script>, historyLabel?: string): Promise<void> {
+  await updateRecord<Script>(STORE_NAMES.scripts, id, updates, historyLabel);
+}
+
+export async function deleteScript(id: string): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([...HISTORY_STORES, STORE_NAMES.snapshots], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(STORE_NAMES.scripts).delete(id);
+  // 관련 캐릭터, 장면, 편집 기록도 삭제
+  await Promise.all([
+    deleteByScript(transaction, STORE_NAMES.characters, id),
+    deleteByScript(transaction, STORE_NAMES.scenes, id),
+    deleteHistoryByScript(transaction, id),
+  ]);
+  await done;
+
+  // 이미지도 함께 삭제
+  await deleteImagesByScript(id);
 }
 
 // Characters
-export function loadCharacters(): Character[] {
-  return loadData<Character[]>('characters') || [];
+export function loadCharacters(): Promise<Character[]> {
+  return getAllRecords<Character>(STORE_NAMES.characters);
 }
 
-export function saveCharacters(characters: Character[]): void {
-  saveData('characters', characters);
+export async function getCharactersByScript(scriptId: string): Promise<Character[]> {
+  const characters = await getRecordsByScript<Character>(STORE_NAMES.characters, scriptId);
+  return characters.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 }
 
-export function getCharactersByScript(scriptId: string): Character[] {
-  return loadCharacters().filter(c => c.scriptId === scriptId);
+export function getCharacter(id: string): Promise<Character | undefined> {
+  return getRecord<Character>(STORE_NAMES.characters, id);
 }
 
-export function getCharacter(id: string): Character | undefined {
-  return loadCharacters().find(c => c.id === id);
+export function addCharacter(character: Character): Promise<void> {
+  return putRecord(STORE_NAMES.characters, character);
 }
 
-export function addCharacter(character: Character): void {
-  const characters = loadCharacters();
-  characters.push(character);
-  saveCharacters(characters);
+export async function updateCharacter(id: string, updates: Partial<Character>, historyLabel?: string): Promise<void> {
+  await updateRecord<Character>(STORE_NAMES.characters, id, updates, historyLabel);
 }
 
-export function updateCharacter(id: string, updates: Partial<Character>): void {
-  const characters = loadCharacters();
-  const index = characters.findIndex(c => c.id === id);
-  if (index !== -1) {
-    characters[index] = { ...characters[index], ...updates, updatedAt: new Date().toISOString() };
-    saveCharacters(characters);
-  }
+// 참조 이미지 추가 (최대 8개, 대표 이미지가 없으면 첫 새 이미지 선택)
+// 다른 탭에서 동시에 추가해도 서로 덮어쓰지 않도록 한 트랜잭션에서 처리
+export function appendCharacterImages(
+  id: string,
+  imageIds: string[],
+  historyLabel?: string
+): Promise<Character | undefined> {
+  return updateRecord<Character>(
+    STORE_NAMES.characters,
+    id,
+    (character) => ({
+      referenceImages: [...character.referenceImages, ...imageIds].slice(0, MAX_REFERENCE_IMAGES),
+      selectedImage: character.selectedImage || imageIds[0],
+    }),
+    historyLabel
+  );
 }
 
-export function deleteCharacter(id: string): void {
-  const characters = loadCharacters().filter(c => c.id !== id);
-  saveCharacters(characters);
+// 참조 이미지 제거 - 최신 목록에서 ID로 빼고, 선택된 이미지였으면 남은 첫 이미지를 선택
+export function removeCharacterImage(
+  id: string,
+  imageId: string,
+  historyLabel?: string
+): Promise<Character | undefined> {
+  return updateRecord<Character>(
+    STORE_NAMES.characters,
+    id,
+    (character) => {
+      const referenceImages = character.referenceImages.filter((ref) => ref !== imageId);
+      return {
+        referenceImages,
+        selectedImage: character.selectedImage === imageId ? referenceImages[0] : character.selectedImage,
+      };
+    },
+    historyLabel
+  );
+}
+
+export async function deleteCharacter(id: string): Promise<void> {
+  const database = await initDB();
+  const transaction = database.transaction([STORE_NAMES.characters, STORE_NAMES.scenes], 'readwrite');
+  const done = transactionDone(transaction);
+  const characterStore = transaction.objectStore(STORE_NAMES.characters);
+  const character = await requestToPromise<Character | undefined>(characterStore.get(id));
+
+  if (character) {
+    characterStore.delete(id);
+
+    // 장면의 등장인물 목록에서도 제거
+    const sceneStore = transaction.objectStore(STORE_NAMES.scenes);
+    const scenes = await requestToPromise<Scene[]>(sceneStore.index('scriptId').getAll(character.scriptId));
+    const now = new Date().toISOString();
+    for (const scene of scenes) {
+      if (scene.characterIds.includes(id)) {
+        sceneStore.put({ ...scene, characterIds: scene.characterIds.filter((c) => c !== id), updatedAt: now });
+      }
+    }
+  }
+  await done;
+
+  await deleteImagesByCharacters([id]);
 }
 
 // Scenes
-export function loadScenes(): Scene[] {
-  return loadData<Scene[]>('scenes') || [];
+export function loadScenes(): Promise<Scene[]> {
+  return getAllRecords<Scene>(STORE_NAMES.scenes);
 }
 
-export function saveScenes(scenes: Scene[]): void {
-  saveData('scenes', scenes);
+export async function getScenesByScript(scriptId: string): Promise<Scene[]> {
+  const scenes = await getRecordsByScript<Scene>(STORE_NAMES.scenes, scriptId);
+  return scenes.sort((a, b) => a.sceneNumber - b.sceneNumber);
 }
 
-export function getScenesByScript(scriptId: string): Scene[] {
-  return loadScenes()
-    .filter(s => s.scriptId === scriptId)
-    .sort((a, b) => a.sceneNumber - b.sceneNumber);
+export function getScene(id: string): Promise<Scene | undefined> {
+  return getRecord<Scene>(STORE_NAMES.scenes, id);
 }
 
-export function getScene(id: string): Scene | undefined {
-  return loadScenes().find(s => s.id === id);
+export function addScene(scene: Scene): Promise<void> {
+  return putRecord(STORE_NAMES.scenes, scene);
 }
 
-export function addScene(scene: Scene): void {
-  const scenes = loadScenes();
-  scenes.push(scene);
-  saveScenes(scenes);
+export async function updateScene(id: string, updates: Partial<Scene>, historyLabel?: string): Promise<void> {
+  await updateRecord<Scene>(STORE_NAMES.scenes, id, updates, historyLabel);
 }
 
-export function updateScene(id: string, updates: Partial<Scene>): void {
-  const scenes = loadScenes();
-  const index = scenes.findIndex(s => s.id === id);
-  if (index !== -1) {
-    scenes[index] = { ...scenes[index], ...updates, updatedAt: new Date().toISOString() };
-    saveScenes(scenes);
-  }
+// 생성 이미지 추가 + 다른 필드 변경 (선택 이미지, 상태 등) - 한 트랜잭션에서 처리
+export function appendSceneImages(
+  id: string,
+  imageIds: string[],
+  updates: Partial<Scene> = {}
+): Promise<Scene | undefined> {
+  return updateRecord<Scene>(STORE_NAMES.scenes, id, (scene) => ({
+    ...updates,
+    generatedImages: [...scene.generatedImages, ...imageIds],
+  }));
+}
+
+// 샷 하나만 변경 (샷 목록 전체를 덮어쓰지 않도록 최신 장면 기준으로)
+export async function updateShot(
+  sceneId: string,
+  shotId: string,
+  updates: Partial<Shot>,
+  historyLabel?: string
+): Promise<void> {
+  await updateRecord<Scene>(STORE_NAMES.scenes, sceneId, (scene) => patchShot(scene, shotId, () => updates), historyLabel);
+}
+
+// 샷 목록 변경 (추가/삭제) - 그 사이 큐가 다른 샷에 붙인 이미지를 덮어쓰지 않도록 한 트랜잭션에서 처리
+export function updateShots(
+  sceneId: string,
+  updater: (shots: Shot[]) => Shot[],
+  historyLabel?: string
+): Promise<Scene | undefined> {
+  return updateRecord<Scene>(STORE_NAMES.scenes, sceneId, (scene) => ({ shots: updater(scene.shots ?? []) }), historyLabel);
+}
+
+// 샷 생성 이미지 추가 + 다른 필드 변경
+export function appendShotImages(
+  sceneId: string,
+  shotId: string,
+  imageIds: string[],
+  updates: Partial<Shot> = {}
+): Promise<Scene | undefined> {
+  return updateRecord<Scene>(STORE_NAMES.scenes, sceneId, (scene) =>
+    patchShot(scene, shotId, (shot) => ({ ...updates, generatedImages: [...shot.generatedImages, ...imageIds] }))
+  );
 }
 
-export function deleteScene(id: string): void {
-  const scenes = loadScenes().filter(s => s.id !== id);
-  saveScenes(scenes);
+export async function deleteScene(id: string): Promise<void> {
+  await deleteRecord(STORE_NAMES.scenes, id);
+  await deleteImagesByScenes([id]);
+}
+
+export interface SaveAnalysisOptions {
+  scriptUpdates?: Partial<Script>; // 같은 트랜잭션에서 함께 반영할 대본 변경 (스타일 가이드 등)
+  historyLabel?: string; // 지정하면 실행 취소 기록을 남긴다
 }
 
 // 대량 저장 (분석 결과용)
-export function saveAnalysisResult(
+export async function saveAnalysisResult(
   scriptId: string,
   characters: Character[],
-  scenes: Scene[]
-): void {
-  // 기존 데이터 삭제
-  const existingCharacters = loadCharacters().filter(c => c.scriptId !== scriptId);
-  const existingScenes = loadScenes().filter(s => s.scriptId !== scriptId);
+  scenes: Scene[],
+  options: SaveAnalysisOptions = {}
+): Promise<void> {
+  const { scriptUpdates, historyLabel } = options;
+  const database = await initDB();
+  const transaction = database.transaction(HISTORY_STORES, 'readwrite');
+  const done = transactionDone(transaction);
+  const scriptStore = transaction.objectStore(STORE_NAMES.scripts);
+  const characterStore = transaction.objectStore(STORE_NAMES.characters);
+  const sceneStore = transaction.objectStore(STORE_NAMES.scenes);
+
+  const [script, oldCharacters, oldScenes] = await Promise.all([
+    requestToPromise<Script | undefined>(scriptStore.get(scriptId)),
+    requestToPromise<Character[]>(characterStore.index('scriptId').getAll(scriptId)),
+    requestToPromise<Scene[]>(sceneStore.index('scriptId').getAll(scriptId)),
+  ]);
+
+  // 기존 데이터 삭제 (새 결과에 그대로 남는 ID는 유지)
+  const [removedCharacterIds, removedSceneIds] = await Promise.all([
+    deleteByScript(transaction, STORE_NAMES.characters, scriptId, new Set(characters.map((c) => c.id))),
+    deleteByScript(transaction, STORE_NAMES.scenes, scriptId, new Set(scenes.map((s) => s.id))),
+  ]);
 
   // 새 데이터 추가
-  saveCharacters([...existingCharacters, ...characters]);
-  saveScenes([...existingScenes, ...scenes]);
+  for (const character of characters) {
+    characterStore.put(character);
+  }
+  for (const scene of scenes) {
+    sceneStore.put(scene);
+  }
+  const updatedScript = script && scriptUpdates
+    ? { ...script, ...scriptUpdates, updatedAt: new Date().toISOString() }
+    : script;
+  if (updatedScript && updatedScript !== script) {
+    scriptStore.put(updatedScript);
+  }
+
+  if (historyLabel) {
+    await recordChanges(transaction, scriptId, historyLabel, [
+      ...diffRecords(STORE_NAMES.scripts, script ? [script] : [], updatedScript ? [updatedScript] : []),
+      ...diffRecords(STORE_NAMES.characters, oldCharacters, characters),
+      ...diffRecords(STORE_NAMES.scenes, oldScenes, scenes),
+    ]);
+  }
+
+  await done;
+
+  // 사라진 캐릭터/장면의 이미지 정리 (실행 취소 기록이 있으면 되돌릴 수 있도록 남겨두고
+  // 저장공간 정리에서 기록이 사라진 뒤에 삭제한다)
+  if (!historyLabel) {
+    await deleteImagesByCharacters(removedCharacterIds);
+    await deleteImagesByScenes(removedSceneIds);
+  }
 }
@@ -0,0 +1,107 @@
+// 저장공간 정리 - 어떤 장면/캐릭터도 참조하지 않는 이미지 찾기 및 삭제
+import type { Character, Scene } from '../types';
+import { initDB, STORE_NAMES, requestToPromise, transactionDone } from './db';
+import { listSceneImages, listCharacterImages, type StoredImageInfo } from './imageStorage';
+import { getHistoryImageIds } from './history';
+import { getSceneImageIds } from './shots';
+import { getGenerationQueueImageIds } from './generationQueue';
+
+// 방금 저장되어 아직 장면/캐릭터에 연결되기 전인 이미지는 건드리지 않는다
+const RECENT_IMAGE_GRACE_MS = 10 * 60 * 1000;
+
+// 참조 여부 확인에 필요한 스토어
+const REFERENCE_STORES = [STORE_NAMES.scenes, STORE_NAMES.characters, STORE_NAMES.history, STORE_NAMES.snapshots];
+
+export interface OrphanReport {
+  sceneImages: StoredImageInfo[];
+  characterImages: StoredImageInfo[];
+  count: number;
+  bytes: number;
+}
+
+function createReport(sceneImages: StoredImageInfo[], characterImages: StoredImageInfo[]): OrphanReport {
+  const all = [...sceneImages, ...characterImages];
+  return {
+    sceneImages,
+    characterImages,
+    count: all.length,
+    bytes: all.reduce((sum, img) => sum + img.bytes, 0),
+  };
+}
+
+// 장면/캐릭터, 실행 취소 기록/스냅샷, 생성 큐 작업이 참조하는 이미지 ID
+// transaction: REFERENCE_STORES를 포함한 트랜잭션
+async function getReferencedImageIds(transaction: IDBTransaction): Promise<Set<string>> {
+  const [scenes, characters, referenced] = await Promise.all([
+    requestToPromise<Scene[]>(transaction.objectStore(STORE_NAMES.scenes).getAll()),
+    requestToPromise<Character[]>(transaction.objectStore(STORE_NAMES.characters).getAll()),
+    getHistoryImageIds(transaction),
+  ]);
+
+  for (const scene of scenes) {
+    getSceneImageIds(scene).forEach((id) => referenced.add(id));
+  }
+  for (const char of characters) {
+    char.referenceImages.forEach((id) => referenced.add(id));
+    if (char.selectedImage) referenced.add(char.selectedImage);
+  }
+  // 생성 중인 작업의 이미지는 작업이 끝날 때 장면에 붙는다
+  getGenerationQueueImageIds().forEach((id) => referenced.add(id));
+  return referenced;
+}
+
+// 참조되지 않는 이미지 검사
+export async function findOrphanedImages(): Promise<OrphanReport> {
+  const database = await initDB();
+  const [sceneImages, characterImages, referenced] = await Promise.all([
+    listSceneImages(),
+    listCharacterImages(),
+    getReferencedImageIds(database.transaction(REFERENCE_STORES, 'readonly')),
+  ]);
+
+  const cutoff = Date.now() - RECENT_IMAGE_GRACE_MS;
+  const isOrphan = (img: StoredImageInfo) =>
+    !referenced.has(img.id) && new Date(img.createdAt).getTime() < cutoff;
+
+  return createReport(sceneImages.filter(isOrphan), characterImages.filter(isOrphan));
+}
+
+// 참조되지 않는 이미지 삭제 - 삭제하는 트랜잭션 안에서 참조를 다시 확인해서
+// 검사 뒤에 장면/캐릭터/큐 작업에 연결된 이미지는 남긴다
+export async function purgeOrphanedImages(): Promise<OrphanReport> {
+  const candidates = await findOrphanedImages();
+  if (candidates.count === 0) return candidates;
+
+  const database = await initDB();
+  const transaction = database.transaction(
+    [...REFERENCE_STORES, STORE_NAMES.images, STORE_NAMES.characterImages, STORE_NAMES.thumbnails],
+    'readwrite'
+  );
+  const done = transactionDone(transaction);
+  const referenced = await getReferencedImageIds(transaction);
+  const isStillOrphan = (img: StoredImageInfo) => !referenced.has(img.id);
+  const sceneImages = candidates.sceneImages.filter(isStillOrphan);
+  const characterImages = candidates.characterImages.filter(isStillOrphan);
+
+  const thumbnails = transaction.objectStore(STORE_NAMES.thumbnails);
+  const remove = (storeName: string, images: StoredImageInfo[]) => {
+    const store = transaction.objectStore(storeName);
+    for (const img of images) {
+      store.delete(img.id);
+      thumbnails.delete(img.id);
+    }
+  };
+  remove(STORE_NAMES.images, sceneImages);
+  remove(STORE_NAMES.characterImages, characterImages);
+
+  await done;
+  return createReport(sceneImages, characterImages);
+}
+
+// 바이트 -> 사람이 읽기 쉬운 크기
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
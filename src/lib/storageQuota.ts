@@ -0,0 +1,63 @@
+// 브라우저 저장공간 한도 확인 및 용량 초과 오류 처리
+
+// 이미지 한 장의 예상 크기 (생성 전 공간 확인용)
+export const ESTIMATED_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// 남은 공간이 이보다 적거나 사용률이 이보다 높으면 경고
+const LOW_STORAGE_BYTES = 100 * 1024 * 1024;
+const LOW_STORAGE_RATIO = 0.9;
+
+// 저장공간 부족 - 저장하지 못한 이미지가 있으면 함께 전달해서 다운로드할 수 있게 한다
+export class StorageQuotaError extends Error {
+  blob?: Blob;
+
+  constructor(message: string = '브라우저 저장공간이 부족합니다. 설정에서 사용하지 않는 이미지를 정리해주세요.', blob?: Blob) {
+    super(message);
+    this.name = 'StorageQuotaError';
+    this.blob = blob;
+  }
+}
+
+// localStorage / IndexedDB의 용량 초과 오류인지 (브라우저마다 이름이 다르다)
+export function isQuotaExceededError(err: unknown): boolean {
+  if (err instanceof StorageQuotaError) return true;
+  if (!(err instanceof DOMException)) return false;
+  return (
+    err.name === 'QuotaExceededError' ||
+    err.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    err.code === 22 ||
+    err.code === 1014
+  );
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+// 브라우저가 알려주는 사용량/한도 (지원하지 않으면 null)
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch (err) {
+    console.error('저장공간 확인 실패:', err);
+    return null;
+  }
+}
+
+// 필요한 용량을 저장하기에 공간이 부족하면 경고 메시지 반환
+export async function checkStorageSpace(requiredBytes: number): Promise<string | null> {
+  const estimate = await getStorageEstimate();
+  if (!estimate) return null;
+
+  const remaining = estimate.quota - estimate.usage;
+  if (remaining < requiredBytes) {
+    return '저장공간이 부족해서 생성한 이미지를 저장하지 못할 수 있습니다.';
+  }
+  if (remaining - requiredBytes < LOW_STORAGE_BYTES || (estimate.usage + requiredBytes) / estimate.quota > LOW_STORAGE_RATIO) {
+    return '저장공간이 얼마 남지 않았습니다.';
+  }
+  return null;
+}
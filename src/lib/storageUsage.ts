@@ -0,0 +1,73 @@
+// 대본별 저장공간 사용량 (설정 > 저장공간)
+import { loadScripts, loadCharacters, loadScenes, getLocalStorageSize } from './storage';
+import { listSceneImages, listCharacterImages, type StoredImageInfo } from './imageStorage';
+import { getStorageEstimate, type StorageEstimate } from './storageQuota';
+
+export interface ScriptStorageUsage {
+  scriptId: string;
+  title: string;
+  metadataBytes: number; // 대본/캐릭터/장면 JSON 크기
+  sceneImageCount: number;
+  sceneImageBytes: number;
+  characterImageCount: number;
+  characterImageBytes: number;
+}
+
+export interface StorageUsageReport {
+  estimate: StorageEstimate | null; // 브라우저 전체 사용량/한도
+  localStorageBytes: number; // 설정값 (API 키 등)
+  scripts: ScriptStorageUsage[];
+  unassignedImageBytes: number; // 어떤 대본에도 속하지 않은 이미지
+}
+
+function jsonSize(value: unknown): number {
+  return new Blob([JSON.stringify(value)]).size;
+}
+
+function sumBytes(images: StoredImageInfo[]): number {
+  return images.reduce((sum, img) => sum + img.bytes, 0);
+}
+
+export async function getStorageUsage(): Promise<StorageUsageReport> {
+  const [estimate, scripts, characters, scenes, sceneImages, characterImages] = await Promise.all([
+    getStorageEstimate(),
+    loadScripts(),
+    loadCharacters(),
+    loadScenes(),
+    listSceneImages(),
+    listCharacterImages(),
+  ]);
+
+  const usages = scripts.map((script): ScriptStorageUsage => {
+    const scriptSceneImages = sceneImages.filter((img) => img.scriptId === script.id);
+    const scriptCharacterImages = characterImages.filter((img) => img.scriptId === script.id);
+    return {
+      scriptId: script.id,
+      title: script.title,
+      metadataBytes: jsonSize([
+        script,
+        characters.filter((c) => c.scriptId === script.id),
+        scenes.filter((s) => s.scriptId === script.id),
+      ]),
+      sceneImageCount: scriptSceneImages.length,
+      sceneImageBytes: sumBytes(scriptSceneImages),
+      characterImageCount: scriptCharacterImages.length,
+      characterImageBytes: sumBytes(scriptCharacterImages),
+    };
+  });
+
+  const scriptIds = new Set(scripts.map((s) => s.id));
+  const unassigned = [...sceneImages, ...characterImages].filter((img) => !scriptIds.has(img.scriptId));
+
+  return {
+    estimate,
+    localStorageBytes: getLocalStorageSize(),
+    // 용량이 큰 대본부터
+    scripts: usages.sort(
+      (a, b) =>
+        b.metadataBytes + b.sceneImageBytes + b.characterImageBytes -
+        (a.metadataBytes + a.sceneImageBytes + a.characterImageBytes)
+    ),
+    unassignedImageBytes: sumBytes(unassigned),
+  };
+}
@@ -1,8 +1,21 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { startGenerationQueue } from './lib/generationQueue'
+import { setProjectStore } from './lib/projectStore'
+import { createMemoryProjectStore } from './lib/memoryProjectStore'
+import '@fontsource/noto-sans-kr/400.css'
+import '@fontsource/noto-sans-kr/700.css'
 import './index.css'
 
+// VITE_PROJECT_STORE=memory: 브라우저 저장소를 건드리지 않고 메모리 저장소로 실행 (테스트/미리보기용, 새로고침하면 사라진다)
+if (import.meta.env.VITE_PROJECT_STORE === 'memory') {
+  setProjectStore(createMemoryProjectStore())
+}
+
+// 이미지 생성 큐는 페이지와 상관없이 앱이 열려 있는 동안 계속 돈다
+startGenerationQueue()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -1,54 +1,84 @@
 import { useState, useEffect, useRef } from 'react';
-import { getCharactersByScript, updateCharacter } from '../lib/storage';
-import { generateSceneImage, IMAGE_STYLES, type ImageStyle } from '../lib/gemini';
-import { saveCharacterImage, getCharacterImage, deleteCharacterImage } from '../lib/imageStorage';
+import { getProjectStore } from '../lib/projectStore';
+import { IMAGE_STYLES, type ImageStyle } from '../lib/gemini';
+import { checkStorageSpace, ESTIMATED_IMAGE_BYTES } from '../lib/storageQuota';
+import {
+  enqueueGenerationJobs,
+  cancelGenerationJobs,
+  dismissUnsavedQueueImage,
+  type NewGenerationJob,
+} from '../lib/generationQueue';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import UnsavedImages from '../components/UnsavedImages';
+import { MAX_REFERENCE_IMAGES } from '../lib/storage';
+import { useProjectChanges } from '../hooks/useProjectChanges';
+import { useGenerationQueue, getQueueStatusKey } from '../hooks/useGenerationQueue';
 import type { Character } from '../types';
 
 interface Props {
   scriptId: string;
+  revision: number; // 실행 취소/다시 실행 후 다시 불러오기 위한 값
   onUpdate: () => void;
 }
 
 const IMAGES_PER_CHARACTER = 3;
 
-export default function Characters({ scriptId, onUpdate }: Props) {
+export default function Characters({ scriptId, revision, onUpdate }: Props) {
+  const store = getProjectStore();
   const [characters, setCharacters] = useState<Character[]>([]);
   const [selectedStyle, setSelectedStyle] = useState<ImageStyle>('realistic');
-  const [generating, setGenerating] = useState<string | null>(null);
-  const [generatingProgress, setGeneratingProgress] = useState({ current: 0, total: 0 });
-  const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 });
   const [error, setError] = useState('');
-  // 이미지 캐시 (IndexedDB에서 로드한 이미지)
-  const [imageCache, setImageCache] = useState<Record<string, string>>({});
+  // 생성은 큐에서 진행 (페이지를 벗어나도 계속된다)
+  const { jobs, unsavedImages } = useGenerationQueue(scriptId);
+  const queueStatusKey = getQueueStatusKey(jobs);
+  // 이미지 캐시 (IndexedDB에서 로드한 썸네일의 object URL)
+  const { urls: imageUrls, addImages } = useObjectUrls();
 
   const loadCharacters = async () => {
-    const chars = getCharactersByScript(scriptId);
+    const chars = await store.getCharactersByScript(scriptId);
     setCharacters(chars);
 
-    // 이미지 캐시 로드
-    const cache: Record<string, string> = {};
-    for (const char of chars) {
-      for (const imageId of char.referenceImages) {
-        if (!cache[imageId] && !imageId.startsWith('data:')) {
-          const imageData = await getCharacterImage(imageId);
-          if (imageData) {
-            cache[imageId] = imageData;
-          }
-        } else if (imageId.startsWith('data:')) {
-          cache[imageId] = imageId;
-        }
-      }
-    }
-    setImageCache((prev) => ({ ...prev, ...cache }));
+    // 이미지 캐시 로드 (아직 캐시에 없는 이미지만 한 번에)
+    const missingIds = chars
+      .flatMap((c) => c.referenceImages)
+      .filter((imageId) => !imageUrls[imageId]);
+    addImages(await store.getCharacterThumbnails(missingIds));
   };
 
+  // 큐의 작업이 시작되거나 끝나면 다시 불러오기
   useEffect(() => {
     loadCharacters();
-  }, [scriptId]);
+  }, [scriptId, revision, queueStatusKey]);
 
-  const handleUpdateCharacter = (id: string, updates: Partial<Character>) => {
-    updateCharacter(id, updates);
-    loadCharacters();
+  // 다른 탭에서 캐릭터를 수정하면 다시 불러오기
+  useProjectChanges(['characters'], scriptId, loadCharacters);
+
+  const handleUpdateCharacter = async (character: Character, updates: Partial<Character>) => {
+    await store.updateCharacter(character.id, updates, `${character.name} 수정`);
+    await loadCharacters();
+    onUpdate();
+  };
+
+  // 새 이미지는 저장소의 최신 목록에 붙인다 (다른 탭에서 추가한 이미지를 덮어쓰지 않도록)
+  const handleAppendImages = async (character: Character, imageIds: string[]) => {
+    await store.appendCharacterImages(character.id, imageIds, `${character.name} 이미지 추가`);
+    await loadCharacters();
+    onUpdate();
+  };
+
+  // 참조 이미지 제거도 저장소의 최신 목록에서 ID로 뺀다
+  const handleRemoveImage = async (character: Character, imageId: string) => {
+    await store.removeCharacterImage(character.id, imageId, `${character.name} 이미지 제거`);
+    await loadCharacters();
+    onUpdate();
+  };
+
+  const handleDeleteCharacter = async (character: Character) => {
+    if (!confirm(`${character.name} 캐릭터를 삭제하시겠습니까? 참조 이미지도 함께 삭제됩니다.`)) {
+      return;
+    }
+    await store.deleteCharacter(character.id);
+    await loadCharacters();
     onUpdate();
   };
 
@@ -56,128 +86,75 @@ export default function Characters({ scriptId, onUpdate }: Props) {
     if (imageId.startsWith('data:')) {
       return imageId;
     }
-    return imageCache[imageId] || '';
+    return imageUrls[imageId] || '';
   };
 
-  const handleGenerateCharacterImages = async (character: Character) => {
-    setError('');
-    setGenerating(character.id);
-    setGeneratingProgress({ current: 0, total: IMAGES_PER_CHARACTER });
-
-    try {
-      const newImageIds: string[] = [];
-      const app = character.appearance;
-
-      const styleModifier = getStyleModifier(selectedStyle);
-      const prompt = `${styleModifier}
-
-CHARACTER PORTRAIT - Full body or upper body shot
-
-Character Details:
-- Name: ${character.name}
-- Age: ${app.age || 'young adult'}
-- Gender: ${app.gender || 'unspecified'}
-- Hair: ${app.hair || 'natural hair'}
-- Face: ${app.face || 'attractive features'}
-- Skin tone: ${app.skinTone || 'natural'}
-- Height: ${app.height || 'average'}
-- Outfit: ${character.defaultOutfit || 'casual modern clothes'}
-${app.features?.length ? `- Features: ${app.features.join(', ')}` : ''}
-
-REQUIREMENTS:
-- Clear, well-lit portrait suitable for character reference
-- Neutral background or simple setting
-- Character facing camera or 3/4 view
-- High quality, detailed rendering
-- Consistent with the specified art style`;
-
-      for (let i = 0; i < IMAGES_PER_CHARACTER; i++) {
-        setGeneratingProgress({ current: i + 1, total: IMAGES_PER_CHARACTER });
-
-        try {
-          const imageData = await generateSceneImage(prompt, []);
-
-          // IndexedDB에 저장
-          const imageId = await saveCharacterImage(
-            character.id,
-            character.referenceImages.length + i,
-            imageData
-          );
+  // 생성 전에 저장공간 확인 (부족하면 사용자에게 확인)
+  const confirmStorageSpace = async (imageCount: number): Promise<boolean> => {
+    const warning = await checkStorageSpace(imageCount * ESTIMATED_IMAGE_BYTES);
+    return !warning || confirm(`${warning}\n설정에서 저장공간을 정리할 수 있습니다. 그래도 생성하시겠습니까?`);
+  };
 
-          newImageIds.push(imageId);
+  // 큐에 넣을 캐릭터 이미지 생성 작업 (참조 이미지 없이 외형 설명만으로 생성)
+  const buildJob = (character: Character): NewGenerationJob => ({
+    scriptId,
+    kind: 'character',
+    targetId: character.id,
+    label: character.name,
+    fileNamePrefix: character.name,
+    prompt: buildCharacterPrompt(character, selectedStyle),
+    referenceImageIds: [],
+    style: selectedStyle,
+    aspectRatio: '16:9',
+    imageCount: IMAGES_PER_CHARACTER,
+  });
 
-          // 캐시 업데이트
-          setImageCache((prev) => ({ ...prev, [imageId]: imageData }));
+  const handleGenerateClick = async (character: Character) => {
+    if (await confirmStorageSpace(IMAGES_PER_CHARACTER)) {
+      setError('');
+      enqueueGenerationJobs([buildJob(character)]);
+    }
+  };
 
-          // Rate limiting
-          if (i < IMAGES_PER_CHARACTER - 1) {
-            await new Promise((resolve) => setTimeout(resolve, 1500));
-          }
-        } catch (err) {
-          console.error(`캐릭터 이미지 ${i + 1} 생성 실패:`, err);
-        }
-      }
+  // 큐에서 생성 중인 캐릭터별 진행 상황 (저장한 장수/전체)과 대기 중인 캐릭터
+  const characterJobs = jobs.filter(
+    (job) => job.kind === 'character' && (job.status === 'pending' || job.status === 'running')
+  );
+  const generating: Record<string, { current: number; total: number }> = Object.fromEntries(
+    characterJobs
+      .filter((job) => job.status === 'running')
+      .map((job) => [job.targetId, { current: job.imageIds.length, total: job.imageCount }])
+  );
+  const queuedIds = new Set(characterJobs.filter((job) => job.status === 'pending').map((job) => job.targetId));
+  const activeJobCount = queuedIds.size + Object.keys(generating).length;
+  const stoppingIds = new Set(characterJobs.filter((job) => job.cancelRequested).map((job) => job.targetId));
 
-      if (newImageIds.length > 0) {
-        // localStorage에는 이미지 ID만 저장, 첫 이미지가 없으면 선택
-        const updates: Partial<Character> = {
-          referenceImages: [...character.referenceImages, ...newImageIds].slice(0, 8),
-        };
-        if (!character.selectedImage) {
-          updates.selectedImage = newImageIds[0];
-        }
-        handleUpdateCharacter(character.id, updates);
-      } else {
-        throw new Error('이미지 생성에 모두 실패했습니다.');
-      }
-    } catch (err) {
-      console.error('캐릭터 이미지 생성 실패:', err);
-      setError(err instanceof Error ? err.message : '이미지 생성 중 오류가 발생했습니다.');
-    } finally {
-      setGenerating(null);
-      setGeneratingProgress({ current: 0, total: 0 });
-    }
+  // 중지 - 이미 만든 이미지는 참조 이미지로 남는다
+  const handleStopClick = (character: Character) => {
+    cancelGenerationJobs(characterJobs.filter((job) => job.targetId === character.id).map((job) => job.id));
   };
 
-  // 전체 캐릭터 이미지 생성
-  const handleGenerateAll = async () => {
-    // 이미지가 없거나 8개 미만인 캐릭터만 대상
-    const targetCharacters = characters.filter(c => c.referenceImages.length < 8);
+  // 전체 캐릭터 이미지 생성 - 이미지가 없거나 8개 미만인 캐릭터 중 큐에 없는 캐릭터만 대상
+  const queueableCharacters = characters.filter(
+    (c) => c.referenceImages.length < MAX_REFERENCE_IMAGES && !queuedIds.has(c.id) && !generating[c.id]
+  );
 
-    if (targetCharacters.length === 0) {
+  const handleGenerateAll = async () => {
+    if (queueableCharacters.length === 0) {
       setError('생성할 캐릭터가 없습니다. (모든 캐릭터가 이미 8개의 이미지를 가지고 있습니다)');
       return;
     }
 
-    setError('');
-    setBatchProgress({ current: 0, total: targetCharacters.length });
-
-    for (let i = 0; i < targetCharacters.length; i++) {
-      const char = targetCharacters[i];
-      setBatchProgress({ current: i + 1, total: targetCharacters.length });
-
-      try {
-        // 최신 캐릭터 정보 다시 로드
-        const freshChars = getCharactersByScript(scriptId);
-        const freshChar = freshChars.find(c => c.id === char.id);
-        if (freshChar && freshChar.referenceImages.length < 8) {
-          await handleGenerateCharacterImages(freshChar);
-        }
-      } catch (err) {
-        console.error(`캐릭터 ${char.name} 이미지 생성 실패:`, err);
-      }
-
-      // 캐릭터 간 딜레이
-      if (i < targetCharacters.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
+    if (!(await confirmStorageSpace(queueableCharacters.length * IMAGES_PER_CHARACTER))) {
+      return;
     }
 
-    setBatchProgress({ current: 0, total: 0 });
+    setError('');
+    enqueueGenerationJobs(queueableCharacters.map(buildJob));
   };
 
   const pendingCount = characters.filter(c => c.referenceImages.length === 0).length;
-  const partialCount = characters.filter(c => c.referenceImages.length > 0 && c.referenceImages.length < 8).length;
+  const partialCount = characters.filter(c => c.referenceImages.length > 0 && c.referenceImages.length < MAX_REFERENCE_IMAGES).length;
 
   return (
     <div className="space-y-4">
@@ -191,21 +168,34 @@ REQUIREMENTS:
             이미지 없음: {pendingCount} · 추가 가능: {partialCount} · 캐릭터당 {IMAGES_PER_CHARACTER}장 생성
           </p>
         </div>
-        <button
-          onClick={handleGenerateAll}
-          disabled={generating !== null || (pendingCount === 0 && partialCount === 0)}
-          className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 transition"
-        >
-          {batchProgress.total > 0
-            ? `전체 생성 중... (${batchProgress.current}/${batchProgress.total})`
-            : '전체 캐릭터 생성'}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleGenerateAll}
+            disabled={queueableCharacters.length === 0}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 transition"
+          >
+            {activeJobCount > 0 ? `전체 생성 중... (남은 작업 ${activeJobCount}개)` : '전체 캐릭터 생성'}
+          </button>
+          {activeJobCount > 0 && (
+            <button
+              onClick={() => cancelGenerationJobs(characterJobs.map((job) => job.id))}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition"
+            >
+              전체 중지
+            </button>
+          )}
+        </div>
       </div>
 
       {error && (
         <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
       )}
 
+      <UnsavedImages
+        images={unsavedImages}
+        onDismiss={dismissUnsavedQueueImage}
+      />
+
       {/* 화풍 선택 */}
       <div className="bg-white rounded-lg shadow p-4">
         <h3 className="font-medium text-gray-800 mb-3">캐릭터 생성 화풍</h3>
@@ -214,12 +204,11 @@ REQUIREMENTS:
             <button
               key={style.id}
               onClick={() => setSelectedStyle(style.id)}
-              disabled={generating !== null}
               className={`p-3 rounded-lg border-2 transition text-center ${
                 selectedStyle === style.id
                   ? 'border-blue-500 bg-blue-50'
                   : 'border-gray-200 hover:border-gray-300'
-              } ${generating !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+              }`}
             >
               <div className="font-medium text-gray-800">{style.name}</div>
             </button>
@@ -237,13 +226,19 @@ REQUIREMENTS:
             <CharacterCard
               key={char.id}
               character={char}
-              isGenerating={generating === char.id}
-              generatingProgress={generating === char.id ? generatingProgress : null}
-              onUpdate={(updates) => handleUpdateCharacter(char.id, updates)}
-              onGenerate={() => handleGenerateCharacterImages(char)}
-              onSelectImage={(imageId) => handleUpdateCharacter(char.id, { selectedImage: imageId })}
+              isGenerating={!!generating[char.id]}
+              generatingProgress={generating[char.id] ?? null}
+              isQueued={queuedIds.has(char.id)}
+              isStopping={stoppingIds.has(char.id)}
+              onStop={() => handleStopClick(char)}
+              onUpdate={(updates) => handleUpdateCharacter(char, updates)}
+              onAppendImages={(imageIds) => handleAppendImages(char, imageIds)}
+              onRemoveImage={(imageId) => handleRemoveImage(char, imageId)}
+              onGenerate={() => handleGenerateClick(char)}
+              onSelectImage={(imageId) => handleUpdateCharacter(char, { selectedImage: imageId })}
+              onDelete={() => handleDeleteCharacter(char)}
               getImageSrc={getImageSrc}
-              setImageCache={setImageCache}
+              onImagesAdded={addImages}
             />
           ))}
         </div>
@@ -252,6 +247,31 @@ REQUIREMENTS:
   );
 }
 
+function buildCharacterPrompt(character: Character, style: ImageStyle): string {
+  const app = character.appearance;
+  return `${getStyleModifier(style)}
+
+CHARACTER PORTRAIT - Full body or upper body shot
+
+Character Details:
+- Name: ${character.name}
+- Age: ${app.age || 'young adult'}
+- Gender: ${app.gender || 'unspecified'}
+- Hair: ${app.hair || 'natural hair'}
+- Face: ${app.face || 'attractive features'}
+- Skin tone: ${app.skinTone || 'natural'}
+- Height: ${app.height || 'average'}
+- Outfit: ${character.defaultOutfit || 'casual modern clothes'}
+${app.features?.length ? `- Features: ${app.features.join(', ')}` : ''}
+
+REQUIREMENTS:
+- Clear, well-lit portrait suitable for character reference
+- Neutral background or simple setting
+- Character facing camera or 3/4 view
+- High quality, detailed rendering
+- Consistent with the specified art style`;
+}
+
 function getStyleModifier(style: ImageStyle): string {
   switch (style) {
     case 'realistic':
@@ -273,25 +293,38 @@ function CharacterCard({
   character,
   isGenerating,
   generatingProgress,
+  isQueued,
+  isStopping,
+  onStop,
   onUpdate,
+  onAppendImages,
+  onRemoveImage,
   onGenerate,
   onSelectImage,
+  onDelete,
   getImageSrc,
-  setImageCache,
+  onImagesAdded,
 }: {
   character: Character;
   isGenerating: boolean;
   generatingProgress: { current: number; total: number } | null;
+  isQueued: boolean;
+  isStopping: boolean;
+  onStop: () => void;
   onUpdate: (updates: Partial<Character>) => void;
+  onAppendImages: (imageIds: string[]) => void;
+  onRemoveImage: (imageId: string) => void;
   onGenerate: () => void;
   onSelectImage: (imageId: string) => void;
+  onDelete: () => void;
   getImageSrc: (id: string) => string;
-  setImageCache: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  onImagesAdded: (images: Record<string, Blob | string>) => void;
 }) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [editing, setEditing] = useState(false);
   const [form, setForm] = useState({
     name: character.name,
+    aliases: (character.aliases ?? []).join(', '),
     appearance: { ...character.appearance },
     defaultOutfit: character.defaultOutfit || '',
   });
@@ -300,34 +333,35 @@ function CharacterCard({
     const files = e.target.files;
     if (!files) return;
 
-    const remainingSlots = 8 - character.referenceImages.length;
+    const remainingSlots = MAX_REFERENCE_IMAGES - character.referenceImages.length;
     const filesToProcess = Array.from(files).slice(0, remainingSlots);
 
-    for (const file of filesToProcess) {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const base64 = event.target?.result as string;
+    const newImageIds: string[] = [];
 
-        // IndexedDB에 저장
-        const imageId = await saveCharacterImage(
+    try {
+      for (const file of filesToProcess) {
+        // IndexedDB에 파일 그대로(Blob) 저장
+        const imageId = await getProjectStore().saveCharacterImage(
+          character.scriptId,
           character.id,
-          character.referenceImages.length,
-          base64
+          character.referenceImages.length + newImageIds.length,
+          file
         );
 
         // 캐시 업데이트
-        setImageCache((prev) => ({ ...prev, [imageId]: base64 }));
-
-        // localStorage에는 ID만 저장, 첫 이미지면 선택
-        const updates: Partial<Character> = {
-          referenceImages: [...character.referenceImages, imageId],
-        };
-        if (!character.selectedImage) {
-          updates.selectedImage = imageId;
-        }
-        onUpdate(updates);
-      };
-      reader.readAsDataURL(file);
+        onImagesAdded({ [imageId]: file });
+
+        newImageIds.push(imageId);
+      }
+    } catch (err) {
+      // 저장공간 부족 등 - 이미 저장된 이미지까지만 반영
+      console.error('이미지 업로드 실패:', err);
+      alert(err instanceof Error ? err.message : '이미지 업로드 중 오류가 발생했습니다.');
+    }
+
+    // 캐릭터에는 ID만 저장, 첫 이미지면 선택
+    if (newImageIds.length > 0) {
+      onAppendImages(newImageIds);
     }
 
     if (fileInputRef.current) {
@@ -335,27 +369,21 @@ function CharacterCard({
     }
   };
 
-  const handleRemoveImage = async (index: number) => {
-    const imageId = character.referenceImages[index];
-
-    // IndexedDB에서 삭제
-    if (!imageId.startsWith('data:')) {
-      await deleteCharacterImage(imageId);
-    }
-
-    const newImages = character.referenceImages.filter((_, i) => i !== index);
-    const updates: Partial<Character> = { referenceImages: newImages };
-
-    // 선택된 이미지가 삭제되면 첫 번째 이미지로 변경
-    if (character.selectedImage === imageId) {
-      updates.selectedImage = newImages[0] || undefined;
-    }
-    onUpdate(updates);
+  // 실행 취소 등으로 바뀐 최신 값에서 편집 시작
+  const handleStartEdit = () => {
+    setForm({
+      name: character.name,
+      aliases: (character.aliases ?? []).join(', '),
+      appearance: { ...character.appearance },
+      defaultOutfit: character.defaultOutfit || '',
+    });
+    setEditing(true);
   };
 
   const handleSave = () => {
     onUpdate({
       name: form.name,
+      aliases: [...new Set(form.aliases.split(',').map((a) => a.trim()).filter(Boolean))],
       appearance: form.appearance,
       defaultOutfit: form.defaultOutfit || undefined,
     });
@@ -389,19 +417,32 @@ function CharacterCard({
             </p>
           </div>
         </div>
-        <button
-          onClick={onGenerate}
-          disabled={isGenerating || character.referenceImages.length >= 8}
-          className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm hover:bg-green-600 disabled:bg-gray-300 transition"
-        >
-          {isGenerating
-            ? generatingProgress
-              ? `생성 중 (${generatingProgress.current}/${generatingProgress.total})`
-              : '생성 중...'
-            : character.referenceImages.length >= 8
-              ? '최대 8개'
-              : 'AI 이미지 생성'}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onGenerate}
+            disabled={isGenerating || isQueued || character.referenceImages.length >= MAX_REFERENCE_IMAGES}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm hover:bg-green-600 disabled:bg-gray-300 transition"
+          >
+            {isGenerating
+              ? generatingProgress
+                ? `생성 중 (${generatingProgress.current}/${generatingProgress.total})`
+                : '생성 중...'
+              : isQueued
+                ? '대기 중'
+                : character.referenceImages.length >= MAX_REFERENCE_IMAGES
+                ? '최대 8개'
+                : 'AI 이미지 생성'}
+          </button>
+          {(isGenerating || isQueued) && (
+            <button
+              onClick={onStop}
+              disabled={isStopping}
+              className="px-3 py-2 border border-red-300 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50 transition"
+            >
+              {isStopping ? '중지 중...' : '중지'}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* 이미지 갤러리 - 항상 표시 */}
@@ -453,7 +494,8 @@ function CharacterCard({
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleRemoveImage(index);
+                        // 원본은 실행 취소할 수 있도록 남겨두고 목록에서만 제거 (저장공간 정리에서 삭제)
+                        onRemoveImage(imageId);
                       }}
                       className="absolute top-2 left-2 w-6 h-6 bg-red-500 text-white rounded-full text-sm opacity-0 group-hover:opacity-100 transition"
                     >
@@ -466,7 +508,7 @@ function CharacterCard({
                 );
               })}
 
-              {character.referenceImages.length < 8 && (
+              {character.referenceImages.length < MAX_REFERENCE_IMAGES && (
                 <label className="aspect-square border-2 border-dashed border-gray-300 rounded-lg flex flex-col items-center justify-center cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition">
                   <span className="text-gray-400 text-3xl mb-1">+</span>
                   <span className="text-xs text-gray-400">직접 업로드</span>
@@ -496,6 +538,16 @@ function CharacterCard({
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">다른 이름 (쉼표로 구분)</label>
+              <input
+                type="text"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                placeholder="예: 민준이, Minjun"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="block text-sm font-medium text-gray-700">나이</label>
@@ -582,13 +634,27 @@ function CharacterCard({
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <h4 className="font-medium text-gray-700">외모 정보</h4>
-              <button
-                onClick={() => setEditing(true)}
-                className="text-sm text-blue-500 hover:underline"
-              >
-                수정
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleStartEdit}
+                  className="text-sm text-blue-500 hover:underline"
+                >
+                  수정
+                </button>
+                <button
+                  onClick={onDelete}
+                  disabled={isGenerating}
+                  className="text-sm text-red-500 hover:underline disabled:opacity-50"
+                >
+                  삭제
+                </button>
+              </div>
             </div>
+            {(character.aliases?.length ?? 0) > 0 && (
+              <p className="text-sm mb-2">
+                <span className="text-gray-500">다른 이름:</span> {character.aliases?.join(', ')}
+              </p>
+            )}
             <div className="grid grid-cols-2 gap-2 text-sm">
               {character.appearance.age && (
                 <p><span className="text-gray-500">나이:</span> {character.appearance.age}</p>
@@ -1,236 +1,286 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { getProjectStore } from '../lib/projectStore';
+import { buildScenePrompt, IMAGE_STYLES, ASPECT_RATIOS, type ImageStyle, type AspectRatio } from '../lib/gemini';
+import { checkStorageSpace, ESTIMATED_IMAGE_BYTES } from '../lib/storageQuota';
+import { getImageProvider, getImageProviderName, resolveImageProviderId, type ImageProviderId } from '../lib/imageProviders';
 import {
-  getScenesByScript,
-  getCharactersByScript,
-  getCharacter,
-  updateScene,
-} from '../lib/storage';
-import { generateSceneImage, buildScenePrompt, IMAGE_STYLES, ASPECT_RATIOS, type ImageStyle, type AspectRatio } from '../lib/gemini';
-import { saveImage, getImage, getCharacterImage } from '../lib/imageStorage';
-import type { Scene, Character } from '../types';
+  enqueueGenerationJobs,
+  cancelGenerationJobs,
+  dismissUnsavedQueueImage,
+  type NewGenerationJob,
+} from '../lib/generationQueue';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { useProjectChanges } from '../hooks/useProjectChanges';
+import { useGenerationQueue, getQueueStatusKey } from '../hooks/useGenerationQueue';
+import { describeShotFraming, getSceneImageIds, getSceneStatus, getShotSizeName, getCameraAngleName } from '../lib/shots';
+import UnsavedImages from '../components/UnsavedImages';
+import SpeechBubbleEditor from '../components/SpeechBubbleEditor';
+import type { Scene, Character, Shot, SpeechBubble } from '../types';
 
 interface Props {
   scriptId: string;
+  revision: number; // 실행 취소/다시 실행 후 다시 불러오기 위한 값
   onUpdate: () => void;
 }
 
 const IMAGES_PER_GENERATION = 3; // 한 번에 생성할 이미지 수
 
-export default function Generate({ scriptId, onUpdate }: Props) {
+// 생성 중인 장면/샷의 진행 상황 (저장한 장수/전체)
+interface GenerationProgress {
+  current: number;
+  total: number;
+}
+
+// 생성 단위 - 샷이 있는 장면은 샷마다, 없는 장면은 장면 하나
+interface GenerationTarget {
+  scene: Scene;
+  shot?: Shot;
+}
+
+function getGenerationTargets(scenes: Scene[]): GenerationTarget[] {
+  return scenes.flatMap((scene) =>
+    scene.shots && scene.shots.length > 0 ? scene.shots.map((shot) => ({ scene, shot })) : [{ scene }]
+  );
+}
+
+function getTargetKey({ scene, shot }: GenerationTarget): string {
+  return shot?.id ?? scene.id;
+}
+
+function getTargetLabel({ scene, shot }: GenerationTarget): string {
+  return shot ? `장면 ${scene.sceneNumber} 샷 ${shot.shotNumber}` : `장면 ${scene.sceneNumber}`;
+}
+
+export default function Generate({ scriptId, revision, onUpdate }: Props) {
+  const store = getProjectStore();
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
-  const [generating, setGenerating] = useState<string | null>(null);
-  const [generatingProgress, setGeneratingProgress] = useState({ current: 0, total: 0 });
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [error, setError] = useState('');
-  const [imageCache, setImageCache] = useState<Record<string, string>>({});
-  const [charImageCache, setCharImageCache] = useState<Record<string, string>>({});
+  const { urls: imageUrls, addImages } = useObjectUrls();
+  const { urls: charThumbnailUrls, addImages: addCharThumbnails } = useObjectUrls();
   const [selectedStyle, setSelectedStyle] = useState<ImageStyle>('realistic');
   const [selectedRatio, setSelectedRatio] = useState<AspectRatio>('16:9');
+  const [imageProvider, setImageProvider] = useState<ImageProviderId>(() => resolveImageProviderId(undefined));
+  // 생성은 큐에서 진행 (페이지를 벗어나도 계속된다)
+  const { jobs, unsavedImages } = useGenerationQueue(scriptId);
+  const queueStatusKey = getQueueStatusKey(jobs);
+  // 이 탭에서 다루는 장면/샷 작업 중 대기/생성 중인 것
+  const sceneJobs = jobs.filter(
+    (job) => job.kind !== 'character' && (job.status === 'pending' || job.status === 'running')
+  );
+  // 말풍선 편집 중인 이미지
+  const [bubbleTarget, setBubbleTarget] = useState<{ sceneId: string; imageId: string; fileName: string } | null>(null);
+  const [isSavingBubbles, setIsSavingBubbles] = useState(false);
 
   const loadData = async () => {
-    const loadedScenes = getScenesByScript(scriptId);
+    const [loadedScenes, loadedCharacters, script] = await Promise.all([
+      store.getScenesByScript(scriptId),
+      store.getCharactersByScript(scriptId),
+      store.getScript(scriptId),
+    ]);
     setScenes(loadedScenes);
-    const loadedCharacters = getCharactersByScript(scriptId);
     setCharacters(loadedCharacters);
-
-    // 장면 이미지 캐시 로드
-    const cache: Record<string, string> = {};
-    for (const scene of loadedScenes) {
-      for (const imageId of scene.generatedImages) {
-        if (!cache[imageId] && !imageId.startsWith('data:')) {
-          const imageData = await getImage(imageId);
-          if (imageData) {
-            cache[imageId] = imageData;
-          }
-        }
-      }
-      if (scene.selectedImage && !cache[scene.selectedImage] && !scene.selectedImage.startsWith('data:')) {
-        const imageData = await getImage(scene.selectedImage);
-        if (imageData) {
-          cache[scene.selectedImage] = imageData;
-        }
-      }
-    }
-    setImageCache(prev => ({ ...prev, ...cache }));
-
-    // 캐릭터 참조 이미지 캐시 로드
-    const charCache: Record<string, string> = {};
-    for (const char of loadedCharacters) {
-      for (const imageId of char.referenceImages) {
-        if (!charCache[imageId] && !imageId.startsWith('data:')) {
-          const imageData = await getCharacterImage(imageId);
-          if (imageData) {
-            charCache[imageId] = imageData;
-          }
-        } else if (imageId.startsWith('data:')) {
-          charCache[imageId] = imageId;
-        }
-      }
-    }
-    setCharImageCache(prev => ({ ...prev, ...charCache }));
+    setImageProvider(resolveImageProviderId(script));
+
+    // 이미지 캐시 로드 (아직 캐시에 없는 이미지만 한 번에)
+    const missingSceneImageIds = loadedScenes
+      .flatMap(getSceneImageIds)
+      .filter((imageId) => !imageUrls[imageId]);
+    const missingCharImageIds = loadedCharacters
+      .flatMap((char) => char.referenceImages)
+      .filter((imageId) => !charThumbnailUrls[imageId]);
+
+    const [sceneImages, charThumbnails] = await Promise.all([
+      store.getImages(missingSceneImageIds),
+      store.getCharacterThumbnails(missingCharImageIds),
+    ]);
+    addImages(sceneImages);
+    addCharThumbnails(charThumbnails);
   };
 
+  // 큐의 작업이 시작되거나 끝나면 장면 상태/이미지 다시 불러오기
   useEffect(() => {
     loadData();
-  }, [scriptId]);
+  }, [scriptId, revision, queueStatusKey]);
+
+  // 다른 탭에서 장면/캐릭터를 수정하거나 이미지를 생성하면 다시 불러오기
+  useProjectChanges(['scenes', 'characters'], scriptId, loadData);
 
   const getSceneCharacters = (scene: Scene): Character[] => {
     return scene.characterIds
-      .map((id) => getCharacter(id))
+      .map((id) => characters.find((c) => c.id === id))
       .filter((c): c is Character => !!c);
   };
 
+  // 샷에 나오는 캐릭터 (지정하지 않은 샷은 장면 전체)
+  const getTargetCharacters = ({ scene, shot }: GenerationTarget): Character[] => {
+    if (!shot || shot.characterIds.length === 0) return getSceneCharacters(scene);
+    return shot.characterIds
+      .map((id) => characters.find((c) => c.id === id))
+      .filter((c): c is Character => !!c);
+  };
+
+  // 장면 또는 샷 변경
+  const updateTarget = ({ scene, shot }: GenerationTarget, updates: Partial<Scene & Shot>, historyLabel?: string) =>
+    shot
+      ? store.updateShot(scene.id, shot.id, updates, historyLabel)
+      : store.updateScene(scene.id, updates, historyLabel);
+
   const getImageSrc = (imageIdOrData: string): string => {
     if (imageIdOrData.startsWith('data:')) {
       return imageIdOrData;
     }
-    return imageCache[imageIdOrData] || '';
+    return imageUrls[imageIdOrData] || '';
   };
 
   const getCharImageSrc = (imageIdOrData: string): string => {
     if (imageIdOrData.startsWith('data:')) {
       return imageIdOrData;
     }
-    return charImageCache[imageIdOrData] || '';
+    return charThumbnailUrls[imageIdOrData] || '';
   };
 
-  const handleGenerateOne = async (scene: Scene, count: number = IMAGES_PER_GENERATION) => {
-    setError('');
-    setGenerating(scene.id);
-    setGeneratingProgress({ current: 0, total: count });
-
-    try {
-      updateScene(scene.id, { status: 'generating' });
-      await loadData();
+  // 생성 전에 저장공간 확인 (부족하면 사용자에게 확인)
+  const confirmStorageSpace = async (imageCount: number): Promise<boolean> => {
+    const warning = await checkStorageSpace(imageCount * ESTIMATED_IMAGE_BYTES);
+    return !warning || confirm(`${warning}\n설정에서 저장공간을 정리할 수 있습니다. 그래도 생성하시겠습니까?`);
+  };
 
-      const sceneCharacters = getSceneCharacters(scene);
-
-      // 캐릭터 참조 이미지 로드 (선택된 이미지 우선)
-      const referenceImages: string[] = [];
-      for (const char of sceneCharacters) {
-        // 선택된 이미지가 있으면 먼저 추가
-        if (char.selectedImage && referenceImages.length < 8) {
-          const imageData = charImageCache[char.selectedImage] || (char.selectedImage.startsWith('data:') ? char.selectedImage : null);
-          if (imageData) {
-            referenceImages.push(imageData);
-          }
-        }
-        // 나머지 이미지들도 추가 (선택된 이미지 제외)
-        for (const imageId of char.referenceImages) {
-          if (imageId !== char.selectedImage && referenceImages.length < 8) {
-            const imageData = charImageCache[imageId] || (imageId.startsWith('data:') ? imageId : null);
-            if (imageData) {
-              referenceImages.push(imageData);
-            }
-          }
-        }
+  // 큐에 넣을 작업 - 프롬프트와 참조 이미지는 지금 장면/캐릭터 기준으로 만든다
+  const buildJob = (target: GenerationTarget): NewGenerationJob => {
+    const { scene, shot } = target;
+    const sceneCharacters = getTargetCharacters(target);
+
+    // 캐릭터 참조 이미지 순서 (선택된 이미지 우선)
+    const referenceImageIds: string[] = [];
+    for (const char of sceneCharacters) {
+      // 선택된 이미지가 있으면 먼저 추가
+      if (char.selectedImage) {
+        referenceImageIds.push(char.selectedImage);
       }
-
-      const prompt = buildScenePrompt(
-        {
-          location: scene.location,
-          timeOfDay: scene.timeOfDay,
-          visualDescription: scene.visualDescription,
-          userEditedPrompt: scene.userEditedPrompt,
-        },
-        sceneCharacters.map((c) => ({
-          name: c.name,
-          appearance: c.appearance,
-          defaultOutfit: c.defaultOutfit,
-        })),
-        selectedStyle
-      );
-
-      const newImageIds: string[] = [];
-
-      // 여러 이미지 생성
-      for (let i = 0; i < count; i++) {
-        setGeneratingProgress({ current: i + 1, total: count });
-
-        try {
-          const imageData = await generateSceneImage(prompt, referenceImages, selectedRatio);
-          const imageId = await saveImage(scene.id, scene.generatedImages.length + i, imageData);
-
-          setImageCache(prev => ({ ...prev, [imageId]: imageData }));
-          newImageIds.push(imageId);
-
-          // Rate limiting 방지
-          if (i < count - 1) {
-            await new Promise((resolve) => setTimeout(resolve, 1500));
-          }
-        } catch (err) {
-          console.error(`이미지 ${i + 1} 생성 실패:`, err);
-          // 하나 실패해도 계속 진행
+      // 나머지 이미지들도 추가 (선택된 이미지 제외)
+      for (const imageId of char.referenceImages) {
+        if (imageId !== char.selectedImage) {
+          referenceImageIds.push(imageId);
         }
       }
+    }
 
-      if (newImageIds.length > 0) {
-        // 현재 scene 다시 로드
-        const currentScene = getScenesByScript(scriptId).find(s => s.id === scene.id);
-        const existingImages = currentScene?.generatedImages || [];
-
-        updateScene(scene.id, {
-          generatedImages: [...existingImages, ...newImageIds],
-          selectedImage: newImageIds[0], // 첫 번째를 기본 선택
-          status: 'completed',
-        });
-      } else {
-        throw new Error('이미지 생성에 모두 실패했습니다.');
-      }
+    const prompt = buildScenePrompt(
+      {
+        location: scene.location,
+        timeOfDay: scene.timeOfDay,
+        visualDescription: scene.visualDescription,
+        userEditedPrompt: scene.userEditedPrompt,
+      },
+      sceneCharacters.map((c) => ({
+        name: c.name,
+        appearance: c.appearance,
+        defaultOutfit: c.defaultOutfit,
+      })),
+      selectedStyle,
+      shot
+    );
+
+    return {
+      scriptId,
+      kind: shot ? 'shot' : 'scene',
+      targetId: scene.id,
+      shotId: shot?.id,
+      label: getTargetLabel(target),
+      fileNamePrefix: shot ? `scene_${scene.sceneNumber}_shot_${shot.shotNumber}` : `scene_${scene.sceneNumber}`,
+      prompt,
+      referenceImageIds,
+      style: selectedStyle,
+      aspectRatio: selectedRatio,
+      imageCount: IMAGES_PER_GENERATION,
+    };
+  };
+
+  const handleGenerateClick = async (target: GenerationTarget) => {
+    if (await confirmStorageSpace(IMAGES_PER_GENERATION)) {
+      setError('');
+      enqueueGenerationJobs([buildJob(target)]);
+    }
+  };
+
+  // 중지 - 이미 만든 이미지는 남고 장면/샷 상태는 생성 전으로 돌아간다
+  const handleStopClick = (target: GenerationTarget) => {
+    const key = getTargetKey(target);
+    cancelGenerationJobs(sceneJobs.filter((job) => (job.shotId ?? job.targetId) === key).map((job) => job.id));
+  };
 
+  const handleStopAll = () => {
+    cancelGenerationJobs(sceneJobs.map((job) => job.id));
+  };
+
+  const handleSelectImage = async (target: GenerationTarget, imageId: string) => {
+    await updateTarget(target, { selectedImage: imageId }, `${getTargetLabel(target)} 대표 이미지 선택`);
+    await loadData();
+  };
+
+  // 말풍선은 장면에 이미지별로 저장 - 다른 이미지의 말풍선은 그대로 두고 이 이미지 것만 바꾼다
+  const handleSaveBubbles = async (scene: Scene, imageId: string, bubbles: SpeechBubble[]) => {
+    setIsSavingBubbles(true);
+    setError('');
+    try {
+      const otherBubbles = (scene.bubbles ?? []).filter((b) => b.imageId !== imageId);
+      await store.updateScene(scene.id, { bubbles: [...otherBubbles, ...bubbles] }, `장면 ${scene.sceneNumber} 말풍선 편집`);
       await loadData();
       onUpdate();
+      setBubbleTarget(null);
     } catch (err) {
-      console.error('이미지 생성 실패:', err);
-      setError(err instanceof Error ? err.message : '이미지 생성 중 오류가 발생했습니다.');
-      updateScene(scene.id, { status: 'failed' });
-      await loadData();
+      console.error('말풍선 저장 실패:', err);
+      setError(err instanceof Error ? err.message : '말풍선 저장 중 오류가 발생했습니다.');
     } finally {
-      setGenerating(null);
-      setGeneratingProgress({ current: 0, total: 0 });
+      setIsSavingBubbles(false);
     }
   };
 
-  const handleSelectImage = (sceneId: string, imageId: string) => {
-    updateScene(sceneId, { selectedImage: imageId });
-    loadData();
-  };
+  const bubbleScene = bubbleTarget && scenes.find((s) => s.id === bubbleTarget.sceneId);
 
-  const handleGenerateAll = async () => {
-    const pendingScenes = scenes.filter(
-      (s) => s.status === 'pending' || s.status === 'failed'
-    );
+  const targets = getGenerationTargets(scenes);
+
+  // 큐에서 생성 중인 대상별 진행 상황 (여러 장면/샷이 동시에 생성된다)과 대기 중인 대상
+  const generating: Record<string, GenerationProgress> = Object.fromEntries(
+    sceneJobs
+      .filter((job) => job.status === 'running')
+      .map((job) => [job.shotId ?? job.targetId, { current: job.imageIds.length, total: job.imageCount }])
+  );
+  const queuedKeys = new Set(
+    sceneJobs.filter((job) => job.status === 'pending').map((job) => job.shotId ?? job.targetId)
+  );
+  const stoppingKeys = new Set(
+    sceneJobs.filter((job) => job.cancelRequested).map((job) => job.shotId ?? job.targetId)
+  );
+  const activeJobCount = queuedKeys.size + Object.keys(generating).length;
 
-    if (pendingScenes.length === 0) {
+  // 생성할 대상 - 대기/실패, 그리고 큐에 없는데 생성 중으로 남은 것 (예전에 생성하다 페이지를 닫은 경우)
+  const queueableTargets = targets.filter((t) => {
+    const key = getTargetKey(t);
+    const status = (t.shot ?? t.scene).status;
+    if (queuedKeys.has(key) || generating[key]) return false;
+    return status === 'pending' || status === 'failed' || status === 'generating';
+  });
+
+  const handleGenerateAll = async () => {
+    if (queueableTargets.length === 0) {
       setError('생성할 장면이 없습니다.');
       return;
     }
 
-    setError('');
-    setProgress({ current: 0, total: pendingScenes.length });
-
-    for (let i = 0; i < pendingScenes.length; i++) {
-      const scene = pendingScenes[i];
-      setProgress({ current: i + 1, total: pendingScenes.length });
-
-      try {
-        await handleGenerateOne(scene);
-      } catch (err) {
-        console.error(`장면 ${scene.sceneNumber} 생성 실패:`, err);
-      }
-
-      if (i < pendingScenes.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
+    if (!(await confirmStorageSpace(queueableTargets.length * IMAGES_PER_GENERATION))) {
+      return;
     }
 
-    setProgress({ current: 0, total: 0 });
+    setError('');
+    enqueueGenerationJobs(queueableTargets.map(buildJob));
   };
 
-  const completedCount = scenes.filter((s) => s.status === 'completed').length;
-  const pendingCount = scenes.filter(
-    (s) => s.status === 'pending' || s.status === 'failed'
+  const completedCount = targets.filter((t) => (t.shot ?? t.scene).status === 'completed').length;
+  const pendingCount = targets.filter(
+    (t) => (t.shot ?? t.scene).status === 'pending' || (t.shot ?? t.scene).status === 'failed'
   ).length;
 
   return (
@@ -239,24 +289,43 @@ export default function Generate({ scriptId, onUpdate }: Props) {
         <div>
           <h2 className="text-lg font-semibold text-gray-800">이미지 생성</h2>
           <p className="text-sm text-gray-500">
-            완료: {completedCount}/{scenes.length} · 대기: {pendingCount} · 장면당 {IMAGES_PER_GENERATION}장 생성
+            완료: {completedCount}/{targets.length} · 대기: {pendingCount} · 장면(샷)당 {IMAGES_PER_GENERATION}장 생성
+          </p>
+          <p className="text-sm text-gray-500">
+            생성 엔진: {getImageProviderName(imageProvider)}
+            <Link to="/settings" className="ml-2 text-blue-500 hover:underline">
+              변경
+            </Link>
           </p>
         </div>
-        <button
-          onClick={handleGenerateAll}
-          disabled={generating !== null || pendingCount === 0}
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition"
-        >
-          {progress.total > 0
-            ? `생성 중... (${progress.current}/${progress.total})`
-            : '전체 생성'}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleGenerateAll}
+            disabled={queueableTargets.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition"
+          >
+            {activeJobCount > 0 ? `생성 중... (남은 작업 ${activeJobCount}개)` : '전체 생성'}
+          </button>
+          {activeJobCount > 0 && (
+            <button
+              onClick={handleStopAll}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition"
+            >
+              전체 중지
+            </button>
+          )}
+        </div>
       </div>
 
       {error && (
         <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
       )}
 
+      <UnsavedImages
+        images={unsavedImages}
+        onDismiss={dismissUnsavedQueueImage}
+      />
+
       {/* 화풍 선택 */}
       <div className="bg-white rounded-lg shadow p-4">
         <h3 className="font-medium text-gray-800 mb-3">화풍 선택</h3>
@@ -265,12 +334,11 @@ export default function Generate({ scriptId, onUpdate }: Props) {
             <button
               key={style.id}
               onClick={() => setSelectedStyle(style.id)}
-              disabled={generating !== null}
               className={`p-3 rounded-lg border-2 transition text-center ${
                 selectedStyle === style.id
                   ? 'border-blue-500 bg-blue-50'
                   : 'border-gray-200 hover:border-gray-300'
-              } ${generating !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+              }`}
             >
               <div className="font-medium text-gray-800">{style.name}</div>
               <div className="text-xs text-gray-500 mt-1 line-clamp-2">{style.description}</div>
@@ -287,12 +355,11 @@ export default function Generate({ scriptId, onUpdate }: Props) {
             <button
               key={ratio.id}
               onClick={() => setSelectedRatio(ratio.id)}
-              disabled={generating !== null}
               className={`p-3 rounded-lg border-2 transition text-center ${
                 selectedRatio === ratio.id
                   ? 'border-blue-500 bg-blue-50'
                   : 'border-gray-200 hover:border-gray-300'
-              } ${generating !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+              }`}
             >
               <div className="font-medium text-gray-800">{ratio.name}</div>
               <div className="text-xs text-gray-500 mt-1">{ratio.description}</div>
@@ -303,7 +370,11 @@ export default function Generate({ scriptId, onUpdate }: Props) {
 
       {/* 캐릭터 참조 이미지 요약 */}
       <div className="bg-yellow-50 p-4 rounded-lg">
-        <h3 className="font-medium text-yellow-800 mb-2">캐릭터 참조 이미지 (선택된 이미지 우선 사용)</h3>
+        <h3 className="font-medium text-yellow-800 mb-2">
+          {getImageProvider(imageProvider).usesReferenceImages
+            ? '캐릭터 참조 이미지 (선택된 이미지 우선 사용)'
+            : `캐릭터 참조 이미지 (${getImageProviderName(imageProvider)}은(는) 참조 이미지 대신 외모 설명만 사용)`}
+        </h3>
         <div className="flex flex-wrap gap-4">
           {characters.map((char) => {
             // 선택된 이미지 또는 첫 번째 이미지
@@ -344,50 +415,77 @@ export default function Generate({ scriptId, onUpdate }: Props) {
             key={scene.id}
             scene={scene}
             characters={getSceneCharacters(scene)}
-            isGenerating={generating === scene.id}
-            generatingProgress={generating === scene.id ? generatingProgress : null}
-            onGenerate={() => handleGenerateOne(scene)}
-            onSelectImage={(imageId) => handleSelectImage(scene.id, imageId)}
+            generating={generating}
+            queuedKeys={queuedKeys}
+            stoppingKeys={stoppingKeys}
+            onGenerate={(shot) => handleGenerateClick({ scene, shot })}
+            onStop={(shot) => handleStopClick({ scene, shot })}
+            onSelectImage={(imageId, shot) => handleSelectImage({ scene, shot }, imageId)}
+            getShotCharacters={(shot) => getTargetCharacters({ scene, shot })}
             getImageSrc={getImageSrc}
+            onEditBubbles={(imageId, fileName) => setBubbleTarget({ sceneId: scene.id, imageId, fileName })}
           />
         ))}
       </div>
+
+      {bubbleTarget && bubbleScene && (
+        <SpeechBubbleEditor
+          key={bubbleTarget.imageId}
+          imageId={bubbleTarget.imageId}
+          imageSrc={getImageSrc(bubbleTarget.imageId)}
+          fileName={bubbleTarget.fileName}
+          dialogue={bubbleScene.dialogue ?? []}
+          characters={characters}
+          initialBubbles={(bubbleScene.bubbles ?? []).filter((b) => b.imageId === bubbleTarget.imageId)}
+          isSaving={isSavingBubbles}
+          onSave={(bubbles) => handleSaveBubbles(bubbleScene, bubbleTarget.imageId, bubbles)}
+          onClose={() => setBubbleTarget(null)}
+        />
+      )}
     </div>
   );
 }
 
+const STATUS_BORDER_COLORS: Record<Scene['status'], string> = {
+  pending: 'border-gray-300',
+  generating: 'border-yellow-400',
+  completed: 'border-green-400',
+  failed: 'border-red-400',
+};
+
 function SceneGenerateCard({
   scene,
   characters,
-  isGenerating,
-  generatingProgress,
+  generating,
+  queuedKeys,
+  stoppingKeys,
   onGenerate,
+  onStop,
   onSelectImage,
+  getShotCharacters,
   getImageSrc,
+  onEditBubbles,
 }: {
   scene: Scene;
   characters: Character[];
-  isGenerating: boolean;
-  generatingProgress: { current: number; total: number } | null;
-  onGenerate: () => void;
-  onSelectImage: (imageId: string) => void;
+  generating: Record<string, GenerationProgress>;
+  queuedKeys: Set<string>;
+  stoppingKeys: Set<string>;
+  onGenerate: (shot?: Shot) => void;
+  onStop: (shot?: Shot) => void;
+  onSelectImage: (imageId: string, shot?: Shot) => void;
+  getShotCharacters: (shot: Shot) => Character[];
   getImageSrc: (id: string) => string;
+  onEditBubbles: (imageId: string, fileName: string) => void;
 }) {
-  const getStatusColor = (status: Scene['status']) => {
-    const colors = {
-      pending: 'border-gray-300',
-      generating: 'border-yellow-400',
-      completed: 'border-green-400',
-      failed: 'border-red-400',
-    };
-    return colors[status];
-  };
-
+  const shots = scene.shots ?? [];
+  const hasShots = shots.length > 0;
+  const sceneProgress = generating[scene.id];
   const selectedImageSrc = scene.selectedImage ? getImageSrc(scene.selectedImage) : '';
 
   return (
     <div
-      className={`bg-white rounded-lg shadow border-l-4 ${getStatusColor(scene.status)} p-4`}
+      className={`bg-white rounded-lg shadow border-l-4 ${STATUS_BORDER_COLORS[getSceneStatus(scene)]} p-4`}
     >
       {/* 헤더 */}
       <div className="flex items-center justify-between mb-4">
@@ -398,90 +496,115 @@ function SceneGenerateCard({
           </h3>
           <p className="text-sm text-gray-500">
             {scene.location} · {scene.timeOfDay}
+            {hasShots && ` · 샷 ${shots.length}개`}
           </p>
-          <div className="flex items-center gap-2 mt-1">
-            {characters.map((char) => (
-              <span
-                key={char.id}
-                className="text-xs bg-gray-100 px-2 py-1 rounded"
-              >
-                {char.name}
-              </span>
-            ))}
-          </div>
-        </div>
-        <div className="flex flex-col gap-2 items-end">
-          <button
-            onClick={onGenerate}
-            disabled={isGenerating}
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 disabled:bg-blue-300 transition"
-          >
-            {isGenerating
-              ? generatingProgress
-                ? `생성 중... (${generatingProgress.current}/${generatingProgress.total})`
-                : '생성 중...'
-              : scene.generatedImages.length > 0
-                ? '추가 생성'
-                : '생성'}
-          </button>
-          {selectedImageSrc && (
-            <a
-              href={selectedImageSrc}
-              download={`scene_${scene.sceneNumber}.png`}
-              className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-center hover:bg-gray-50 transition"
-            >
-              선택 이미지 다운로드
-            </a>
-          )}
+          <CharacterTags characters={characters} />
         </div>
+        {/* 샷이 있는 장면은 샷별로 생성 */}
+        {!hasShots && (
+          <div className="flex flex-col gap-2 items-end">
+            <GenerateButton
+              progress={sceneProgress}
+              isQueued={queuedKeys.has(scene.id)}
+              hasImages={scene.generatedImages.length > 0}
+              isStopping={stoppingKeys.has(scene.id)}
+              onClick={() => onGenerate()}
+              onStop={() => onStop()}
+            />
+            {selectedImageSrc && scene.selectedImage && (
+              <>
+                <a
+                  href={selectedImageSrc}
+                  download={`scene_${scene.sceneNumber}.png`}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-center hover:bg-gray-50 transition"
+                >
+                  선택 이미지 다운로드
+                </a>
+                <BubbleButton
+                  count={countBubbles(scene, scene.selectedImage)}
+                  onClick={() =>
+                    scene.selectedImage && onEditBubbles(scene.selectedImage, `scene_${scene.sceneNumber}_bubbles.png`)
+                  }
+                />
+              </>
+            )}
+          </div>
+        )}
       </div>
 
-      {/* 이미지 갤러리 */}
-      {scene.generatedImages.length > 0 ? (
-        <div className="grid grid-cols-3 gap-4">
-          {scene.generatedImages.map((imageId, index) => {
-            const imageSrc = getImageSrc(imageId);
-            const isSelected = scene.selectedImage === imageId;
+      {/* 장면 이미지 (샷을 나누기 전에 생성한 이미지 포함) */}
+      {(!hasShots || scene.generatedImages.length > 0) && (
+        <ImageGallery
+          imageIds={scene.generatedImages}
+          selectedImage={scene.selectedImage}
+          altPrefix={`장면 ${scene.sceneNumber}`}
+          onSelectImage={(imageId) => onSelectImage(imageId)}
+          getImageSrc={getImageSrc}
+        />
+      )}
 
+      {/* 샷 */}
+      {hasShots && (
+        <div className="space-y-4 mt-4">
+          {shots.map((shot) => {
+            const shotProgress = generating[shot.id];
+            const shotImageSrc = shot.selectedImage ? getImageSrc(shot.selectedImage) : '';
             return (
-              <div
-                key={imageId}
-                onClick={() => onSelectImage(imageId)}
-                className={`relative cursor-pointer rounded-lg overflow-hidden border-4 transition ${
-                  isSelected ? 'border-blue-500 shadow-lg' : 'border-transparent hover:border-gray-300'
-                }`}
-              >
-                {imageSrc ? (
-                  <img
-                    src={imageSrc}
-                    alt={`장면 ${scene.sceneNumber} - ${index + 1}`}
-                    className="w-full object-contain"
-                  />
-                ) : (
-                  <div className="w-full aspect-video bg-gray-100 flex items-center justify-center">
-                    <span className="text-gray-400">로딩 중...</span>
+              <div key={shot.id} className={`border-l-4 ${STATUS_BORDER_COLORS[shot.status]} pl-4`}>
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-gray-800">
+                      샷 {shot.shotNumber}
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        {getShotSizeName(shot.size)} · {getCameraAngleName(shot.angle)}
+                      </span>
+                    </h4>
+                    <p className="text-sm text-gray-600">{shot.action}</p>
+                    <CharacterTags characters={getShotCharacters(shot)} />
                   </div>
-                )}
-                {isSelected && (
-                  <div className="absolute top-2 right-2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
-                    선택됨
+                  <div className="flex flex-col gap-2 items-end">
+                    <GenerateButton
+                      progress={shotProgress}
+                      isQueued={queuedKeys.has(shot.id)}
+                      hasImages={shot.generatedImages.length > 0}
+                      isStopping={stoppingKeys.has(shot.id)}
+                      onClick={() => onGenerate(shot)}
+                      onStop={() => onStop(shot)}
+                    />
+                    {shotImageSrc && shot.selectedImage && (
+                      <>
+                        <a
+                          href={shotImageSrc}
+                          download={`scene_${scene.sceneNumber}_shot_${shot.shotNumber}.png`}
+                          className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-center hover:bg-gray-50 transition"
+                        >
+                          선택 이미지 다운로드
+                        </a>
+                        <BubbleButton
+                          count={countBubbles(scene, shot.selectedImage)}
+                          onClick={() =>
+                            shot.selectedImage &&
+                            onEditBubbles(
+                              shot.selectedImage,
+                              `scene_${scene.sceneNumber}_shot_${shot.shotNumber}_bubbles.png`
+                            )
+                          }
+                        />
+                      </>
+                    )}
                   </div>
-                )}
-                <div className="absolute bottom-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded">
-                  #{index + 1}
                 </div>
+                <ImageGallery
+                  imageIds={shot.generatedImages}
+                  selectedImage={shot.selectedImage}
+                  altPrefix={`장면 ${scene.sceneNumber} 샷 ${shot.shotNumber} (${describeShotFraming(shot)})`}
+                  onSelectImage={(imageId) => onSelectImage(imageId, shot)}
+                  getImageSrc={getImageSrc}
+                />
               </div>
             );
           })}
         </div>
-      ) : (
-        <div className="flex items-center justify-center h-48 bg-gray-50 rounded-lg">
-          <div className="text-center text-gray-400">
-            <p className="text-4xl mb-2">🎬</p>
-            <p>아직 생성된 이미지가 없습니다</p>
-            <p className="text-sm">생성 버튼을 클릭하세요</p>
-          </div>
-        </div>
       )}
 
       {/* 장면 설명 */}
@@ -491,3 +614,143 @@ function SceneGenerateCard({
     </div>
   );
 }
+
+function countBubbles(scene: Scene, imageId: string): number {
+  return (scene.bubbles ?? []).filter((b) => b.imageId === imageId).length;
+}
+
+function BubbleButton({ count, onClick }: { count: number; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 transition"
+    >
+      말풍선 편집{count > 0 && ` (${count})`}
+    </button>
+  );
+}
+
+function CharacterTags({ characters }: { characters: Character[] }) {
+  return (
+    <div className="flex items-center gap-2 mt-1">
+      {characters.map((char) => (
+        <span
+          key={char.id}
+          className="text-xs bg-gray-100 px-2 py-1 rounded"
+        >
+          {char.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// 생성 버튼 - 큐에 있는 동안에는 진행 상황과 중지 버튼
+function GenerateButton({
+  progress,
+  isQueued,
+  hasImages,
+  isStopping,
+  onClick,
+  onStop,
+}: {
+  progress?: GenerationProgress; // 생성 중일 때만 (저장한 장수/전체)
+  isQueued: boolean;
+  hasImages: boolean;
+  isStopping: boolean;
+  onClick: () => void;
+  onStop: () => void;
+}) {
+  const isActive = !!progress || isQueued;
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={onClick}
+        disabled={isActive}
+        className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 disabled:bg-blue-300 transition"
+      >
+        {progress
+          ? `생성 중... (${progress.current}/${progress.total})`
+          : isQueued
+            ? '대기 중'
+            : hasImages
+              ? '추가 생성'
+              : '생성'}
+      </button>
+      {isActive && (
+        <button
+          onClick={onStop}
+          disabled={isStopping}
+          className="px-3 py-2 border border-red-300 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50 transition"
+        >
+          {isStopping ? '중지 중...' : '중지'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ImageGallery({
+  imageIds,
+  selectedImage,
+  altPrefix,
+  onSelectImage,
+  getImageSrc,
+}: {
+  imageIds: string[];
+  selectedImage?: string;
+  altPrefix: string;
+  onSelectImage: (imageId: string) => void;
+  getImageSrc: (id: string) => string;
+}) {
+  if (imageIds.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 bg-gray-50 rounded-lg">
+        <div className="text-center text-gray-400">
+          <p className="text-4xl mb-2">🎬</p>
+          <p>아직 생성된 이미지가 없습니다</p>
+          <p className="text-sm">생성 버튼을 클릭하세요</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {imageIds.map((imageId, index) => {
+        const imageSrc = getImageSrc(imageId);
+        const isSelected = selectedImage === imageId;
+
+        return (
+          <div
+            key={imageId}
+            onClick={() => onSelectImage(imageId)}
+            className={`relative cursor-pointer rounded-lg overflow-hidden border-4 transition ${
+              isSelected ? 'border-blue-500 shadow-lg' : 'border-transparent hover:border-gray-300'
+            }`}
+          >
+            {imageSrc ? (
+              <img
+                src={imageSrc}
+                alt={`${altPrefix} - ${index + 1}`}
+                className="w-full object-contain"
+              />
+            ) : (
+              <div className="w-full aspect-video bg-gray-100 flex items-center justify-center">
+                <span className="text-gray-400">로딩 중...</span>
+              </div>
+            )}
+            {isSelected && (
+              <div className="absolute top-2 right-2 bg-blue-500 text-white text-xs px-2 py-1 rounded">
+                선택됨
+              </div>
+            )}
+            <div className="absolute bottom-2 left-2 bg-black/50 text-white text-xs px-2 py-1 rounded">
+              #{index + 1}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,19 +1,53 @@
-import { Link } from 'react-router-dom';
-import { loadScripts, deleteScript } from '../lib/storage';
-import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { getProjectStore } from '../lib/projectStore';
+import { importProject, BUNDLE_EXTENSION } from '../lib/projectBundle';
+import { resolveAnalysisStatus } from '../lib/scriptAnalysis';
+import { useState, useEffect, useRef } from 'react';
+import { useProjectChanges } from '../hooks/useProjectChanges';
 import type { Script } from '../types';
 
 export default function Home() {
+  const navigate = useNavigate();
   const [scripts, setScripts] = useState<Script[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshScripts = async () => {
+    const list = await getProjectStore().listScripts();
+    setScripts(await Promise.all(list.map(resolveAnalysisStatus)));
+  };
 
   useEffect(() => {
-    setScripts(loadScripts());
+    refreshScripts();
   }, []);
 
-  const handleDelete = (id: string) => {
+  // 다른 탭에서 대본을 추가/수정/삭제하면 목록 갱신
+  useProjectChanges(['scripts'], undefined, refreshScripts);
+
+  const handleDelete = async (id: string) => {
     if (confirm('정말 삭제하시겠습니까? 관련된 캐릭터와 장면도 모두 삭제됩니다.')) {
-      deleteScript(id);
-      setScripts(loadScripts());
+      await getProjectStore().deleteScript(id);
+      await refreshScripts();
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const scriptId = await importProject(file);
+      navigate(`/scripts/${scriptId}`);
+    } catch (err) {
+      console.error('가져오기 실패:', err);
+      alert(err instanceof Error ? err.message : '프로젝트 가져오기 중 오류가 발생했습니다.');
+      await refreshScripts();
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
     }
   };
 
@@ -37,12 +71,28 @@ export default function Home() {
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-800">대본 목록</h1>
-        <Link
-          to="/scripts/new"
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
-        >
-          + 새 대본
-        </Link>
+        <div className="flex gap-2">
+          <label
+            className={`px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition cursor-pointer ${
+              isImporting ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            {isImporting ? '가져오는 중...' : '프로젝트 가져오기'}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${BUNDLE_EXTENSION},.zip`}
+              className="hidden"
+              onChange={handleImport}
+            />
+          </label>
+          <Link
+            to="/scripts/new"
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            + 새 대본
+          </Link>
+        </div>
       </div>
 
       {scripts.length === 0 ? (
@@ -1,25 +1,94 @@
-import { useState, useEffect } from 'react';
-import { getScenesByScript, getCharactersByScript, updateScene } from '../lib/storage';
-import type { Scene, Character } from '../types';
+import { useState, useEffect, useRef } from 'react';
+import { getProjectStore } from '../lib/projectStore';
+import { AnalysisCancelledError, analyzeScene } from '../lib/gemini';
+import { applySceneChanges, planSceneUpdate, type SceneField, type SceneFieldChange } from '../lib/analysisMerge';
+import SceneReanalysisReview from '../components/SceneReanalysisReview';
+import { downloadBlob } from '../lib/imageData';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { useProjectChanges } from '../hooks/useProjectChanges';
+import { useGenerationQueue, getQueueStatusKey } from '../hooks/useGenerationQueue';
+import {
+  SHOT_SIZES,
+  CAMERA_ANGLES,
+  createShot,
+  getSceneCoverImage,
+  getSceneImageIds,
+  getSceneStatus,
+  getShotSizeName,
+  getCameraAngleName,
+} from '../lib/shots';
+import type { Scene, Character, Shot } from '../types';
 
 interface Props {
   scriptId: string;
+  revision: number; // 실행 취소/다시 실행 후 다시 불러오기 위한 값
   onUpdate: () => void;
 }
 
-export default function Scenes({ scriptId, onUpdate }: Props) {
+export default function Scenes({ scriptId, revision, onUpdate }: Props) {
+  const store = getProjectStore();
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
+  const [styleGuide, setStyleGuide] = useState<string | undefined>();
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { urls: thumbnailUrls, addImages: addThumbnails } = useObjectUrls();
+  // 생성 큐의 작업이 시작되거나 끝나면 장면 상태/이미지 다시 불러오기
+  const queueStatusKey = getQueueStatusKey(useGenerationQueue(scriptId).jobs);
+
+  const loadScenes = async () => {
+    const scns = await store.getScenesByScript(scriptId);
+    setScenes(scns);
+
+    // 목록/갤러리는 썸네일로 표시
+    const missingIds = scns
+      .flatMap(getSceneImageIds)
+      .filter((imageId) => !thumbnailUrls[imageId]);
+    addThumbnails(await store.getThumbnails(missingIds));
+  };
+
+  const loadCharacters = async () => {
+    setCharacters(await store.getCharactersByScript(scriptId));
+  };
+
+  const loadStyleGuide = async () => {
+    setStyleGuide((await store.getScript(scriptId))?.styleGuide);
+  };
 
   useEffect(() => {
-    setScenes(getScenesByScript(scriptId));
-    setCharacters(getCharactersByScript(scriptId));
-  }, [scriptId]);
+    loadScenes();
+    loadCharacters();
+    loadStyleGuide();
+  }, [scriptId, revision, queueStatusKey]);
+
+  // 다른 탭에서 장면/캐릭터를 수정하면 다시 불러오기
+  useProjectChanges(['scenes'], scriptId, loadScenes);
+  useProjectChanges(['characters'], scriptId, loadCharacters);
+
+  const handleUpdateScene = async (id: string, updates: Partial<Scene>, historyLabel: string) => {
+    await store.updateScene(id, updates, historyLabel);
+    await loadScenes();
+    onUpdate();
+  };
+
+  // 샷 추가/삭제 - 생성 큐가 그 사이 다른 샷에 붙인 이미지를 덮어쓰지 않도록 저장소에서 최신 샷 목록에 적용
+  const handleUpdateShots = async (scene: Scene, change: (shots: Shot[]) => Shot[], historyLabel: string) => {
+    await store.updateShots(scene.id, change, historyLabel);
+    await loadScenes();
+    onUpdate();
+  };
 
-  const handleUpdateScene = (id: string, updates: Partial<Scene>) => {
-    updateScene(id, updates);
-    setScenes(getScenesByScript(scriptId));
+  const handleUpdateShot = async (scene: Scene, shot: Shot, updates: Partial<Shot>) => {
+    await store.updateShot(scene.id, shot.id, updates, `장면 ${scene.sceneNumber} 샷 ${shot.shotNumber} 수정`);
+    await loadScenes();
+    onUpdate();
+  };
+
+  const handleDeleteScene = async (scene: Scene) => {
+    if (!confirm(`장면 ${scene.sceneNumber}을(를) 삭제하시겠습니까? 생성된 이미지도 함께 삭제됩니다.`)) {
+      return;
+    }
+    await store.deleteScene(scene.id);
+    await loadScenes();
     onUpdate();
   };
 
@@ -48,9 +117,17 @@ export default function Scenes({ scriptId, onUpdate }: Props) {
               key={scene.id}
               scene={scene}
               characterNames={getCharacterNames(scene.characterIds)}
+              characters={characters}
+              styleGuide={styleGuide}
+              getThumbnailSrc={(imageId) =>
+                imageId.startsWith('data:') ? imageId : thumbnailUrls[imageId] || ''
+              }
               isExpanded={selectedId === scene.id}
               onToggle={() => setSelectedId(selectedId === scene.id ? null : scene.id)}
-              onUpdate={(updates) => handleUpdateScene(scene.id, updates)}
+              onUpdate={(updates, historyLabel) => handleUpdateScene(scene.id, updates, historyLabel)}
+              onUpdateShot={(shot, updates) => handleUpdateShot(scene, shot, updates)}
+              onUpdateShots={(change, historyLabel) => handleUpdateShots(scene, change, historyLabel)}
+              onDelete={() => handleDeleteScene(scene)}
             />
           ))}
         </div>
@@ -62,20 +139,75 @@ export default function Scenes({ scriptId, onUpdate }: Props) {
 function SceneCard({
   scene,
   characterNames,
+  characters,
+  styleGuide,
+  getThumbnailSrc,
   isExpanded,
   onToggle,
   onUpdate,
+  onUpdateShot,
+  onUpdateShots,
+  onDelete,
 }: {
   scene: Scene;
   characterNames: string;
+  characters: Character[];
+  styleGuide?: string;
+  getThumbnailSrc: (imageId: string) => string;
   isExpanded: boolean;
   onToggle: () => void;
-  onUpdate: (updates: Partial<Scene>) => void;
+  onUpdate: (updates: Partial<Scene>, historyLabel: string) => Promise<void>;
+  onUpdateShot: (shot: Shot, updates: Partial<Shot>) => void;
+  onUpdateShots: (change: (shots: Shot[]) => Shot[], historyLabel: string) => void;
+  onDelete: () => void;
 }) {
   const [editingPrompt, setEditingPrompt] = useState(false);
   const [promptText, setPromptText] = useState(
     scene.userEditedPrompt || scene.generatedPrompt || scene.visualDescription || ''
   );
+  // 장면 재분석 - 결과는 필드별로 골라서 적용
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [changes, setChanges] = useState<SceneFieldChange[] | null>(null);
+  const [reanalysisError, setReanalysisError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    setReanalysisError('');
+    setChanges(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const result = await analyzeScene(scene, characters, styleGuide, { signal: controller.signal });
+      setChanges(planSceneUpdate(scene, characters, result));
+    } catch (err) {
+      if (!(err instanceof AnalysisCancelledError)) {
+        console.error('장면 재분석 실패:', err);
+        setReanalysisError(err instanceof Error ? err.message : '장면 재분석 중 오류가 발생했습니다.');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsReanalyzing(false);
+    }
+  };
+
+  const handleApplyChanges = async (accepted: Set<SceneField>) => {
+    if (!changes) return;
+    setIsApplying(true);
+    setReanalysisError('');
+    try {
+      await onUpdate(applySceneChanges(changes, accepted), `장면 ${scene.sceneNumber} 재분석`);
+      setChanges(null);
+    } catch (err) {
+      console.error('장면 재분석 적용 실패:', err);
+      setReanalysisError(err instanceof Error ? err.message : '장면 재분석 적용 중 오류가 발생했습니다.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
 
   const getStatusBadge = (status: Scene['status']) => {
     const badges = {
@@ -92,8 +224,33 @@ function SceneCard({
     );
   };
 
+  // 원본 이미지 다운로드
+  const handleDownload = async (imageId: string, index: number) => {
+    const fileName = `scene_${scene.sceneNumber}_${index + 1}.png`;
+    if (imageId.startsWith('data:')) {
+      const link = document.createElement('a');
+      link.href = imageId;
+      link.download = fileName;
+      link.click();
+      return;
+    }
+    const blob = (await getProjectStore().getImages([imageId]))[imageId];
+    if (blob) {
+      downloadBlob(blob, fileName);
+    }
+  };
+
+  const coverImageId = getSceneCoverImage(scene);
+  const coverSrc = coverImageId ? getThumbnailSrc(coverImageId) : '';
+
+  // 실행 취소 등으로 바뀐 최신 값에서 편집 시작
+  const handleStartEditPrompt = () => {
+    setPromptText(scene.userEditedPrompt || scene.generatedPrompt || scene.visualDescription || '');
+    setEditingPrompt(true);
+  };
+
   const handleSavePrompt = () => {
-    onUpdate({ userEditedPrompt: promptText });
+    onUpdate({ userEditedPrompt: promptText }, `장면 ${scene.sceneNumber} 프롬프트 수정`);
     setEditingPrompt(false);
   };
 
@@ -105,9 +262,9 @@ function SceneCard({
         onClick={onToggle}
       >
         <div className="flex items-center gap-4">
-          {scene.generatedImages[0] ? (
+          {coverSrc ? (
             <img
-              src={scene.generatedImages[0]}
+              src={coverSrc}
               alt={`장면 ${scene.sceneNumber}`}
               className="w-16 h-16 rounded-lg object-cover"
             />
@@ -122,12 +279,13 @@ function SceneCard({
                 장면 {scene.sceneNumber}
                 {scene.title && `: ${scene.title}`}
               </h3>
-              {getStatusBadge(scene.status)}
+              {getStatusBadge(getSceneStatus(scene))}
             </div>
             <p className="text-sm text-gray-500">
               {scene.location && `${scene.location}`}
               {scene.timeOfDay && ` · ${scene.timeOfDay}`}
               {characterNames && ` · ${characterNames}`}
+              {(scene.shots?.length ?? 0) > 0 && ` · 샷 ${scene.shots?.length}개`}
             </p>
           </div>
         </div>
@@ -137,6 +295,27 @@ function SceneCard({
       {/* 상세 */}
       {isExpanded && (
         <div className="border-t p-4 space-y-4">
+          {/* 장면 재분석 */}
+          <div className="flex items-center justify-end gap-2">
+            {isReanalyzing && <span className="text-sm text-blue-600">이 장면만 다시 분석하는 중...</span>}
+            <button
+              onClick={isReanalyzing ? () => abortRef.current?.abort() : handleReanalyze}
+              disabled={isApplying}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {isReanalyzing ? '취소' : '장면 재분석'}
+            </button>
+          </div>
+          {reanalysisError && <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{reanalysisError}</div>}
+          {changes && (
+            <SceneReanalysisReview
+              changes={changes}
+              isApplying={isApplying}
+              onApply={handleApplyChanges}
+              onCancel={() => setChanges(null)}
+            />
+          )}
+
           {/* 원본 대본 */}
           <div>
             <h4 className="font-medium text-gray-700 mb-2">원본 대본</h4>
@@ -145,6 +324,27 @@ function SceneCard({
             </pre>
           </div>
 
+          {/* 대사 */}
+          {(scene.dialogue?.length ?? 0) > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-700 mb-2">대사 ({scene.dialogue?.length})</h4>
+              <ul className="text-sm bg-gray-50 p-3 rounded-lg space-y-1 max-h-40 overflow-auto">
+                {scene.dialogue?.map((line) => (
+                  <li key={line.id} className={line.kind === 'narration' ? 'text-gray-500 italic' : 'text-gray-700'}>
+                    {line.kind !== 'narration' && (
+                      <span className="font-medium">
+                        {characters.find((c) => c.id === line.characterId)?.name ?? line.speaker}
+                        {line.kind === 'thought' && ' (생각)'}
+                        {line.tone && ` (${line.tone})`}:{' '}
+                      </span>
+                    )}
+                    {line.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* 시각적 묘사 */}
           {scene.visualDescription && (
             <div>
@@ -161,7 +361,7 @@ function SceneCard({
               <h4 className="font-medium text-gray-700">이미지 생성 프롬프트</h4>
               {!editingPrompt && (
                 <button
-                  onClick={() => setEditingPrompt(true)}
+                  onClick={handleStartEditPrompt}
                   className="text-sm text-blue-500 hover:underline"
                 >
                   수정
@@ -201,6 +401,14 @@ function SceneCard({
             )}
           </div>
 
+          {/* 샷 */}
+          <ShotList
+            scene={scene}
+            characters={characters}
+            onUpdateShot={onUpdateShot}
+            onUpdateShots={onUpdateShots}
+          />
+
           {/* 생성된 이미지 */}
           {scene.generatedImages.length > 0 && (
             <div>
@@ -208,19 +416,24 @@ function SceneCard({
                 생성된 이미지 ({scene.generatedImages.length})
               </h4>
               <div className="flex flex-wrap gap-2">
-                {scene.generatedImages.map((img, index) => (
-                  <a
-                    key={index}
-                    href={img}
-                    download={`scene_${scene.sceneNumber}_${index + 1}.png`}
+                {scene.generatedImages.map((imageId, index) => (
+                  <button
+                    key={imageId}
+                    onClick={() => handleDownload(imageId, index)}
                     className="block"
                   >
-                    <img
-                      src={img}
-                      alt={`생성 이미지 ${index + 1}`}
-                      className="w-32 h-32 object-cover rounded-lg hover:opacity-80 transition"
-                    />
-                  </a>
+                    {getThumbnailSrc(imageId) ? (
+                      <img
+                        src={getThumbnailSrc(imageId)}
+                        alt={`생성 이미지 ${index + 1}`}
+                        className="w-32 h-32 object-cover rounded-lg hover:opacity-80 transition"
+                      />
+                    ) : (
+                      <div className="w-32 h-32 rounded-lg bg-gray-100 flex items-center justify-center text-gray-400 text-sm">
+                        로딩...
+                      </div>
+                    )}
+                  </button>
                 ))}
               </div>
               <p className="text-xs text-gray-500 mt-1">
@@ -228,8 +441,181 @@ function SceneCard({
               </p>
             </div>
           )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={onDelete}
+              className="text-sm text-red-500 hover:underline"
+            >
+              장면 삭제
+            </button>
+          </div>
         </div>
       )}
     </div>
   );
 }
+
+// 샷 목록 - 크기/앵글/등장 캐릭터/동작 수정, 추가, 삭제
+function ShotList({
+  scene,
+  characters,
+  onUpdateShot,
+  onUpdateShots,
+}: {
+  scene: Scene;
+  characters: Character[];
+  onUpdateShot: (shot: Shot, updates: Partial<Shot>) => void;
+  onUpdateShots: (change: (shots: Shot[]) => Shot[], historyLabel: string) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<Pick<Shot, 'size' | 'angle' | 'characterIds' | 'action'>>({
+    size: 'medium',
+    angle: 'eye-level',
+    characterIds: [],
+    action: '',
+  });
+  const shots = scene.shots ?? [];
+
+  const handleStartEdit = (shot: Shot) => {
+    setForm({ size: shot.size, angle: shot.angle, characterIds: shot.characterIds, action: shot.action });
+    setEditingId(shot.id);
+  };
+
+  const handleSave = (shot: Shot) => {
+    onUpdateShot(shot, form);
+    setEditingId(null);
+  };
+
+  const handleAdd = () => {
+    const shot = createShot(shots.length + 1, { characterIds: scene.characterIds });
+    onUpdateShots(
+      (latest) => [...latest, { ...shot, shotNumber: latest.length + 1 }],
+      `장면 ${scene.sceneNumber} 샷 추가`
+    );
+    handleStartEdit(shot);
+  };
+
+  const handleDelete = (shot: Shot) => {
+    if (!confirm(`샷 ${shot.shotNumber}을(를) 삭제하시겠습니까?`)) {
+      return;
+    }
+    // 생성한 이미지는 실행 취소할 수 있도록 남겨두고 목록에서만 제거 (저장공간 정리에서 삭제)
+    onUpdateShots(
+      (latest) => latest.filter((s) => s.id !== shot.id).map((s, index) => ({ ...s, shotNumber: index + 1 })),
+      `장면 ${scene.sceneNumber} 샷 ${shot.shotNumber} 삭제`
+    );
+  };
+
+  const toggleCharacter = (id: string) => {
+    setForm({
+      ...form,
+      characterIds: form.characterIds.includes(id)
+        ? form.characterIds.filter((c) => c !== id)
+        : [...form.characterIds, id],
+    });
+  };
+
+  const getNames = (ids: string[]) =>
+    ids.map((id) => characters.find((c) => c.id === id)?.name).filter(Boolean).join(', ');
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-700">샷 ({shots.length})</h4>
+        <button onClick={handleAdd} className="text-sm text-blue-500 hover:underline">
+          샷 추가
+        </button>
+      </div>
+      {shots.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+          샷이 없으면 장면 전체를 한 장면으로 생성합니다.
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {shots.map((shot) => (
+            <li key={shot.id} className="p-3">
+              {editingId === shot.id ? (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={form.size}
+                      onChange={(e) => setForm({ ...form, size: e.target.value as Shot['size'] })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {SHOT_SIZES.map((size) => (
+                        <option key={size.id} value={size.id}>{size.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={form.angle}
+                      onChange={(e) => setForm({ ...form, angle: e.target.value as Shot['angle'] })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {CAMERA_ANGLES.map((angle) => (
+                        <option key={angle.id} value={angle.id}>{angle.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    {characters.map((char) => (
+                      <label key={char.id} className="flex items-center gap-1 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.characterIds.includes(char.id)}
+                          onChange={() => toggleCharacter(char.id)}
+                        />
+                        {char.name}
+                      </label>
+                    ))}
+                  </div>
+                  <textarea
+                    value={form.action}
+                    onChange={(e) => setForm({ ...form, action: e.target.value })}
+                    rows={3}
+                    placeholder="이 샷에서 보이는 동작/구도 (영어 권장)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleSave(shot)}
+                      className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600"
+                    >
+                      저장
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                    >
+                      취소
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800">
+                      샷 {shot.shotNumber} · {getShotSizeName(shot.size)} · {getCameraAngleName(shot.angle)}
+                      {shot.characterIds.length > 0 && (
+                        <span className="font-normal text-gray-500"> · {getNames(shot.characterIds)}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">{shot.action || '동작 설명 없음'}</p>
+                  </div>
+                  <div className="flex gap-3 shrink-0">
+                    <button onClick={() => handleStartEdit(shot)} className="text-sm text-blue-500 hover:underline">
+                      수정
+                    </button>
+                    <button onClick={() => handleDelete(shot)} className="text-sm text-red-500 hover:underline">
+                      삭제
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,131 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, Link, Routes, Route, useLocation } from 'react-router-dom';
 import { v4 as uuidv4 } from 'uuid';
-import { getScript, getCharactersByScript, getScenesByScript, updateScript, saveAnalysisResult } from '../lib/storage';
-import { analyzeScript } from '../lib/gemini';
-import type { Script, Character, Scene } from '../types';
+import { getProjectStore, type ProjectHistory } from '../lib/projectStore';
+import type { HistoryState, ScriptSnapshot } from '../lib/history';
+import { analyzeScriptContent, resolveAnalysisStatus } from '../lib/scriptAnalysis';
+import { AnalysisCancelledError } from '../lib/gemini';
+import type { AnalysisPreview } from '../lib/analysisChunks';
+import { exportProject, getBundleFileName } from '../lib/projectBundle';
+import { downloadBlob } from '../lib/imageData';
+import { useProjectChanges } from '../hooks/useProjectChanges';
+import { useGenerationQueue, getQueueStatusKey } from '../hooks/useGenerationQueue';
+import {
+  cancelGenerationJobs,
+  clearFinishedJobs,
+  moveGenerationJob,
+  removeGenerationJob,
+  retryGenerationJob,
+  setQueuePaused,
+} from '../lib/generationQueue';
+import { planAnalysisMerge, applyMergePlan, type AnalysisMergePlan } from '../lib/analysisMerge';
+import { linkUnresolvedName } from '../lib/characterNames';
+import { getSceneStatus } from '../lib/shots';
+import type { Script, Character, Scene, ScriptRevision } from '../types';
+import ReanalysisReview from '../components/ReanalysisReview';
+import AnalysisPreviewPanel from '../components/AnalysisPreviewPanel';
+import GenerationQueuePanel from '../components/GenerationQueuePanel';
+import UnresolvedNamesReport from '../components/UnresolvedNamesReport';
 import Characters from './Characters';
 import Scenes from './Scenes';
 import Generate from './Generate';
 
+const MAX_SCRIPT_REVISIONS = 20; // 대본당 보관할 이전 원문 수
+
 export default function ScriptDetail() {
   const { id } = useParams<{ id: string }>();
   const location = useLocation();
+  const store = getProjectStore();
   const [script, setScript] = useState<Script | null>(null);
   const [characters, setCharacters] = useState<Character[]>([]);
   const [scenes, setScenes] = useState<Scene[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [historyState, setHistoryState] = useState<HistoryState>({ undoLabel: null, redoLabel: null });
+  // 실행 취소/다시 실행/스냅샷 복원 후 탭 내용을 다시 불러오기 위한 값
+  const [revision, setRevision] = useState(0);
+  const isApplyingHistory = useRef(false);
+  // 이미지 생성 큐 (어느 탭을 보고 있어도 계속 생성)
+  const generationQueue = useGenerationQueue(id ?? '');
+  const queueStatusKey = getQueueStatusKey(generationQueue.jobs);
 
-  const loadData = () => {
+  const loadData = async () => {
     if (id) {
-      const s = getScript(id);
+      const s = await store.getScript(id);
       if (s) {
-        setScript(s);
-        setCharacters(getCharactersByScript(id));
-        setScenes(getScenesByScript(id));
+        const [resolved, chars, scns, history] = await Promise.all([
+          resolveAnalysisStatus(s),
+          store.getCharactersByScript(id),
+          store.getScenesByScript(id),
+          store.history?.getState(id) ?? { undoLabel: null, redoLabel: null },
+        ]);
+        setScript(resolved);
+        setCharacters(chars);
+        setScenes(scns);
+        setHistoryState(history);
       }
     }
   };
 
   useEffect(() => {
     loadData();
+  }, [id, queueStatusKey]);
+
+  // 다른 탭의 변경 반영 (각 탭 화면은 자기 데이터를 따로 구독한다)
+  useProjectChanges(['scripts', 'characters', 'scenes'], id, loadData);
+
+  // 실행 취소/다시 실행 (탭 전체 공통)
+  const applyHistory = async (action: keyof Pick<ProjectHistory, 'undo' | 'redo'>) => {
+    const history = store.history;
+    if (!id || !history || isApplyingHistory.current) return;
+    isApplyingHistory.current = true;
+    try {
+      const label = await history[action](id);
+      if (label) {
+        setRevision((r) => r + 1);
+        await loadData();
+      }
+    } catch (err) {
+      console.error('실행 취소/다시 실행 실패:', err);
+      alert(err instanceof Error ? err.message : '실행 취소 중 오류가 발생했습니다.');
+    } finally {
+      isApplyingHistory.current = false;
+    }
+  };
+
+  const handleRestored = async () => {
+    setRevision((r) => r + 1);
+    await loadData();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (입력 중일 때는 브라우저 기본 텍스트 실행 취소 사용)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      e.preventDefault();
+      applyHistory(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, [id]);
 
+  const handleExport = async () => {
+    if (!script) return;
+    setIsExporting(true);
+    try {
+      const blob = await exportProject(script.id);
+      downloadBlob(blob, getBundleFileName(script.title));
+    } catch (err) {
+      console.error('내보내기 실패:', err);
+      alert(err instanceof Error ? err.message : '프로젝트 내보내기 중 오류가 발생했습니다.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   if (!script) {
     return (
       <div className="text-center py-12">
@@ -62,10 +158,52 @@ export default function ScriptDetail() {
         <Link to="/" className="text-sm text-gray-500 hover:text-gray-700">
           ← 목록으로
         </Link>
-        <h1 className="text-2xl font-bold text-gray-800 mt-2">{script.title}</h1>
-        {script.genre && (
-          <p className="text-sm text-gray-500">{script.genre}</p>
-        )}
+        <div className="flex items-start justify-between mt-2">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">{script.title}</h1>
+            {script.genre && (
+              <p className="text-sm text-gray-500">{script.genre}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {store.history && (
+              <>
+                <button
+                  onClick={() => applyHistory('undo')}
+                  disabled={!historyState.undoLabel}
+                  title={historyState.undoLabel ? `실행 취소: ${historyState.undoLabel} (Ctrl+Z)` : '실행 취소할 작업이 없습니다'}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+                >
+                  ↶ 실행 취소
+                </button>
+                <button
+                  onClick={() => applyHistory('redo')}
+                  disabled={!historyState.redoLabel}
+                  title={historyState.redoLabel ? `다시 실행: ${historyState.redoLabel} (Ctrl+Shift+Z)` : '다시 실행할 작업이 없습니다'}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+                >
+                  ↷ 다시 실행
+                </button>
+              </>
+            )}
+            {/* 저장 서버는 편집 기록을 남기지 않는다 - 버튼이 말없이 사라진 것처럼 보이지 않도록 알린다 */}
+            {!store.history && (
+              <span
+                title="저장 서버를 쓰는 동안에는 실행 취소/다시 실행과 재분석 전 스냅샷을 지원하지 않습니다"
+                className="self-center text-sm text-gray-400"
+              >
+                실행 취소 없음 (저장 서버)
+              </span>
+            )}
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {isExporting ? '내보내는 중...' : '프로젝트 내보내기'}
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* 탭 네비게이션 */}
@@ -87,23 +225,44 @@ export default function ScriptDetail() {
         </nav>
       </div>
 
+      <GenerationQueuePanel
+        jobs={generationQueue.jobs}
+        isPaused={generationQueue.isPaused}
+        onTogglePause={() => setQueuePaused(script.id, !generationQueue.isPaused)}
+        onMove={(job, direction) => moveGenerationJob(job.id, direction)}
+        onRetry={(job) => retryGenerationJob(job.id)}
+        onCancel={(job) => cancelGenerationJobs([job.id])}
+        onCancelAll={() => cancelGenerationJobs(generationQueue.jobs.map((job) => job.id))}
+        onRemove={(job) => removeGenerationJob(job.id)}
+        onClearFinished={() => clearFinishedJobs(script.id)}
+      />
+
       {/* 탭 콘텐츠 */}
       <Routes>
         <Route
           index
-          element={<ScriptInfo script={script} characters={characters} scenes={scenes} onReanalyze={loadData} />}
+          element={
+            <ScriptInfo
+              script={script}
+              characters={characters}
+              scenes={scenes}
+              revision={revision}
+              onUpdate={loadData}
+              onRestored={handleRestored}
+            />
+          }
         />
         <Route
           path="characters"
-          element={<Characters scriptId={id!} onUpdate={loadData} />}
+          element={<Characters scriptId={id!} revision={revision} onUpdate={loadData} />}
         />
         <Route
           path="scenes"
-          element={<Scenes scriptId={id!} onUpdate={loadData} />}
+          element={<Scenes scriptId={id!} revision={revision} onUpdate={loadData} />}
         />
         <Route
           path="generate"
-          element={<Generate scriptId={id!} onUpdate={loadData} />}
+          element={<Generate scriptId={id!} revision={revision} onUpdate={loadData} />}
         />
       </Routes>
     </div>
@@ -115,78 +274,207 @@ function ScriptInfo({
   script,
   characters,
   scenes,
-  onReanalyze,
+  revision,
+  onUpdate,
+  onRestored,
 }: {
   script: Script;
   characters: Character[];
   scenes: Scene[];
-  onReanalyze: () => void;
+  revision: number;
+  onUpdate: () => Promise<void>;
+  onRestored: () => Promise<void>;
 }) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [analysisProgress, setAnalysisProgress] = useState({ current: 0, total: 0 });
+  const [analysisPreview, setAnalysisPreview] = useState<AnalysisPreview | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [mergePlan, setMergePlan] = useState<AnalysisMergePlan | null>(null);
+  const [isEditingContent, setIsEditingContent] = useState(false);
+  const [draftContent, setDraftContent] = useState('');
+  const [showRevisions, setShowRevisions] = useState(false);
   const [error, setError] = useState('');
+  const [snapshots, setSnapshots] = useState<ScriptSnapshot[]>([]);
+  const store = getProjectStore();
 
-  const handleReanalyze = async () => {
-    if (!confirm('기존 캐릭터와 장면 정보가 삭제됩니다. 계속하시겠습니까?')) {
+  const loadSnapshots = async () => {
+    setSnapshots((await store.history?.listSnapshots(script.id)) ?? []);
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [script.id, revision]);
+
+  // 다른 탭으로 이동하면 진행 중인 분석 중단
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const handleRestoreSnapshot = async (snapshot: ScriptSnapshot) => {
+    if (!confirm(`${formatSnapshotTime(snapshot.createdAt)} 스냅샷으로 되돌리시겠습니까? (실행 취소로 다시 되돌릴 수 있습니다)`)) {
+      return;
+    }
+    setError('');
+    try {
+      await store.history?.restoreSnapshot(snapshot.id);
+      await onRestored();
+    } catch (err) {
+      console.error('스냅샷 복원 실패:', err);
+      setError(err instanceof Error ? err.message : '스냅샷 복원 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshot: ScriptSnapshot) => {
+    if (!confirm('이 스냅샷을 삭제하시겠습니까?')) {
       return;
     }
+    await store.history?.deleteSnapshot(snapshot.id);
+    await loadSnapshots();
+  };
 
+  // 재분석: 분석 결과를 기존 캐릭터/장면과 비교해서 검토 화면을 먼저 보여준다
+  const handleReanalyze = async () => {
     setIsAnalyzing(true);
     setError('');
+    setNotice('');
+    setMergePlan(null);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      const result = await analyzeScript(script.rawContent);
-      const now = new Date().toISOString();
-
-      // 캐릭터 생성
-      const newCharacters: Character[] = result.characters.map((c) => ({
-        id: uuidv4(),
-        scriptId: script.id,
-        name: c.name,
-        appearance: c.appearance,
-        defaultOutfit: c.defaultOutfit,
-        referenceImages: [],
-        createdAt: now,
-        updatedAt: now,
-      }));
-
-      // 캐릭터 이름 -> ID 매핑
-      const charNameToId = new Map(newCharacters.map((c) => [c.name, c.id]));
-
-      // 장면 생성
-      const newScenes: Scene[] = result.scenes.map((s) => ({
-        id: uuidv4(),
-        scriptId: script.id,
-        sceneNumber: s.sceneNumber,
-        title: s.title,
-        location: s.location,
-        timeOfDay: s.timeOfDay,
-        originalText: s.originalText,
-        visualDescription: s.visualDescription,
-        characterIds: s.characterNames
-          .map((name) => charNameToId.get(name))
-          .filter((id): id is string => !!id),
-        generatedImages: [],
-        status: 'pending',
-        createdAt: now,
-        updatedAt: now,
-      }));
-
-      // 저장
-      saveAnalysisResult(script.id, newCharacters, newScenes);
-      updateScript(script.id, {
-        status: 'ready',
-        styleGuide: result.styleGuide,
+      const { result, warning } = await analyzeScriptContent(script.rawContent, {
+        onProgress: setAnalysisProgress,
+        onPreview: setAnalysisPreview,
+        signal: controller.signal,
       });
-
-      onReanalyze();
+      setMergePlan(planAnalysisMerge(script.id, characters, scenes, result));
+      setNotice(warning ?? '');
     } catch (err) {
-      console.error('분석 실패:', err);
-      setError(err instanceof Error ? err.message : '분석 중 오류가 발생했습니다.');
+      if (err instanceof AnalysisCancelledError) {
+        // 재분석은 검토 후에 저장하므로 취소해도 기존 캐릭터/장면은 그대로
+        setNotice(err.message);
+      } else {
+        console.error('분석 실패:', err);
+        setError(err instanceof Error ? err.message : '분석 중 오류가 발생했습니다.');
+      }
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
+      setIsCancelling(false);
+      setAnalysisProgress({ current: 0, total: 0 });
+      setAnalysisPreview(null);
     }
   };
 
+  const handleCancelAnalysis = () => {
+    setIsCancelling(true);
+    analysisAbortRef.current?.abort();
+  };
+
+  const handleApplyMerge = async (removeIds: Set<string>) => {
+    if (!mergePlan) return;
+    if (
+      !store.history &&
+      !confirm('저장 서버를 쓰는 동안에는 재분석 전 스냅샷을 남기지 않고 실행 취소도 할 수 없습니다. 재분석 결과를 적용하시겠습니까?')
+    ) {
+      return;
+    }
+    setIsApplying(true);
+    setError('');
+
+    try {
+      // 적용 전 상태를 자동으로 저장
+      await store.history?.createSnapshot(script.id, '재분석 전');
+
+      const merged = applyMergePlan(mergePlan, removeIds);
+      // 저장 (실행 취소 가능)
+      await store.saveAnalysisResult(script.id, merged.characters, merged.scenes, {
+        scriptUpdates: { status: 'ready', styleGuide: mergePlan.styleGuide, analyzedAt: new Date().toISOString() },
+        historyLabel: '대본 재분석',
+      });
+
+      setMergePlan(null);
+      await loadSnapshots();
+      await onUpdate();
+    } catch (err) {
+      console.error('재분석 결과 적용 실패:', err);
+      setError(err instanceof Error ? err.message : '재분석 결과 적용 중 오류가 발생했습니다.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // 연결하지 못한 이름을 캐릭터에 연결 (별칭 추가 + 장면 연결을 한 번에 저장, 실행 취소 가능)
+  const handleLinkName = async (name: string, characterId: string | null) => {
+    setIsLinking(true);
+    setError('');
+
+    try {
+      const linked = linkUnresolvedName(script.id, characters, scenes, name, characterId);
+      await store.saveAnalysisResult(script.id, linked.characters, linked.scenes, {
+        historyLabel: characterId ? `"${name}" 이름 연결` : `"${name}" 캐릭터 추가`,
+      });
+      await onUpdate();
+    } catch (err) {
+      console.error('이름 연결 실패:', err);
+      setError(err instanceof Error ? err.message : '이름 연결 중 오류가 발생했습니다.');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  // 원문 수정 - 이전 원문은 수정 기록으로 남긴다
+  const saveRawContent = async (rawContent: string, historyLabel: string) => {
+    const revision: ScriptRevision = {
+      id: uuidv4(),
+      rawContent: script.rawContent,
+      createdAt: new Date().toISOString(),
+    };
+    await store.updateScript(
+      script.id,
+      { rawContent, revisions: [revision, ...(script.revisions ?? [])].slice(0, MAX_SCRIPT_REVISIONS) },
+      historyLabel
+    );
+    await onUpdate();
+  };
+
+  const handleSaveContent = async () => {
+    const rawContent = draftContent.trim();
+    if (!rawContent) {
+      setError('대본 내용을 입력해주세요.');
+      return;
+    }
+    setError('');
+    try {
+      if (rawContent !== script.rawContent) {
+        await saveRawContent(rawContent, '대본 원문 수정');
+      }
+      setIsEditingContent(false);
+    } catch (err) {
+      console.error('원문 저장 실패:', err);
+      setError(err instanceof Error ? err.message : '원문 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleRestoreRevision = async (revision: ScriptRevision) => {
+    if (!confirm(`${formatSnapshotTime(revision.createdAt)} 이전 원문으로 되돌리시겠습니까? (현재 원문은 수정 기록에 남습니다)`)) {
+      return;
+    }
+    setError('');
+    try {
+      await saveRawContent(revision.rawContent, '대본 원문 되돌리기');
+    } catch (err) {
+      console.error('원문 되돌리기 실패:', err);
+      setError(err instanceof Error ? err.message : '원문 되돌리기 중 오류가 발생했습니다.');
+    }
+  };
+
+  // 마지막 분석 이후 원문이 바뀌었는지
+  const latestRevision = script.revisions?.[0];
+  const isContentChanged = !!latestRevision && (!script.analyzedAt || latestRevision.createdAt > script.analyzedAt);
+
   return (
     <div className="space-y-6">
       {/* 에러 메시지 */}
@@ -194,11 +482,15 @@ function ScriptInfo({
         <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
       )}
 
+      {notice && (
+        <div className="p-4 bg-yellow-50 text-yellow-700 rounded-lg">{notice}</div>
+      )}
+
       {/* 분석 버튼 */}
       <div className="flex gap-4">
         <button
           onClick={handleReanalyze}
-          disabled={isAnalyzing}
+          disabled={isAnalyzing || isApplying || isEditingContent}
           className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition disabled:bg-blue-300"
         >
           {isAnalyzing ? '분석 중...' : '대본 재분석'}
@@ -206,12 +498,38 @@ function ScriptInfo({
         {script.status === 'draft' && (
           <span className="text-yellow-600 self-center">⚠️ 아직 분석되지 않았습니다</span>
         )}
+        {script.status !== 'draft' && isContentChanged && (
+          <span className="text-yellow-600 self-center">⚠️ 마지막 분석 이후 원문이 수정되었습니다</span>
+        )}
       </div>
 
       {isAnalyzing && (
-        <div className="p-4 bg-blue-50 rounded-lg">
-          <p className="text-blue-700">AI가 대본을 분석하고 있습니다. 잠시만 기다려주세요...</p>
-        </div>
+        <AnalysisPreviewPanel
+          progress={analysisProgress}
+          preview={analysisPreview}
+          isCancelling={isCancelling}
+          onCancel={handleCancelAnalysis}
+        />
+      )}
+
+      {/* 재분석 검토 */}
+      {mergePlan && (
+        <ReanalysisReview
+          plan={mergePlan}
+          isApplying={isApplying}
+          onApply={handleApplyMerge}
+          onCancel={() => setMergePlan(null)}
+        />
+      )}
+
+      {/* 연결되지 않은 이름 */}
+      {!mergePlan && (
+        <UnresolvedNamesReport
+          characters={characters}
+          scenes={scenes}
+          isSaving={isLinking || isAnalyzing}
+          onLink={handleLinkName}
+        />
       )}
 
       {/* 요약 */}
@@ -227,11 +545,46 @@ function ScriptInfo({
         <div className="bg-white rounded-lg shadow p-4">
           <p className="text-sm text-gray-500">생성된 이미지</p>
           <p className="text-2xl font-bold text-gray-800">
-            {scenes.filter((s) => s.status === 'completed').length}개
+            {scenes.filter((s) => getSceneStatus(s) === 'completed').length}개
           </p>
         </div>
       </div>
 
+      {/* 스냅샷 */}
+      {snapshots.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="font-semibold text-gray-800 mb-2">스냅샷</h3>
+          <ul className="divide-y">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id} className="py-2 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-700">
+                    {snapshot.label} · {formatSnapshotTime(snapshot.createdAt)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    캐릭터 {snapshot.characters.length}명 · 장면 {snapshot.scenes.length}개
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleRestoreSnapshot(snapshot)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                  >
+                    복원
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSnapshot(snapshot)}
+                    className="px-3 py-1 text-sm text-red-500 hover:bg-red-50 rounded-lg transition"
+                  >
+                    삭제
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 스타일 가이드 */}
       {script.styleGuide && (
         <div className="bg-white rounded-lg shadow p-4">
@@ -242,11 +595,81 @@ function ScriptInfo({
 
       {/* 대본 원문 */}
       <div className="bg-white rounded-lg shadow p-4">
-        <h3 className="font-semibold text-gray-800 mb-2">대본 원문</h3>
-        <pre className="text-sm text-gray-600 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded max-h-96 overflow-auto">
-          {script.rawContent}
-        </pre>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-800">대본 원문</h3>
+          {isEditingContent ? (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsEditingContent(false)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleSaveContent}
+                className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+              >
+                저장
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              {(script.revisions?.length ?? 0) > 0 && (
+                <button
+                  onClick={() => setShowRevisions((v) => !v)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  수정 기록 ({script.revisions?.length})
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setDraftContent(script.rawContent);
+                  setIsEditingContent(true);
+                }}
+                disabled={isAnalyzing || isApplying}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+              >
+                수정
+              </button>
+            </div>
+          )}
+        </div>
+        {isEditingContent ? (
+          <textarea
+            value={draftContent}
+            onChange={(e) => setDraftContent(e.target.value)}
+            rows={20}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <pre className="text-sm text-gray-600 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded max-h-96 overflow-auto">
+            {script.rawContent}
+          </pre>
+        )}
+        {showRevisions && !isEditingContent && script.revisions && (
+          <ul className="divide-y mt-4 border-t">
+            {script.revisions.map((revision) => (
+              <li key={revision.id} className="py-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-700">{formatSnapshotTime(revision.createdAt)}까지의 원문</p>
+                  <button
+                    onClick={() => handleRestoreRevision(revision)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                  >
+                    되돌리기
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 truncate">{revision.rawContent.slice(0, 200)}</p>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
 }
+
+function formatSnapshotTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR');
+}
@@ -1,9 +1,15 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useRef, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
 import { v4 as uuidv4 } from 'uuid';
-import { addScript, updateScript, saveAnalysisResult } from '../lib/storage';
-import { analyzeScript } from '../lib/gemini';
-import type { Script, Character, Scene } from '../types';
+import { getProjectStore } from '../lib/projectStore';
+import { analyzeScriptContent, runScriptAnalysis } from '../lib/scriptAnalysis';
+import { AnalysisCancelledError } from '../lib/gemini';
+import type { AnalysisPreview } from '../lib/analysisChunks';
+import { buildAnalysisEntities } from '../lib/analysisMerge';
+import { importScriptFile, SCRIPT_FILE_ACCEPT, type ImportedScript } from '../lib/scriptImport';
+import AnalysisPreviewPanel from '../components/AnalysisPreviewPanel';
+import ImportPreview from '../components/ImportPreview';
+import type { Script } from '../types';
 
 export default function ScriptNew() {
   const navigate = useNavigate();
@@ -12,6 +18,59 @@ export default function ScriptNew() {
   const [genre, setGenre] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState('');
+  const [importInfo, setImportInfo] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  // 불러온 파일 - 미리보기에서 확인한 뒤 대본 내용에 넣는다
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; imported: ImportedScript } | null>(null);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [preview, setPreview] = useState<AnalysisPreview | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // 분석을 취소/실패하면 대본은 초안으로 남는다 - 다시 분석하면 새로 만들지 않고 그 초안을 사용
+  const [draftScriptId, setDraftScriptId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 페이지를 벗어나면 분석 중단 (대본은 초안으로 저장)
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // 대본 파일 불러오기 (Fountain/FDX는 장면/등장인물을 미리 나눠서, Word/PDF/텍스트는 본문만)
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    setImportInfo('');
+    setPendingImport(null);
+    setIsImporting(true);
+    try {
+      setPendingImport({ fileName: file.name, imported: await importScriptFile(file) });
+    } catch (err) {
+      console.error('대본 파일 불러오기 실패:', err);
+      setError(err instanceof Error ? err.message : '대본 파일을 불러오는 중 오류가 발생했습니다.');
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleApplyImport = () => {
+    if (!pendingImport) return;
+    const { fileName, imported } = pendingImport;
+    if (rawContent.trim() && !confirm('입력한 대본 내용을 불러온 파일 내용으로 바꾸시겠습니까?')) {
+      return;
+    }
+    setRawContent(imported.rawContent);
+    if (!title.trim() && imported.title) {
+      setTitle(imported.title);
+    }
+    setImportInfo(
+      imported.sceneCount !== undefined
+        ? `${fileName}: 장면 ${imported.sceneCount}개, 등장인물 ${imported.characterCount ?? 0}명을 불러왔습니다.`
+        : `${fileName}을(를) 불러왔습니다.`
+    );
+    setPendingImport(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,78 +86,80 @@ export default function ScriptNew() {
       return;
     }
 
-    // 대본 생성
-    const scriptId = uuidv4();
-    const now = new Date().toISOString();
-    const script: Script = {
-      id: scriptId,
+    // 대본 생성 (앞에서 취소/실패한 초안이 있으면 그 대본을 고쳐서 사용)
+    const scriptId = draftScriptId ?? uuidv4();
+    const fields = {
       title: title.trim(),
       rawContent: rawContent.trim(),
       genre: genre.trim() || undefined,
-      status: 'analyzing',
-      createdAt: now,
-      updatedAt: now,
+      status: 'analyzing' as const,
     };
-
-    addScript(script);
+    try {
+      if (draftScriptId) {
+        await getProjectStore().updateScript(scriptId, fields);
+      } else {
+        const now = new Date().toISOString();
+        const script: Script = { id: scriptId, ...fields, createdAt: now, updatedAt: now };
+        await getProjectStore().addScript(script);
+        setDraftScriptId(scriptId);
+      }
+    } catch (err) {
+      console.error('대본 저장 실패:', err);
+      setError(err instanceof Error ? err.message : '대본 저장 중 오류가 발생했습니다.');
+      return;
+    }
 
     // AI 분석 시작
     setIsAnalyzing(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const result = await analyzeScript(rawContent);
-
-      // 캐릭터 생성
-      const characters: Character[] = result.characters.map((c) => ({
-        id: uuidv4(),
-        scriptId,
-        name: c.name,
-        appearance: c.appearance,
-        defaultOutfit: c.defaultOutfit,
-        referenceImages: [],
-        createdAt: now,
-        updatedAt: now,
-      }));
-
-      // 캐릭터 이름 -> ID 매핑
-      const charNameToId = new Map(characters.map((c) => [c.name, c.id]));
-
-      // 장면 생성
-      const scenes: Scene[] = result.scenes.map((s) => ({
-        id: uuidv4(),
-        scriptId,
-        sceneNumber: s.sceneNumber,
-        title: s.title,
-        location: s.location,
-        timeOfDay: s.timeOfDay,
-        originalText: s.originalText,
-        visualDescription: s.visualDescription,
-        characterIds: s.characterNames
-          .map((name) => charNameToId.get(name))
-          .filter((id): id is string => !!id),
-        generatedImages: [],
-        status: 'pending',
-        createdAt: now,
-        updatedAt: now,
-      }));
-
-      // 저장
-      saveAnalysisResult(scriptId, characters, scenes);
-      updateScript(scriptId, {
-        status: 'ready',
-        styleGuide: result.styleGuide,
+      const { result, warning } = await runScriptAnalysis(scriptId, () =>
+        analyzeScriptContent(rawContent, {
+          onProgress: setProgress,
+          onPreview: setPreview,
+          signal: controller.signal,
+        })
+      );
+
+      // 캐릭터/장면 생성
+      const { characters, scenes } = buildAnalysisEntities(scriptId, result);
+
+      // 저장 (분석 결과와 대본 상태를 한 번에)
+      await getProjectStore().saveAnalysisResult(scriptId, characters, scenes, {
+        scriptUpdates: { status: 'ready', styleGuide: result.styleGuide, analyzedAt: new Date().toISOString() },
       });
 
+      if (warning) {
+        alert(warning);
+      }
       navigate(`/scripts/${scriptId}`);
     } catch (err) {
-      console.error('분석 실패:', err);
-      setError(err instanceof Error ? err.message : '분석 중 오류가 발생했습니다.');
-      updateScript(scriptId, { status: 'draft' });
+      if (!(err instanceof AnalysisCancelledError)) {
+        console.error('분석 실패:', err);
+        setError(err instanceof Error ? err.message : '분석 중 오류가 발생했습니다.');
+      }
+      // 초안으로 되돌리기 실패는 기록만 한다 (원래 오류를 가리지 않도록, 불러올 때도 초안으로 보인다)
+      try {
+        await getProjectStore().updateScript(scriptId, { status: 'draft' });
+      } catch (statusErr) {
+        console.error('대본 상태 되돌리기 실패:', statusErr);
+      }
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
+      setIsCancelling(false);
+      setProgress({ current: 0, total: 0 });
+      setPreview(null);
     }
   };
 
+  const handleCancelAnalysis = () => {
+    setIsCancelling(true);
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="max-w-3xl mx-auto">
       <h1 className="text-2xl font-bold text-gray-800 mb-6">새 대본</h1>
@@ -108,6 +169,16 @@ export default function ScriptNew() {
           <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
         )}
 
+        {draftScriptId && !isAnalyzing && (
+          <div className="p-4 bg-yellow-50 text-yellow-700 rounded-lg">
+            분석이 끝나지 않은 대본이 초안으로 저장되어 있습니다. 여기서 다시 분석하거나{' '}
+            <Link to={`/scripts/${draftScriptId}`} className="underline">
+              대본 상세
+            </Link>
+            에서 나중에 분석할 수 있습니다.
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             제목 <span className="text-red-500">*</span>
@@ -145,9 +216,34 @@ export default function ScriptNew() {
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            대본 내용 <span className="text-red-500">*</span>
-          </label>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700">
+              대본 내용 <span className="text-red-500">*</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isAnalyzing || isImporting}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {isImporting ? '읽는 중...' : '파일 불러오기'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SCRIPT_FILE_ACCEPT}
+              onChange={handleImportFile}
+              className="hidden"
+            />
+          </div>
+          {pendingImport && (
+            <ImportPreview
+              fileName={pendingImport.fileName}
+              imported={pendingImport.imported}
+              onApply={handleApplyImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
           <textarea
             value={rawContent}
             onChange={(e) => setRawContent(e.target.value)}
@@ -158,7 +254,10 @@ export default function ScriptNew() {
           />
           <p className="text-sm text-gray-500 mt-1">
             입력된 대본을 AI가 분석하여 캐릭터와 장면을 자동으로 추출합니다.
+            Word(.docx), PDF(글자가 있는 PDF), 텍스트(.txt, 한글에서 저장한 EUC-KR 포함),
+            Fountain(.fountain), Final Draft(.fdx) 파일을 불러올 수 있습니다.
           </p>
+          {importInfo && <p className="text-sm text-green-600 mt-1">{importInfo}</p>}
         </div>
 
         <div className="flex gap-4">
@@ -180,11 +279,12 @@ export default function ScriptNew() {
         </div>
 
         {isAnalyzing && (
-          <div className="p-4 bg-blue-50 rounded-lg">
-            <p className="text-blue-700">
-              AI가 대본을 분석하고 있습니다. 잠시만 기다려주세요...
-            </p>
-          </div>
+          <AnalysisPreviewPanel
+            progress={progress}
+            preview={preview}
+            isCancelling={isCancelling}
+            onCancel={handleCancelAnalysis}
+          />
         )}
       </form>
     </div>
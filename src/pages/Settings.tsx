@@ -1,30 +1,235 @@
 import { useState, useEffect } from 'react';
 import { loadApiKey, saveApiKey } from '../lib/storage';
+import { findOrphanedImages, purgeOrphanedImages, formatBytes, type OrphanReport } from '../lib/storageCleanup';
+import { getStorageUsage, type StorageUsageReport } from '../lib/storageUsage';
+import { getProjectStore, loadProjectStoreConfig, saveProjectStoreConfig } from '../lib/projectStore';
+import { createRemoteProjectStore } from '../lib/remoteProjectStore';
+import {
+  loadSchedulerSettings,
+  saveSchedulerSettings,
+  type RequestSchedulerSettings,
+} from '../lib/requestScheduler';
+import {
+  IMAGE_PROVIDERS,
+  getImageProviderName,
+  loadImageProviderSettings,
+  saveImageProviderSettings,
+  type ImageProviderId,
+  type ImageProviderSettings,
+} from '../lib/imageProviders';
+import { checkA1111, checkComfyUI, validateComfyUIWorkflow } from '../lib/localDiffusion';
+import type { Script } from '../types';
 
 export default function Settings() {
   const [apiKey, setApiKey] = useState('');
   const [saved, setSaved] = useState(false);
+  const [orphanReport, setOrphanReport] = useState<OrphanReport | null>(null);
+  const [cleanupState, setCleanupState] = useState<'idle' | 'scanning' | 'purging'>('idle');
+  const [cleanupMessage, setCleanupMessage] = useState('');
+  const [usage, setUsage] = useState<StorageUsageReport | null>(null);
+  const [usageError, setUsageError] = useState('');
+  const [storeType, setStoreType] = useState<'local' | 'remote'>('local');
+  // 지금 쓰는 저장소 (라디오 선택이 아니라 저장된 설정) - 저장공간 사용량/정리는 브라우저 저장소만 본다
+  const [activeStoreType, setActiveStoreType] = useState<'local' | 'remote'>(() => loadProjectStoreConfig().type);
+  const [serverUrl, setServerUrl] = useState('http://localhost:8787');
+  const [serverToken, setServerToken] = useState('');
+  const [storeMessage, setStoreMessage] = useState('');
+  const [schedulerSettings, setSchedulerSettings] = useState<RequestSchedulerSettings>(loadSchedulerSettings);
+  const [schedulerMessage, setSchedulerMessage] = useState('');
+  const [providerSettings, setProviderSettings] = useState<ImageProviderSettings>(loadImageProviderSettings);
+  const [providerMessage, setProviderMessage] = useState('');
+  const [checkingProvider, setCheckingProvider] = useState<'comfyui' | 'a1111' | null>(null);
+  const [scripts, setScripts] = useState<Script[]>([]);
+  const [scriptProviderError, setScriptProviderError] = useState('');
+
+  const loadUsage = async () => {
+    setUsageError('');
+    try {
+      setUsage(await getStorageUsage());
+    } catch (err) {
+      console.error('저장공간 사용량 확인 실패:', err);
+      setUsageError(err instanceof Error ? err.message : '저장공간 사용량 확인 중 오류가 발생했습니다.');
+    }
+  };
 
   useEffect(() => {
     const key = loadApiKey();
     if (key) {
       setApiKey(key);
     }
+    const storeConfig = loadProjectStoreConfig();
+    setStoreType(storeConfig.type);
+    if (storeConfig.type === 'remote') {
+      setServerUrl(storeConfig.url);
+      setServerToken(storeConfig.token ?? '');
+    } else {
+      loadUsage();
+    }
+    getProjectStore()
+      .listScripts()
+      .then(setScripts)
+      .catch((err) => {
+        console.error('대본 목록 불러오기 실패:', err);
+        setScriptProviderError(err instanceof Error ? err.message : '대본 목록을 불러오지 못했습니다.');
+      });
   }, []);
 
+  const handleSaveStore = async () => {
+    setStoreMessage('');
+    if (storeType === 'remote') {
+      const url = serverUrl.trim();
+      if (!/^https?:\/\//.test(url)) {
+        setStoreMessage('서버 주소는 http:// 또는 https://로 시작해야 합니다.');
+        return;
+      }
+      const token = serverToken.trim();
+      if (!token) {
+        setStoreMessage('서버를 실행할 때 지정한 토큰(PROJECT_TOKEN)을 입력해주세요.');
+        return;
+      }
+      // 저장 전에 연결 확인
+      try {
+        await createRemoteProjectStore(url, token).listScripts();
+      } catch (err) {
+        setStoreMessage(err instanceof Error ? err.message : '저장 서버에 연결할 수 없습니다.');
+        return;
+      }
+      saveProjectStoreConfig({ type: 'remote', url, token });
+      setActiveStoreType('remote');
+      setStoreMessage('저장 서버에 연결했습니다. 이제 대본과 이미지가 서버에 저장됩니다.');
+    } else {
+      saveProjectStoreConfig({ type: 'local' });
+      setActiveStoreType('local');
+      setStoreMessage('이 브라우저에 저장합니다.');
+      loadUsage();
+    }
+  };
+
+  const handleSaveScheduler = () => {
+    const { requestsPerMinute, maxConcurrent, maxRetries } = schedulerSettings;
+    if (!Number.isInteger(requestsPerMinute) || requestsPerMinute < 1 || requestsPerMinute > 600) {
+      setSchedulerMessage('분당 요청 수는 1~600 사이의 정수로 입력해주세요.');
+      return;
+    }
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1 || maxConcurrent > 8) {
+      setSchedulerMessage('동시 요청 수는 1~8 사이의 정수로 입력해주세요.');
+      return;
+    }
+    if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 10) {
+      setSchedulerMessage('다시 시도 횟수는 0~10 사이의 정수로 입력해주세요.');
+      return;
+    }
+    try {
+      saveSchedulerSettings(schedulerSettings);
+      setSchedulerMessage('저장되었습니다. 다음 요청부터 적용됩니다.');
+    } catch (err) {
+      setSchedulerMessage(err instanceof Error ? err.message : '설정 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleSaveProviders = () => {
+    const { comfyui, a1111, steps } = providerSettings;
+    if (!/^https?:\/\//.test(comfyui.url.trim()) || !/^https?:\/\//.test(a1111.url.trim())) {
+      setProviderMessage('서버 주소는 http:// 또는 https://로 시작해야 합니다.');
+      return;
+    }
+    if (!Number.isInteger(steps) || steps < 1 || steps > 150) {
+      setProviderMessage('샘플링 단계는 1~150 사이의 정수로 입력해주세요.');
+      return;
+    }
+    const workflowError = validateComfyUIWorkflow(comfyui.workflow);
+    if (workflowError) {
+      setProviderMessage(workflowError);
+      return;
+    }
+    try {
+      saveImageProviderSettings(providerSettings);
+      setProviderMessage('저장되었습니다. 다음에 시작하는 생성 작업부터 적용됩니다.');
+    } catch (err) {
+      setProviderMessage(err instanceof Error ? err.message : '설정 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleCheckProvider = async (provider: 'comfyui' | 'a1111') => {
+    setCheckingProvider(provider);
+    setProviderMessage('');
+    try {
+      setProviderMessage(
+        provider === 'comfyui'
+          ? await checkComfyUI(providerSettings.comfyui.url)
+          : await checkA1111(providerSettings.a1111.url)
+      );
+    } catch (err) {
+      setProviderMessage(err instanceof Error ? err.message : '서버 연결 확인 중 오류가 발생했습니다.');
+    } finally {
+      setCheckingProvider(null);
+    }
+  };
+
+  // 대본별 엔진 - 비우면 기본 엔진 (undefined는 원격 저장소로 보낼 때 JSON에서 빠지므로 null로 해제)
+  const handleChangeScriptProvider = async (script: Script, value: string) => {
+    const imageProvider = (value || null) as ImageProviderId | null;
+    setScriptProviderError('');
+    try {
+      await getProjectStore().updateScript(script.id, { imageProvider });
+      setScripts(scripts.map((s) => (s.id === script.id ? { ...s, imageProvider } : s)));
+    } catch (err) {
+      console.error('대본 엔진 저장 실패:', err);
+      setScriptProviderError(err instanceof Error ? err.message : '대본 설정 저장 중 오류가 발생했습니다.');
+    }
+  };
+
   const handleSave = () => {
     if (!apiKey.trim()) {
       alert('API 키를 입력해주세요.');
       return;
     }
 
-    saveApiKey(apiKey.trim());
+    try {
+      saveApiKey(apiKey.trim());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'API 키 저장 중 오류가 발생했습니다.');
+      return;
+    }
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const handleScan = async () => {
+    setCleanupState('scanning');
+    setCleanupMessage('');
+    try {
+      setOrphanReport(await findOrphanedImages());
+    } catch (err) {
+      console.error('저장공간 검사 실패:', err);
+      setCleanupMessage(err instanceof Error ? err.message : '저장공간 검사 중 오류가 발생했습니다.');
+    } finally {
+      setCleanupState('idle');
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!orphanReport || orphanReport.count === 0) return;
+    if (!confirm(`사용되지 않는 이미지 ${orphanReport.count}개를 삭제합니다. 계속하시겠습니까?`)) {
+      return;
+    }
+
+    setCleanupState('purging');
+    try {
+      const purged = await purgeOrphanedImages();
+      setCleanupMessage(`이미지 ${purged.count}개 (${formatBytes(purged.bytes)})를 삭제했습니다.`);
+      setOrphanReport(null);
+      await loadUsage();
+    } catch (err) {
+      console.error('저장공간 정리 실패:', err);
+      setCleanupMessage(err instanceof Error ? err.message : '저장공간 정리 중 오류가 발생했습니다.');
+    } finally {
+      setCleanupState('idle');
+    }
+  };
+
   return (
-    <div className="max-w-2xl mx-auto">
+    <div className="max-w-2xl mx-auto space-y-6">
       <h1 className="text-2xl font-bold text-gray-800 mb-6">설정</h1>
 
       <div className="bg-white rounded-lg shadow p-6">
@@ -81,6 +286,431 @@ export default function Settings() {
           </ul>
         </div>
       </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">API 요청 속도</h2>
+
+        <p className="text-sm text-gray-600 mb-4">
+          분석과 이미지 생성 요청을 이 속도에 맞춰 나눠 보냅니다. 무료 요금제는 분당 요청 수가 적으니 낮게 두세요.
+          동시 요청 수만큼 여러 장면을 함께 생성합니다. (로컬 엔진을 포함해 동시에 생성하는 이미지 수도 이만큼으로 제한)
+          요청 한도 초과(429)나 서버 오류(503)는 기다렸다가 자동으로 다시 시도합니다.
+        </p>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">동시 요청 수</span>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={schedulerSettings.maxConcurrent}
+                onChange={(e) => setSchedulerSettings({ ...schedulerSettings, maxConcurrent: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">분당 요청 수</span>
+              <input
+                type="number"
+                min={1}
+                max={600}
+                value={schedulerSettings.requestsPerMinute}
+                onChange={(e) => setSchedulerSettings({ ...schedulerSettings, requestsPerMinute: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">다시 시도 횟수</span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={schedulerSettings.maxRetries}
+                onChange={(e) => setSchedulerSettings({ ...schedulerSettings, maxRetries: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <button
+            onClick={handleSaveScheduler}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            저장
+          </button>
+
+          {schedulerMessage && <p className="text-sm text-gray-600">{schedulerMessage}</p>}
+          <p className="text-xs text-gray-400">
+            API 키 오류나 안전 필터 차단처럼 다시 보내도 같은 결과인 오류는 다시 시도하지 않습니다.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">이미지 생성 엔진</h2>
+
+        <p className="text-sm text-gray-600 mb-4">
+          장면과 캐릭터 이미지를 만들 엔진입니다. 대본마다 다른 엔진을 고를 수 있고, 고르지 않은 대본은 기본 엔진을 씁니다.
+          로컬 엔진(ComfyUI, AUTOMATIC1111)은 캐릭터 참조 이미지를 쓰지 않고 외모 설명만으로 그립니다.
+        </p>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">기본 엔진</span>
+            <select
+              value={providerSettings.defaultProvider}
+              onChange={(e) =>
+                setProviderSettings({ ...providerSettings, defaultProvider: e.target.value as ImageProviderId })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {IMAGE_PROVIDERS.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.name} - {provider.description}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700">ComfyUI</h3>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={providerSettings.comfyui.url}
+                onChange={(e) =>
+                  setProviderSettings({ ...providerSettings, comfyui: { ...providerSettings.comfyui, url: e.target.value } })
+                }
+                placeholder="http://127.0.0.1:8188"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => handleCheckProvider('comfyui')}
+                disabled={checkingProvider !== null}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-white disabled:opacity-50 transition"
+              >
+                {checkingProvider === 'comfyui' ? '확인 중...' : '연결 확인'}
+              </button>
+            </div>
+            <label className="block">
+              <span className="block text-sm text-gray-600 mb-1">체크포인트 (기본 워크플로)</span>
+              <input
+                type="text"
+                value={providerSettings.comfyui.checkpoint}
+                onChange={(e) =>
+                  setProviderSettings({
+                    ...providerSettings,
+                    comfyui: { ...providerSettings.comfyui, checkpoint: e.target.value },
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm text-gray-600 mb-1">
+                워크플로 JSON (선택 - API 형식으로 저장한 워크플로, {'{{prompt}}'} {'{{negative_prompt}}'} {'{{width}}'}{' '}
+                {'{{height}}'} {'{{seed}}'} {'{{steps}}'} 자리를 채웁니다)
+              </span>
+              <textarea
+                value={providerSettings.comfyui.workflow}
+                onChange={(e) =>
+                  setProviderSettings({
+                    ...providerSettings,
+                    comfyui: { ...providerSettings.comfyui, workflow: e.target.value },
+                  })
+                }
+                rows={4}
+                placeholder="비워 두면 체크포인트로 기본 txt2img 워크플로를 만듭니다."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700">AUTOMATIC1111</h3>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={providerSettings.a1111.url}
+                onChange={(e) => setProviderSettings({ ...providerSettings, a1111: { url: e.target.value } })}
+                placeholder="http://127.0.0.1:7860"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => handleCheckProvider('a1111')}
+                disabled={checkingProvider !== null}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-white disabled:opacity-50 transition"
+              >
+                {checkingProvider === 'a1111' ? '확인 중...' : '연결 확인'}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 mb-1">샘플링 단계</span>
+              <input
+                type="number"
+                min={1}
+                max={150}
+                value={providerSettings.steps}
+                onChange={(e) => setProviderSettings({ ...providerSettings, steps: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block col-span-2">
+              <span className="block text-sm font-medium text-gray-700 mb-1">네거티브 프롬프트</span>
+              <input
+                type="text"
+                value={providerSettings.negativePrompt}
+                onChange={(e) => setProviderSettings({ ...providerSettings, negativePrompt: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <button
+            onClick={handleSaveProviders}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            저장
+          </button>
+
+          {providerMessage && <p className="text-sm text-gray-600">{providerMessage}</p>}
+          <p className="text-xs text-gray-400">
+            브라우저에서 로컬 서버를 바로 호출하므로 ComfyUI는 <code>--enable-cors-header</code>, AUTOMATIC1111은{' '}
+            <code>--api --cors-allow-origins</code> 옵션으로 실행해야 합니다.
+          </p>
+
+          {scripts.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">대본별 엔진</h3>
+              {scriptProviderError && <p className="text-sm text-red-600 mb-2">{scriptProviderError}</p>}
+              <ul className="divide-y border rounded-lg">
+                {scripts.map((script) => (
+                  <li key={script.id} className="px-3 py-2 flex items-center justify-between gap-4">
+                    <span className="text-sm text-gray-700 truncate">{script.title}</span>
+                    <select
+                      value={script.imageProvider ?? ''}
+                      onChange={(e) => handleChangeScriptProvider(script, e.target.value)}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">기본 엔진 ({getImageProviderName(providerSettings.defaultProvider)})</option>
+                      {IMAGE_PROVIDERS.map((provider) => (
+                        <option key={provider.id} value={provider.id}>
+                          {provider.name}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">데이터 저장 위치</h2>
+
+        <div className="space-y-3">
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              checked={storeType === 'local'}
+              onChange={() => setStoreType('local')}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">이 브라우저 (IndexedDB)</span>
+              <span className="block text-sm text-gray-500">이 컴퓨터의 이 브라우저에서만 볼 수 있습니다.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              checked={storeType === 'remote'}
+              onChange={() => setStoreType('remote')}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">저장 서버</span>
+              <span className="block text-sm text-gray-500">
+                같은 네트워크에서 <code>npm run server</code>로 실행한 서버에 저장해 여러 사람이 함께 사용합니다.
+                실행 취소/다시 실행과 재분석 전 스냅샷은 지원하지 않습니다.
+              </span>
+            </span>
+          </label>
+
+          {storeType === 'remote' && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="http://192.168.0.10:8787"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="password"
+                value={serverToken}
+                onChange={(e) => setServerToken(e.target.value)}
+                placeholder="서버 토큰 (PROJECT_TOKEN)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <button
+            onClick={handleSaveStore}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            저장
+          </button>
+
+          {storeMessage && <p className="text-sm text-gray-600">{storeMessage}</p>}
+          <p className="text-xs text-gray-400">
+            저장 위치를 바꿔도 기존 데이터는 옮겨지지 않습니다. 프로젝트 내보내기/가져오기로 옮겨주세요.
+            실행 취소와 스냅샷은 브라우저 저장소에서만 지원합니다.
+          </p>
+        </div>
+      </div>
+
+      {activeStoreType === 'remote' ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">저장공간</h2>
+          <p className="text-sm text-gray-600">
+            지금은 저장 서버에 저장하고 있습니다. 저장공간 사용량과 정리는 이 브라우저의 저장소(IndexedDB)만 검사하므로
+            저장 서버를 쓰는 동안에는 표시하지 않습니다. 서버의 사용량은 서버의 데이터 폴더(DATA_DIR)에서 확인해주세요.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-800">브라우저 저장공간</h2>
+              <button
+                onClick={loadUsage}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+              >
+                새로고침
+              </button>
+            </div>
+
+            {usageError && <p className="text-sm text-red-600 mb-4">{usageError}</p>}
+
+            {!usage ? (
+              !usageError && <p className="text-sm text-gray-500">확인 중...</p>
+            ) : (
+              <div className="space-y-4">
+                {usage.estimate ? (
+                  <div>
+                    <div className="flex justify-between text-sm text-gray-700 mb-1">
+                      <span>
+                        {formatBytes(usage.estimate.usage)} / {formatBytes(usage.estimate.quota)} 사용
+                      </span>
+                      <span>{((usage.estimate.usage / usage.estimate.quota) * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${
+                          usage.estimate.usage / usage.estimate.quota > 0.9 ? 'bg-red-500' : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${Math.min(100, (usage.estimate.usage / usage.estimate.quota) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">이 브라우저는 저장공간 한도 확인을 지원하지 않습니다.</p>
+                )}
+
+                <p className="text-sm text-gray-500">
+                  설정(localStorage) {formatBytes(usage.localStorageBytes)}
+                  {usage.unassignedImageBytes > 0 &&
+                    ` · 대본에 속하지 않은 이미지 ${formatBytes(usage.unassignedImageBytes)}`}
+                </p>
+
+                {usage.scripts.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 font-medium">대본</th>
+                        <th className="py-2 font-medium text-right">데이터</th>
+                        <th className="py-2 font-medium text-right">장면 이미지</th>
+                        <th className="py-2 font-medium text-right">캐릭터 이미지</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {usage.scripts.map((item) => (
+                        <tr key={item.scriptId} className="border-b last:border-0 text-gray-700">
+                          <td className="py-2 truncate max-w-[12rem]">{item.title}</td>
+                          <td className="py-2 text-right">{formatBytes(item.metadataBytes)}</td>
+                          <td className="py-2 text-right">
+                            {item.sceneImageCount}개 · {formatBytes(item.sceneImageBytes)}
+                          </td>
+                          <td className="py-2 text-right">
+                            {item.characterImageCount}개 · {formatBytes(item.characterImageBytes)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">
+              저장공간 정리
+            </h2>
+
+            <p className="text-sm text-gray-600 mb-4">
+              어떤 장면이나 캐릭터에도 연결되지 않은 이미지를 찾아 삭제합니다.
+              최근 10분 이내에 저장된 이미지는 생성 중일 수 있으므로 제외됩니다.
+            </p>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleScan}
+                disabled={cleanupState !== 'idle'}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+              >
+                {cleanupState === 'scanning' ? '검사 중...' : '검사'}
+              </button>
+              <button
+                onClick={handlePurge}
+                disabled={cleanupState !== 'idle' || !orphanReport || orphanReport.count === 0}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:bg-gray-300 transition"
+              >
+                {cleanupState === 'purging' ? '정리 중...' : '정리'}
+              </button>
+            </div>
+
+            {orphanReport && (
+              <div className="mt-4 p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                {orphanReport.count === 0 ? (
+                  <p>정리할 이미지가 없습니다.</p>
+                ) : (
+                  <>
+                    <p>
+                      사용되지 않는 이미지 {orphanReport.count}개 · {formatBytes(orphanReport.bytes)}
+                    </p>
+                    <p className="text-gray-500">
+                      장면 이미지 {orphanReport.sceneImages.length}개 · 캐릭터 이미지 {orphanReport.characterImages.length}개
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {cleanupMessage && (
+              <p className="mt-4 text-sm text-gray-600">{cleanupMessage}</p>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -6,10 +6,23 @@ export interface Script {
   genre?: string;
   styleGuide?: string;
   status: 'draft' | 'analyzing' | 'ready' | 'generating' | 'completed';
+  revisions?: ScriptRevision[]; // 이전 원문 (최신순)
+  analyzedAt?: string; // 마지막 분석 시각
+  imageProvider?: ImageProviderId | null; // 이미지 생성 엔진 (없거나 null이면 설정의 기본 엔진, 해제는 null로 저장)
   createdAt: string;
   updatedAt: string;
 }
 
+// 이미지 생성 엔진
+export type ImageProviderId = 'gemini' | 'comfyui' | 'a1111' | 'placeholder';
+
+// 대본 원문 수정 기록 - 수정하기 전의 원문
+export interface ScriptRevision {
+  id: string;
+  rawContent: string;
+  createdAt: string; // 이 원문이 교체된 시각
+}
+
 // 캐릭터 외모
 export interface Appearance {
   age?: string;
@@ -26,6 +39,7 @@ export interface Character {
   id: string;
   scriptId: string;
   name: string;
+  aliases?: string[]; // 대본에서 같은 인물을 부르는 다른 이름 ("민준이", "Minjun" 등)
   appearance: Appearance;
   defaultOutfit?: string;
   referenceImages: string[]; // 이미지 ID 목록 (최대 8개)
@@ -35,6 +49,50 @@ export interface Character {
   updatedAt: string;
 }
 
+// 샷 크기 / 카메라 앵글
+export type ShotSize = 'extreme-wide' | 'wide' | 'full' | 'medium' | 'close-up' | 'extreme-close-up';
+export type CameraAngle = 'eye-level' | 'high' | 'low' | 'over-the-shoulder' | 'birds-eye' | 'pov';
+
+// 샷 - 장면 안의 한 컷 (스토리보드 단위)
+export interface Shot {
+  id: string;
+  shotNumber: number;
+  size: ShotSize;
+  angle: CameraAngle;
+  characterIds: string[]; // 화면에 나오는 캐릭터
+  action: string; // 이 샷에서 보이는 동작/구도 (영어)
+  generatedImages: string[]; // 이미지 ID 목록
+  selectedImage?: string;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
+}
+
+// 대사 한 줄 (내레이션은 화자 없음)
+export interface DialogueLine {
+  id: string;
+  kind: DialogueKind;
+  speaker?: string; // 대본에 적힌 이름 그대로
+  characterId?: string;
+  text: string; // 원문 언어 그대로
+  tone?: string; // 말투/감정 (예: "속삭이며")
+}
+
+export type DialogueKind = 'speech' | 'thought' | 'narration';
+
+// 이미지 위의 말풍선/캡션 - 위치와 크기는 이미지 크기 대비 비율 (0~1)
+export interface SpeechBubble {
+  id: string;
+  imageId: string; // 말풍선을 얹은 이미지 (장면 또는 샷 이미지)
+  kind: 'speech' | 'thought' | 'caption';
+  text: string;
+  dialogueId?: string; // 대사에서 만든 말풍선
+  x: number; // 중심
+  y: number;
+  width: number; // 글자 영역 너비
+  fontSize: number; // 이미지 너비 대비 글자 크기
+  tailX?: number; // 꼬리 끝 (캡션은 없음)
+  tailY?: number;
+}
+
 // 장면
 export interface Scene {
   id: string;
@@ -48,6 +106,10 @@ export interface Scene {
   generatedPrompt?: string;
   userEditedPrompt?: string;
   characterIds: string[];
+  unresolvedCharacterNames?: string[]; // 분석 결과 중 캐릭터에 연결하지 못한 이름
+  shots?: Shot[]; // 샷 목록 (있으면 샷별로 이미지 생성)
+  dialogue?: DialogueLine[]; // 대사 (등장 순서)
+  bubbles?: SpeechBubble[]; // 이미지별 말풍선
   generatedImages: string[]; // Base64 이미지 데이터
   selectedImage?: string;
   status: 'pending' | 'generating' | 'completed' | 'failed';
@@ -70,6 +132,24 @@ export interface AnalysisResult {
     originalText: string;
     visualDescription: string;
     characterNames: string[];
+    shots?: AnalyzedShot[];
+    dialogue?: AnalyzedDialogue[];
   }[];
   styleGuide?: string;
 }
+
+// AI가 제안한 샷
+export interface AnalyzedShot {
+  size: ShotSize;
+  angle: CameraAngle;
+  characterNames: string[];
+  action: string;
+}
+
+// 분석에서 뽑은 대사
+export interface AnalyzedDialogue {
+  kind: DialogueKind;
+  speaker?: string;
+  text: string;
+  tone?: string;
+}